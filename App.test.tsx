@@ -0,0 +1,144 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, configure, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import App from './App';
+import type { NegotiationParams, PartialOffer } from './types';
+import { setLlmProvider } from './services/llmProvider';
+import { createMockProvider } from './services/providers/mockProvider';
+import { LlmRequestError } from './services/llmErrors';
+import { createApiHandler } from './server/api';
+import { classifyIntent, confirmUnlessBinding, decideAgentMove, defaultMoveText } from './services/agentPolicy';
+import { nashBargainingSolution } from './services/negotiationService';
+import { DEFAULT_STRATEGY } from './services/concessionStrategy';
+import { CONTRACT_PRESETS, DEMAND_PRESETS, INITIAL_PARAMS, SYMMETRIC_BARGAINING } from './constants';
+
+// Each reply makes a round trip through the API handler and its stream, which outlasts the default 1s wait on slow machines.
+configure({ asyncUtilTimeout: 5000 });
+vi.setConfig({ testTimeout: 15_000 });
+
+// The session App starts with the header defaults once Math.random draws c=3 and p=10.
+const params: NegotiationParams = {
+  ...INITIAL_PARAMS,
+  c: 3,
+  p: 10,
+  demand: DEMAND_PRESETS.uniform.demand,
+  bargaining: SYMMETRIC_BARGAINING,
+  contract: CONTRACT_PRESETS.wholesale.terms,
+  limits: {},
+  strategy: DEFAULT_STRATEGY,
+};
+
+// The reply the policy decides for a message, as phrased by the mock model.
+const expectedReply = (text: string, offer: PartialOffer, binding: boolean) =>
+  defaultMoveText(confirmUnlessBinding(decideAgentMove(offer, classifyIntent(text), params, nashBargainingSolution(params)), binding));
+
+beforeEach(() => {
+  setLlmProvider(createMockProvider({ chunkDelayMs: 0 }));
+  // The app talks to the API server, here handled in-process with whichever provider the test set.
+  const handleApi = createApiHandler({ log: () => {} });
+  vi.stubGlobal('fetch', (path: string, init?: RequestInit) => handleApi(new Request(new URL(path, 'http://localhost'), init)));
+  vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0);
+  // jsdom implements neither, and recharts and the chat window rely on them.
+  vi.stubGlobal('ResizeObserver', class { observe() {} unobserve() {} disconnect() {} });
+  Element.prototype.scrollIntoView = () => {};
+  localStorage.clear();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+const sendMessage = (text: string) => {
+  fireEvent.change(screen.getByPlaceholderText('Type a message (optional)...'), { target: { value: text } });
+  fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+};
+
+describe('the AI turn loop', () => {
+  it('answers a binding offer with both terms (scenario 1)', async () => {
+    render(<App />);
+    fireEvent.change(document.getElementById('w-input')!, { target: { value: '8' } });
+    fireEvent.change(document.getElementById('q-input')!, { target: { value: '50' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Send Offer' }));
+
+    const reply = expectedReply("I'd like to propose a wholesale price (w) of 8.00 and a quantity (q) of 50.", { w: 8, q: 50 }, true);
+    expect(reply).toMatch(/^Thanks for the proposal/);
+    expect(await screen.findByText(reply)).toBeTruthy();
+  });
+
+  it.each([
+    ['a price only (scenario 2)', 'Could you do a price of 6?', { w: 6 }, /^Thanks for the proposal/],
+    ['a quantity only (scenario 3)', 'What about 40 units?', { q: 40 }, /^Thanks for the proposal/],
+    ['no offer (scenario 4)', 'Hello, nice to meet you.', {}, /^Thanks for the message/],
+  ] as const)('answers a message with %s', async (_, text, offer, opening) => {
+    render(<App />);
+    sendMessage(text);
+
+    const reply = expectedReply(text, offer, false);
+    expect(reply).toMatch(opening);
+    expect(await screen.findByText(reply)).toBeTruthy();
+  });
+});
+
+describe('streaming', () => {
+  it('shows the reply as it streams and drops it when stopped', async () => {
+    setLlmProvider(createMockProvider({ chunkDelayMs: 50 }));
+    render(<App />);
+    const text = 'Hello, nice to meet you.';
+    sendMessage(text);
+
+    // Only the reply text streams in, never the JSON around it.
+    expect(await screen.findByText(/^Thanks for/)).toBeTruthy();
+    expect(screen.queryByText(/Scripted local model/)).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'Stop' }));
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Send' })).toBeTruthy());
+    expect(screen.queryByText(/^Thanks for/)).toBeNull();
+    expect(screen.queryByText(/encountered an error/)).toBeNull();
+    expect(screen.getByText(text)).toBeTruthy();
+  });
+});
+
+describe('failed replies', () => {
+  it('offers a retry instead of a made-up reply, and can answer without the model', async () => {
+    setLlmProvider({ name: 'mock', generate: async () => { throw new LlmRequestError('API key not valid'); } });
+    render(<App />);
+    const text = 'Hello, nice to meet you.';
+    sendMessage(text);
+
+    expect(await screen.findByText(/refused the request/)).toBeTruthy();
+    expect(screen.queryByText(/^Thanks for/)).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(await screen.findByText(/refused the request/)).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reply without the model' }));
+    expect(await screen.findByText(expectedReply(text, {}, false))).toBeTruthy();
+    expect(screen.queryByText(/refused the request/)).toBeNull();
+  });
+
+  it('answers the unanswered message once the model is back', async () => {
+    setLlmProvider({ name: 'mock', generate: async () => { throw new LlmRequestError('API key not valid'); } });
+    render(<App />);
+    const text = 'What about 40 units?';
+    sendMessage(text);
+    await screen.findByText(/refused the request/);
+
+    setLlmProvider(createMockProvider({ chunkDelayMs: 0 }));
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(await screen.findByText(expectedReply(text, { q: 40 }, false))).toBeTruthy();
+  });
+});
+
+describe('the dashboard', () => {
+  it('shows the Nash solution of the new parameters once a setting changes', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    render(<App />);
+    expect(screen.getByText(nashBargainingSolution(params).wholesale_price.toFixed(2))).toBeTruthy();
+
+    fireEvent.change(document.getElementById('power-select')!, { target: { value: '0.7' } });
+    const stronger = nashBargainingSolution({ ...params, bargaining: { ...SYMMETRIC_BARGAINING, retailerWeight: 0.7 } });
+    expect(await screen.findByText(stronger.wholesale_price.toFixed(2))).toBeTruthy();
+  });
+});
@@ -2,136 +2,372 @@ import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { ChatWindow } from './components/ChatWindow';
 import { NegotiationDashboard } from './components/NegotiationDashboard';
 import { NegotiationSummary } from './components/NegotiationSummary';
-import type { Message, Offer, NegotiationParams } from './types';
-import { getAiResponse, parseOfferWithLLM } from './services/geminiService';
-import { nashBargainingSolution, calculateProfits } from './services/negotiationService';
-import { INITIAL_PARAMS } from './constants';
-
-const DebugPanel: React.FC<{ prompt: string }> = ({ prompt }) => {
-  const [isOpen, setIsOpen] = useState(true);
-
-  if (!prompt) return null;
-
-  return (
-    <div className="bg-gray-800 border border-gray-700 rounded-lg mt-4">
-      <button onClick={() => setIsOpen(!isOpen)} className="w-full text-left p-2 font-semibold text-gray-400">
-        {isOpen ? '▼' : '►'} Last AI Prompt
-      </button>
-      {isOpen && (
-        <pre className="text-xs p-4 bg-black/20 text-gray-300 whitespace-pre-wrap font-mono overflow-x-auto">
-          {prompt}
-        </pre>
-      )}
-    </div>
-  )
+import { SessionBrowser } from './components/SessionBrowser';
+import { SessionReplay } from './components/SessionReplay';
+import { ExperimentDesigner } from './components/ExperimentDesigner';
+import { RoundResultsTable } from './components/RoundResults';
+import { DebugPanel } from './components/DebugPanel';
+import type { Message, Offer, NegotiationParams, ContractType, Role, InformationMode, Belief, SessionRecord, ExperimentConfig, Settlement, EndReason, ConcessionStrategy, PartialOffer, LlmFailure } from './types';
+import { getAiResponse, parseOffer } from './services/aiClient';
+import { describeLlmError, toLlmError, type LlmError } from './services/llmErrors';
+import { nashBargainingSolution, calculateProfits, calculateOfferProfits, coversUnitCost } from './services/negotiationService';
+import { describeDemand } from './services/demandDistribution';
+import { isVisibleToUser, priorBelief, updateBelief } from './services/beliefs';
+import { buildSessionRecord, loadParticipantId, messageOffer, newSessionId, saveParticipantId, saveSession } from './services/sessionLog';
+import { transcriptFileName, transcriptToJson } from './services/transcript';
+import { analyticsFileName, analyticsToCsv, negotiationAnalytics } from './services/analytics';
+import { answerOpenOffers, openOffer, OFFER_STATUS_FOR_ACTION } from './services/offerProtocol';
+import { cumulativeEarnings, roundResult, totalPayment, type RoundResult } from './services/roundManager';
+import { settleDeal, settlementSeed } from './services/settlement';
+import { DEFAULT_STRATEGY } from './services/concessionStrategy';
+import { enrolParticipant, loadActiveExperiment, participantSchedule, roundAssignment, saveActiveExperiment, type ParticipantSchedule } from './services/experiment';
+import { downloadFile } from './services/download';
+import { contractTermInputs, describeOfferTerms, formatOfferTerms, mergeContractTerms, parseContractTermInputs, type ContractTermField } from './services/contracts';
+import { INITIAL_PARAMS, DEMAND_PRESETS, SYMMETRIC_BARGAINING, CONTRACT_PRESETS, LIMIT_PRESETS, PERSONA_PRESETS, INEQUITY_AVERSION_PRESETS, STRATEGY_LABELS, ROLE_COLORS, ROLE_LABELS, DEFAULT_PARAMETER_GRID, DEFAULT_CONVERSION_RATE, otherRole } from './constants';
+
+const RETAILER_WEIGHTS = [0.3, 0.5, 0.7];
+
+const INFORMATION_LABELS: Record<InformationMode, string> = { full: 'Full', private: 'Private' };
+
+// What the header selects control; changing any of them starts a new session.
+interface SessionSettings {
+  demandPreset: string;
+  retailerWeight: number;
+  contractType: ContractType;
+  aiRole: Role;
+  information: InformationMode;
+  limitsPreset: string;
+  strategy: ConcessionStrategy;
+  personaPreset: string;
+  aversionPreset: string;
 }
 
-const generateNewParams = (): NegotiationParams => {
-    const C_VALUES = [3, 4, 5];
-    const P_VALUES = [10, 11, 12];
-    const randomC = C_VALUES[Math.floor(Math.random() * C_VALUES.length)];
-    const randomP = P_VALUES[Math.floor(Math.random() * P_VALUES.length)];
+const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  demandPreset: 'uniform',
+  retailerWeight: SYMMETRIC_BARGAINING.retailerWeight,
+  contractType: INITIAL_PARAMS.contract.type,
+  aiRole: INITIAL_PARAMS.aiRole,
+  information: INITIAL_PARAMS.information,
+  limitsPreset: 'none',
+  strategy: DEFAULT_STRATEGY,
+  personaPreset: 'neutral',
+  aversionPreset: 'selfish',
+};
+
+const generateNewParams = (settings: SessionSettings = DEFAULT_SESSION_SETTINGS): NegotiationParams => {
+    const { costValues, priceValues } = DEFAULT_PARAMETER_GRID;
+    const randomC = costValues[Math.floor(Math.random() * costValues.length)];
+    const randomP = priceValues[Math.floor(Math.random() * priceValues.length)];
     return {
       ...INITIAL_PARAMS,
       c: randomC,
       p: randomP,
+      demand: DEMAND_PRESETS[settings.demandPreset].demand,
+      bargaining: { ...SYMMETRIC_BARGAINING, retailerWeight: settings.retailerWeight },
+      contract: CONTRACT_PRESETS[settings.contractType].terms,
+      aiRole: settings.aiRole,
+      information: settings.information,
+      limits: LIMIT_PRESETS[settings.limitsPreset].limits,
+      strategy: settings.strategy,
+      persona: PERSONA_PRESETS[settings.personaPreset].persona,
+      inequityAversion: INEQUITY_AVERSION_PRESETS[settings.aversionPreset].inequityAversion,
+      grid: DEFAULT_PARAMETER_GRID,
     };
 };
 
+// Only the private-information mode has the AI reason from a belief.
+const initialBelief = (params: NegotiationParams): Belief | null => (params.information === 'private' ? priorBelief(params) : null);
+
+const greeting = (aiRole: Role) =>
+  `Hello, I'm the ${aiRole}. I'm ready to discuss the terms for our partnership. To start, you can send me a message or propose a full offer below.`;
+
+const greetingMessage = (aiRole: Role): Message => ({ id: Date.now(), sender: 'ai', text: greeting(aiRole), timestamp: Date.now() });
+
+// An AI reply that failed, kept until the user retries it. Once the user's offer has been read, a retry
+// reuses the reading and the belief updated with it, so the message counts once.
+interface FailedReply {
+  chatHistory: Message[];
+  reading?: { lastUserOffer: PartialOffer; belief: Belief | null };
+  error: LlmError;
+}
+
+// Identifies the running session in the session log.
+const newSessionInfo = () => ({ sessionId: newSessionId(), startedAt: Date.now() });
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
 
 export default function App() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [userInput, setUserInput] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [negotiationParams, setNegotiationParams] = useState<NegotiationParams>(generateNewParams);
-  const [isConcluded, setIsConcluded] = useState<boolean>(false);
+  const [streamingText, setStreamingText] = useState<string | null>(null); // The AI's reply as it streams in
+  const [failedReply, setFailedReply] = useState<FailedReply | null>(null);
+  const [sessionLogError, setSessionLogError] = useState<string | null>(null); // Set while sessions cannot be recorded
+  const [llmFailures, setLlmFailures] = useState<LlmFailure[]>([]); // Failed calls to the model this session
+  const [sessionSettings, setSessionSettings] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+  const [negotiationParams, setNegotiationParams] = useState<NegotiationParams>(() => generateNewParams());
+  const [sessionEnd, setSessionEnd] = useState<{ reason: EndReason; at: number; acceptedBy?: Message['sender'] } | null>(null);
+  const [unacceptableStreak, setUnacceptableStreak] = useState<number>(0); // The user's unacceptable offers in a row, for the AI's walk-away limit
+  const [now, setNow] = useState<number>(Date.now); // Ticks every second while a time limit runs
   const [isDebugMode, setIsDebugMode] = useState<boolean>(false);
   const [lastPrompt, setLastPrompt] = useState<string>('');
+  const [sessionInfo, setSessionInfo] = useState(newSessionInfo);
+  const [participantId, setParticipantId] = useState<string>(loadParticipantId);
+  const [isSessionBrowserOpen, setIsSessionBrowserOpen] = useState<boolean>(false);
+  const [replaySession, setReplaySession] = useState<SessionRecord | null>(null);
+  const [experiment, setExperiment] = useState<ExperimentConfig | null>(loadActiveExperiment);
+  const [schedule, setSchedule] = useState<ParticipantSchedule | null>(null); // Set while a participant runs through the experiment
+  const [roundIndex, setRoundIndex] = useState<number>(0);
+  const [roundResults, setRoundResults] = useState<RoundResult[]>([]); // The participant's finished rounds
+  const [isExperimentComplete, setIsExperimentComplete] = useState<boolean>(false);
+  const [isDesignerOpen, setIsDesignerOpen] = useState<boolean>(false);
+  const [settlement, setSettlement] = useState<Settlement | null>(null); // The demand draw of the concluded deal
   
   const [offerW, setOfferW] = useState<string>('');
   const [offerQ, setOfferQ] = useState<string>('');
+  const [offerTerms, setOfferTerms] = useState<Partial<Record<ContractTermField, string>>>(() => contractTermInputs(negotiationParams.contract));
+  const [belief, setBelief] = useState<Belief | null>(() => initialBelief(negotiationParams));
 
-  const nashSolution = useRef(nashBargainingSolution(negotiationParams));
-  
-  useEffect(() => {
-    nashSolution.current = nashBargainingSolution(negotiationParams);
-  }, [negotiationParams]);
+  const isConcluded = sessionEnd !== null;
+  const nashSolution = useMemo(() => nashBargainingSolution(negotiationParams), [negotiationParams]);
+  const aiRequest = useRef<AbortController | null>(null); // The AI reply in flight, if any
 
   const latestAiOffer = useMemo(() => {
     return messages.slice().reverse().find(m => m.sender === 'ai' && m.offer)?.offer || null;
   }, [messages]);
+
+  // Only the AI's open offer can be accepted; one the user has countered has lapsed.
+  const openAiOffer = useMemo(() => openOffer(messages, 'ai')?.offer ?? null, [messages]);
   
+  const latestOffer = useMemo(() => {
+    return messages.slice().reverse().find(m => m.offer)?.offer || null;
+  }, [messages]);
+
+  const profitCalcs = useMemo(() => {
+      if (!latestOffer) return null;
+      return calculateOfferProfits(latestOffer, negotiationParams);
+  }, [latestOffer, negotiationParams]);
+
+  const isAgreed = sessionEnd?.reason === 'accepted' && latestOffer !== null && profitCalcs !== null;
+
+  // The running round of an experiment, as it would count if it ended now.
+  const currentRoundResult = useMemo(() => {
+    if (!schedule) return null;
+    return roundResult(roundIndex + 1, negotiationParams, messages, {
+      reason: sessionEnd?.reason ?? null,
+      finalOffer: latestOffer ?? undefined,
+      profits: profitCalcs ?? undefined,
+      settlement: settlement ?? undefined,
+    });
+  }, [schedule, roundIndex, negotiationParams, messages, sessionEnd, latestOffer, profitCalcs, settlement]);
+
+  const { timeLimitSeconds, maxOffers } = negotiationParams.limits ?? {};
+  const deadline = timeLimitSeconds ? sessionInfo.startedAt + timeLimitSeconds * 1000 : null;
+  const userOfferCount = useMemo(() => messages.filter(m => m.sender === 'user' && messageOffer(m)).length, [messages]);
+  const isOfferLimitReached = maxOffers !== undefined && userOfferCount >= maxOffers;
+
+  // The countdown ticks while the session runs; at the deadline it ends, once any pending AI reply is in.
+  useEffect(() => {
+    if (deadline === null || isConcluded) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline, isConcluded]);
+
+  useEffect(() => {
+    if (deadline !== null && now >= deadline && !isConcluded && !isLoading) {
+      setSessionEnd({ reason: 'time-limit', at: deadline });
+    }
+  }, [deadline, now, isConcluded, isLoading]);
+
   useEffect(() => {
     if (latestAiOffer) {
         setOfferW(latestAiOffer.w.toFixed(2));
         setOfferQ(latestAiOffer.q.toFixed(0));
+        setOfferTerms(contractTermInputs(latestAiOffer));
     }
   }, [latestAiOffer]);
 
 
-  const addMessage = useCallback((sender: 'user' | 'ai', text: string, offer?: Offer | null) => {
-    setMessages(prev => [...prev, { id: Date.now() + Math.random(), sender, text, offer: offer || undefined }]);
+  const addMessage = useCallback((sender: 'user' | 'ai', text: string, offer?: Offer | null, debugPrompt?: string): Message => {
+    const message: Message = { id: Date.now() + Math.random(), sender, text, offer: offer || undefined, offerStatus: offer ? 'proposed' : undefined, timestamp: Date.now(), debugPrompt };
+    setMessages(prev => [...prev, message]);
+    return message;
   }, []);
 
-  const handleReset = useCallback(() => {
-    const newParams = generateNewParams();
+  const startNewSession = useCallback((newParams: NegotiationParams) => {
+    aiRequest.current?.abort();
+    aiRequest.current = null;
+    setStreamingText(null);
+    setFailedReply(null);
+    setLlmFailures([]);
     setNegotiationParams(newParams);
     
-    setMessages([{
-      id: Date.now(),
-      sender: 'ai',
-      text: "Hello, I'm the retailer. I'm ready to discuss the terms for our partnership. To start, you can send me a message or propose a full offer below."
-    }]);
+    setMessages([greetingMessage(newParams.aiRole)]);
+    setSessionInfo(newSessionInfo());
     setUserInput('');
     setOfferW('');
     setOfferQ('');
+    setOfferTerms(contractTermInputs(newParams.contract));
+    setBelief(initialBelief(newParams));
     setIsLoading(false);
-    setIsConcluded(false);
+    setSessionEnd(null);
+    setUnacceptableStreak(0);
+    setNow(Date.now());
+    setSettlement(null);
     setLastPrompt('');
   }, []);
 
+  // Under an experiment the next session is the participant's next round; otherwise a new draw from the header settings.
+  const handleReset = useCallback(() => {
+    if (!schedule) {
+      startNewSession(generateNewParams(sessionSettings));
+      return;
+    }
+    setRoundResults(prev => [...prev, currentRoundResult!]);
+    if (roundIndex + 1 < schedule.rounds.length) {
+      setRoundIndex(roundIndex + 1);
+      startNewSession(schedule.rounds[roundIndex + 1]);
+    } else {
+      setIsExperimentComplete(true);
+    }
+  }, [startNewSession, sessionSettings, schedule, roundIndex, currentRoundResult]);
+
+  const handleSettingsChange = (change: Partial<SessionSettings>) => {
+    const settings = { ...sessionSettings, ...change };
+    setSessionSettings(settings);
+    startNewSession(generateNewParams(settings));
+  };
+
+  const handleStartExperiment = () => {
+    if (!experiment || !participantId.trim()) return;
+    const id = participantId.trim();
+    const participantSessions = participantSchedule(experiment, id, enrolParticipant(experiment, id));
+    setSchedule(participantSessions);
+    setRoundIndex(0);
+    setRoundResults([]);
+    setIsExperimentComplete(false);
+    startNewSession(participantSessions.rounds[0]);
+  };
+
+  const leaveExperimentSchedule = () => {
+    setSchedule(null);
+    setRoundIndex(0);
+    setRoundResults([]);
+    setIsExperimentComplete(false);
+    startNewSession(generateNewParams(sessionSettings));
+  };
+
+  const handleActivateExperiment = (config: ExperimentConfig | null) => {
+    saveActiveExperiment(config);
+    setExperiment(config);
+    setIsDesignerOpen(false);
+    leaveExperimentSchedule();
+  };
+
+  const handleNextParticipant = () => {
+    handleParticipantChange('');
+    leaveExperimentSchedule();
+  };
+
+  const setOfferTerm = (field: ContractTermField, value: string) => {
+    setOfferTerms(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleParticipantChange = (value: string) => {
+    setParticipantId(value);
+    saveParticipantId(value);
+  };
+
   useEffect(() => {
-    const firstMessage: Message = {
-      id: Date.now(),
-      sender: 'ai',
-      text: "Hello, I'm the retailer. I'm ready to discuss the terms for our partnership. To start, you can send me a message or propose a full offer below."
-    };
-    setMessages([firstMessage]);
+    setMessages([greetingMessage(negotiationParams.aiRole)]);
     setIsLoading(false);
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const processAiResponse = async (chatHistory: Message[]) => {
+  const recordLlmFailure = useCallback((failure: LlmFailure) => {
+    setLlmFailures(prev => [...prev, failure]);
+  }, []);
+
+  const processAiResponse = async (chatHistory: Message[], retry: Pick<FailedReply, 'reading'> & { offline?: boolean } = {}) => {
+    const controller = new AbortController();
+    aiRequest.current = controller;
     setIsLoading(true);
+    setFailedReply(null);
+    let reading = retry.reading;
     try {
-        const lastUserMessage = chatHistory[chatHistory.length - 1];
-        const lastUserOffer = await parseOfferWithLLM(lastUserMessage.text);
-
-        const { text: aiResponseText, debugPrompt } = await getAiResponse(chatHistory, negotiationParams, nashSolution.current, lastUserOffer);
+        if (!reading) {
+          const lastUserMessage = chatHistory[chatHistory.length - 1];
+          // A binding offer is taken as sent; only offers written in the text need reading.
+          const lastUserOffer = messageOffer(lastUserMessage) ?? await parseOffer(lastUserMessage.text, { sessionId: sessionInfo.sessionId, signal: controller.signal, onFailure: recordLlmFailure });
+          if (!lastUserMessage.offer) {
+            setMessages(prev => prev.map(m => (m.id === lastUserMessage.id ? { ...m, parsedOffer: lastUserOffer } : m)));
+          }
+          reading = { lastUserOffer, belief: belief && updateBelief(belief, lastUserOffer, negotiationParams) };
+          setBelief(reading.belief);
+        }
+
+        const { text: aiResponseText, offer: aiOffer, debugPrompt, action, unacceptable } = await getAiResponse(chatHistory, negotiationParams, nashSolution, reading.lastUserOffer, {
+          sessionId: sessionInfo.sessionId,
+          belief: reading.belief ?? undefined,
+          pastRounds: schedule?.treatment.rememberPastRounds ? roundResults : undefined,
+          unacceptableStreak,
+          signal: controller.signal,
+          onText: setStreamingText,
+          onFailure: recordLlmFailure,
+          offline: retry.offline,
+        });
         setLastPrompt(debugPrompt || 'No debug prompt available.');
 
-        const aiParsedOffer = await parseOfferWithLLM(aiResponseText);
-        const aiFullOffer = (aiParsedOffer.w !== undefined && aiParsedOffer.q !== undefined)
-            ? { w: aiParsedOffer.w, q: aiParsedOffer.q }
-            : null;
-
-        addMessage('ai', aiResponseText, aiFullOffer);
+        // Accepting adds no offer of its own: the deal is the user's offer as it stands.
+        const newOffer = action === 'accept' ? null : aiOffer;
+        setMessages(prev => answerOpenOffers(prev, 'ai', action ? OFFER_STATUS_FOR_ACTION[action] : null, !!newOffer));
+        const aiMessage = addMessage('ai', aiResponseText, newOffer, debugPrompt);
+        // Messages without an offer neither count towards the walk-away limit nor reset it.
+        if (unacceptable !== undefined) {
+          setUnacceptableStreak(unacceptable ? unacceptableStreak + 1 : 0);
+        }
+        if (action === 'accept') {
+          setSessionEnd({ reason: 'accepted', at: aiMessage.timestamp!, acceptedBy: 'ai' });
+        } else if (action === 'walk-away') {
+          setSessionEnd({ reason: 'ai-walked-away', at: aiMessage.timestamp! });
+        }
     } catch (error) {
+        // A stopped reply leaves the user's message unanswered; they can send another.
+        if (controller.signal.aborted) return;
+        // No reply is made up: the user's message stays unanswered until they retry.
         console.error("Error getting AI response:", error);
-        addMessage('ai', "Sorry, I encountered an error. Please try again.");
+        setFailedReply({ chatHistory, reading, error: toLlmError(error) });
     } finally {
-        setIsLoading(false);
+        // A new session may have started while the reply was in flight; its state is not ours to reset.
+        if (aiRequest.current === controller) {
+          aiRequest.current = null;
+          setStreamingText(null);
+          setIsLoading(false);
+        }
     }
   };
 
+  const handleAbort = () => {
+    aiRequest.current?.abort();
+  };
+
+  // Offline, the AI's reply is the template phrasing of its decided move, without the model.
+  const handleRetryReply = (offline = false) => {
+    if (!failedReply || isLoading || isConcluded) return;
+    processAiResponse(failedReply.chatHistory, { reading: failedReply.reading, offline });
+  };
+
   const handleSendMessage = async () => {
-    if (!userInput.trim() || isLoading || isConcluded) return;
+    if (!userInput.trim() || isLoading || isConcluded || isOfferLimitReached) return;
 
     const userMessageText = userInput;
     setUserInput('');
 
-    const userMessageForHistory: Message = { id: Date.now(), sender: 'user', text: userMessageText, offer: undefined };
-    addMessage('user', userMessageText, null);
+    const userMessageForHistory = addMessage('user', userMessageText, null);
     
     const newChatHistory = [...messages, userMessageForHistory];
     await processAiResponse(newChatHistory);
@@ -140,68 +376,296 @@ export default function App() {
   const handleSendOffer = async () => {
     const w = parseFloat(offerW);
     const q = parseInt(offerQ, 10);
+    const termValues = parseContractTermInputs(negotiationParams.contract.type, offerTerms);
 
-    if (isNaN(w) || isNaN(q) || w < negotiationParams.c || q <= 0 || isLoading || isConcluded) {
+    if (isNaN(w) || isNaN(q) || q <= 0 || !termValues || isLoading || isConcluded || isOfferLimitReached) {
         // Simple validation feedback can be added later if needed
         return;
     }
 
-    const offer: Offer = { w, q };
-    const userMessageText = `I'd like to propose a wholesale price (w) of ${w.toFixed(2)} and a quantity (q) of ${q}.`;
-    
-    const userMessageForHistory: Message = { id: Date.now(), sender: 'user', text: userMessageText, offer };
-    addMessage('user', userMessageText, offer);
+    const terms = mergeContractTerms(negotiationParams.contract, termValues);
+    // A user who cannot see c is not told that their offer falls short of it.
+    if (isVisibleToUser(negotiationParams, 'c') ? !coversUnitCost(w, q, negotiationParams, terms) : w <= 0) {
+        return;
+    }
+    const offer: Offer = { ...terms, w, q };
+    const userMessageText = `I'd like to propose ${describeOfferTerms(offer)}.`;
+
+    setMessages(prev => answerOpenOffers(prev, 'user', 'countered', true));
+    const userMessageForHistory = addMessage('user', userMessageText, offer);
 
     const newChatHistory = [...messages, userMessageForHistory];
     await processAiResponse(newChatHistory);
   };
 
+  // The AI's offer is binding, so accepting it concludes the deal on exactly its terms.
   const handleAcceptOffer = () => {
-    if (!latestAiOffer || isConcluded) return;
+    if (!openAiOffer || isConcluded) return;
 
-    const acceptanceText = `Sounds good, I accept your offer of w=${latestAiOffer.w.toFixed(2)} and q=${latestAiOffer.q}. We have a deal.`;
-    addMessage('user', acceptanceText, latestAiOffer);
-    setIsConcluded(true);
+    const acceptanceText = `Sounds good, I accept your offer of ${formatOfferTerms(openAiOffer)}. We have a deal.`;
+    setMessages(prev => answerOpenOffers(prev, 'user', 'accepted', false));
+    const message = addMessage('user', acceptanceText, null);
+    setSessionEnd({ reason: 'accepted', at: message.timestamp!, acceptedBy: 'user' });
   };
 
+  const handleWalkAway = () => {
+    if (isLoading || isConcluded) return;
+    if (!window.confirm('Walk away without a deal? Both sides then receive their disagreement payoffs.')) return;
+    setMessages(prev => answerOpenOffers(prev, 'user', 'rejected', false));
+    const message = addMessage('user', "I'm walking away from this negotiation. We don't have a deal.", null);
+    setSessionEnd({ reason: 'walked-away', at: message.timestamp! });
+  };
 
-  const latestOffer = useMemo(() => {
-    return messages.slice().reverse().find(m => m.offer)?.offer || null;
-  }, [messages]);
-
-  const profitCalcs = useMemo(() => {
-      if (!latestOffer) return null;
-      return calculateProfits(latestOffer.w, latestOffer.q, negotiationParams);
-  }, [latestOffer, negotiationParams]);
 
   const nashProfitCalcs = useMemo(() => {
-      return calculateProfits(nashSolution.current.wholesale_price, nashSolution.current.order_quantity, negotiationParams);
+      return calculateProfits(nashSolution.wholesale_price, nashSolution.order_quantity, negotiationParams);
   }, [nashSolution, negotiationParams]);
 
 
-  if (isConcluded && latestOffer && profitCalcs) {
+  const sessionRecord = useMemo(() => {
+    return buildSessionRecord({
+      ...sessionInfo,
+      participantId,
+      params: negotiationParams,
+      nash: nashSolution,
+      messages,
+      endReason: sessionEnd?.reason,
+      acceptedBy: sessionEnd?.acceptedBy,
+      endedAt: sessionEnd?.at,
+      finalOffer: latestOffer ?? undefined,
+      finalProfits: profitCalcs ?? undefined,
+      experiment: experiment && schedule ? roundAssignment(experiment, schedule, roundIndex) : undefined,
+      settlement: settlement ?? undefined,
+      llmFailures: llmFailures.length > 0 ? llmFailures : undefined,
+    });
+  }, [messages, sessionEnd, latestOffer, profitCalcs, sessionInfo, participantId, negotiationParams, nashSolution, experiment, schedule, roundIndex, settlement, llmFailures]);
+
+  // Record the session after every message; sessions the user never wrote in are not kept.
+  useEffect(() => {
+    if (sessionRecord.messages.some(m => m.sender === 'user')) {
+      try {
+        saveSession(sessionRecord);
+        setSessionLogError(null);
+      } catch (error) {
+        console.error('Could not write the session log:', error);
+        setSessionLogError(error instanceof Error ? error.message : String(error));
+      }
+    }
+  }, [sessionRecord]);
+
+  const sessionLogWarning = sessionLogError && (
+    <div role="alert" className="fixed top-0 inset-x-0 z-20 bg-red-900/90 text-red-100 text-sm text-center px-4 py-2">
+      {sessionLogError}
+    </div>
+  );
+
+  // Under an experiment the draw is seeded by the experiment, participant and round, so a replication draws the same demand.
+  const handleSettle = () => {
+    if (!latestOffer || settlement) return;
+    const seed = settlementSeed(sessionInfo.sessionId, experiment && schedule ? { seed: experiment.seed, participantId: schedule.participantId, round: roundIndex + 1 } : undefined);
+    setSettlement(settleDeal(latestOffer, negotiationParams, seed, experiment?.conversionRate ?? DEFAULT_CONVERSION_RATE));
+  };
+
+  const handleDownloadTranscript = () => {
+    downloadFile(transcriptFileName(sessionRecord), transcriptToJson(sessionRecord), 'application/json');
+  };
+
+  const analytics = useMemo(() => negotiationAnalytics(sessionRecord), [sessionRecord]);
+
+  const handleDownloadAnalytics = () => {
+    downloadFile(analyticsFileName(sessionRecord), analyticsToCsv(sessionRecord, analytics), 'text/csv');
+  };
+
+  const handleReplay = (session: SessionRecord) => {
+    setIsSessionBrowserOpen(false);
+    setReplaySession(session);
+  };
+
+  const userRole = otherRole(negotiationParams.aiRole);
+
+  if (replaySession) {
+    return <SessionReplay session={replaySession} onClose={() => setReplaySession(null)} />;
+  }
+
+  if (isExperimentComplete && schedule) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen bg-gray-900 text-gray-200 p-4 space-y-6 text-center">
+        <h1 className="text-3xl md:text-4xl font-bold text-green-400">All rounds complete</h1>
+        <p className="text-gray-400">You have finished all {schedule.rounds.length} rounds. Thank you for taking part!</p>
+        <p className="text-xl">Your total earnings: <span className="font-mono font-bold text-green-400">{cumulativeEarnings(roundResults).toFixed(2)}</span></p>
+        <p className="text-lg">Your payment: <span className="font-mono font-bold text-green-400">€{totalPayment(roundResults).toFixed(2)}</span></p>
+        <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 max-w-2xl w-full max-h-96 overflow-y-auto">
+          <RoundResultsTable results={roundResults} />
+        </div>
+        <button
+          onClick={handleNextParticipant}
+          className="bg-green-600 text-white font-bold px-6 py-3 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 transition-colors"
+        >
+          Next Participant
+        </button>
+      </div>
+    );
+  }
+
+  if (sessionEnd) {
     return (
-      <NegotiationSummary
-        finalOffer={latestOffer}
-        params={negotiationParams}
-        finalProfits={profitCalcs}
-        onReset={handleReset}
-      />
+      <>
+        {sessionLogWarning}
+        <NegotiationSummary
+          endReason={sessionEnd.reason}
+          finalOffer={isAgreed ? latestOffer! : undefined}
+          params={negotiationParams}
+          finalProfits={isAgreed ? profitCalcs! : undefined}
+          nashSolution={nashSolution}
+          onReset={handleReset}
+          settlement={settlement}
+          onSettle={handleSettle}
+          requireSettlement={!!schedule}
+          resetLabel={schedule ? (roundIndex + 1 < schedule.rounds.length ? 'Next Round' : 'Finish') : undefined}
+          roundResults={schedule && currentRoundResult ? [...roundResults, currentRoundResult] : undefined}
+          totalRounds={schedule?.rounds.length}
+          onDownloadTranscript={handleDownloadTranscript}
+          analytics={analytics}
+          onDownloadAnalytics={handleDownloadAnalytics}
+        />
+      </>
     );
   }
 
   return (
     <div className="flex h-screen font-sans bg-gray-900 text-gray-200">
+      {sessionLogWarning}
       <main className="flex flex-1 flex-col md:flex-row gap-6 p-4 md:p-6 lg:p-8 max-w-7xl mx-auto w-full">
         <div className="md:w-1/2 lg:w-3/5 flex flex-col gap-4">
             <header className="text-center">
               <h1 className="text-3xl md:text-4xl font-bold text-white">AI Negotiation Trainer</h1>
               <p className="text-gray-400 mt-2">
-                You are the <span className="font-semibold text-red-400">Supplier</span>. Negotiate with the AI <span className="font-semibold text-blue-400">Retailer</span>.
+                You are the <span className={`font-semibold ${ROLE_COLORS[userRole]}`}>{ROLE_LABELS[userRole]}</span>. Negotiate with the AI <span className={`font-semibold ${ROLE_COLORS[negotiationParams.aiRole]}`}>{ROLE_LABELS[negotiationParams.aiRole]}</span>.
                 <br />
-                <span className="text-sm font-mono">(This session: Production Cost c={negotiationParams.c}, Retail Price p={negotiationParams.p})</span>
+                <span className="text-sm font-mono">
+                  (This session: Production Cost c={isVisibleToUser(negotiationParams, 'c') ? negotiationParams.c : 'private'}, Retail Price p={isVisibleToUser(negotiationParams, 'p') ? negotiationParams.p : 'private'})
+                </span>
+                <br />
+                <span className="text-xs">Demand follows {describeDemand(negotiationParams.demand)}.</span>
               </p>
+              {(deadline !== null || maxOffers !== undefined) && (
+                <p className="mt-2 text-sm font-mono">
+                  {deadline !== null && (
+                    <span className={deadline - now <= 60000 ? 'text-red-400 font-bold' : 'text-yellow-400'}>⏱ {formatCountdown(deadline - now)} left</span>
+                  )}
+                  {deadline !== null && maxOffers !== undefined && <span className="text-gray-500"> · </span>}
+                  {maxOffers !== undefined && <span className="text-gray-300">{Math.max(0, maxOffers - userOfferCount)} of {maxOffers} offers left</span>}
+                </p>
+              )}
               <div className="flex items-center justify-center mt-4 space-x-2 text-sm">
+                  <label htmlFor="role-select" className="text-gray-400">You play</label>
+                  <select
+                    id="role-select"
+                    value={userRole}
+                    onChange={(e) => handleSettingsChange({ aiRole: otherRole(e.target.value as Role) })}
+                    disabled={isLoading || schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 mr-4"
+                  >
+                    {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                      <option key={role} value={role}>{label}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="demand-select" className="text-gray-400">Demand</label>
+                  <select
+                    id="demand-select"
+                    value={sessionSettings.demandPreset}
+                    onChange={(e) => handleSettingsChange({ demandPreset: e.target.value })}
+                    disabled={isLoading || schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 mr-4"
+                  >
+                    {Object.entries(DEMAND_PRESETS).map(([key, preset]) => (
+                      <option key={key} value={key}>{preset.label}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="power-select" className="text-gray-400">Retailer power</label>
+                  <select
+                    id="power-select"
+                    value={sessionSettings.retailerWeight}
+                    onChange={(e) => handleSettingsChange({ retailerWeight: parseFloat(e.target.value) })}
+                    disabled={isLoading || schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 mr-4"
+                  >
+                    {RETAILER_WEIGHTS.map(weight => (
+                      <option key={weight} value={weight}>{(weight * 100).toFixed(0)}%</option>
+                    ))}
+                  </select>
+                  <label htmlFor="contract-select" className="text-gray-400">Contract</label>
+                  <select
+                    id="contract-select"
+                    value={sessionSettings.contractType}
+                    onChange={(e) => handleSettingsChange({ contractType: e.target.value as ContractType })}
+                    disabled={isLoading || schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 mr-4"
+                  >
+                    {Object.entries(CONTRACT_PRESETS).map(([key, preset]) => (
+                      <option key={key} value={key}>{preset.label}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="information-select" className="text-gray-400">Information</label>
+                  <select
+                    id="information-select"
+                    value={sessionSettings.information}
+                    onChange={(e) => handleSettingsChange({ information: e.target.value as InformationMode })}
+                    disabled={isLoading || schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 mr-4"
+                  >
+                    {Object.entries(INFORMATION_LABELS).map(([mode, label]) => (
+                      <option key={mode} value={mode}>{label}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="limits-select" className="text-gray-400">Limits</label>
+                  <select
+                    id="limits-select"
+                    value={sessionSettings.limitsPreset}
+                    onChange={(e) => handleSettingsChange({ limitsPreset: e.target.value })}
+                    disabled={isLoading || schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 mr-4"
+                  >
+                    {Object.entries(LIMIT_PRESETS).map(([key, preset]) => (
+                      <option key={key} value={key}>{preset.label}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="strategy-select" className="text-gray-400">Strategy</label>
+                  <select
+                    id="strategy-select"
+                    value={sessionSettings.strategy}
+                    onChange={(e) => handleSettingsChange({ strategy: e.target.value as ConcessionStrategy })}
+                    disabled={isLoading || schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 mr-4"
+                  >
+                    {Object.entries(STRATEGY_LABELS).map(([strategy, label]) => (
+                      <option key={strategy} value={strategy}>{label}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="persona-select" className="text-gray-400">Persona</label>
+                  <select
+                    id="persona-select"
+                    value={sessionSettings.personaPreset}
+                    onChange={(e) => handleSettingsChange({ personaPreset: e.target.value })}
+                    disabled={isLoading || schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 mr-4"
+                  >
+                    {Object.entries(PERSONA_PRESETS).map(([key, preset]) => (
+                      <option key={key} value={key}>{preset.label}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="fairness-select" className="text-gray-400">Fairness</label>
+                  <select
+                    id="fairness-select"
+                    value={sessionSettings.aversionPreset}
+                    onChange={(e) => handleSettingsChange({ aversionPreset: e.target.value })}
+                    disabled={isLoading || schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 mr-4"
+                  >
+                    {Object.entries(INEQUITY_AVERSION_PRESETS).map(([key, preset]) => (
+                      <option key={key} value={key}>{preset.label}</option>
+                    ))}
+                  </select>
                   <label htmlFor="debug-toggle" className="text-gray-400">Debug Mode</label>
                   <input 
                     type="checkbox" 
@@ -214,6 +678,45 @@ export default function App() {
                               relative inline-block"
                   />
               </div>
+              <div className="flex items-center justify-center mt-2 space-x-2 text-sm">
+                  <label htmlFor="participant-input" className="text-gray-400">Participant ID</label>
+                  <input
+                    id="participant-input"
+                    type="text"
+                    value={participantId}
+                    onChange={(e) => handleParticipantChange(e.target.value)}
+                    placeholder={experiment ? 'required' : 'optional'}
+                    disabled={schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 w-32 mr-4 disabled:opacity-50"
+                  />
+                  {experiment && !schedule && (
+                    <button
+                      onClick={handleStartExperiment}
+                      disabled={!participantId.trim() || isLoading}
+                      className="bg-green-600 rounded-md px-3 py-1 text-white font-semibold hover:bg-green-700 disabled:bg-gray-700 disabled:cursor-not-allowed mr-4"
+                    >
+                      Start Experiment
+                    </button>
+                  )}
+                  {experiment && schedule && (
+                    <span className="text-gray-400 mr-4">
+                      {experiment.id} · {schedule.treatment.label ?? schedule.treatment.id} · Round {roundIndex + 1} of {schedule.rounds.length}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => setIsSessionBrowserOpen(true)}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-gray-200 hover:bg-gray-600"
+                  >
+                    Recorded Sessions
+                  </button>
+                  <button
+                    onClick={() => setIsDesignerOpen(true)}
+                    disabled={schedule !== null}
+                    className="bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-gray-200 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Experiment Design
+                  </button>
+              </div>
             </header>
             <div className="flex-1 flex flex-col min-h-0">
                <ChatWindow
@@ -222,25 +725,45 @@ export default function App() {
                   setUserInput={setUserInput}
                   onSendMessage={handleSendMessage}
                   isLoading={isLoading}
+                  streamingText={streamingText}
+                  onAbort={handleAbort}
+                  replyError={failedReply && describeLlmError(failedReply.error)}
+                  onRetryReply={() => handleRetryReply()}
+                  onOfflineReply={() => handleRetryReply(true)}
                   isConcluded={isConcluded}
                   offerW={offerW}
                   setOfferW={setOfferW}
                   offerQ={offerQ}
                   setOfferQ={setOfferQ}
+                  contract={negotiationParams.contract}
+                  offerTerms={offerTerms}
+                  setOfferTerm={setOfferTerm}
                   onSendOffer={handleSendOffer}
                   onAcceptOffer={handleAcceptOffer}
-                  latestAiOffer={latestAiOffer}
+                  onWalkAway={handleWalkAway}
+                  offerLimit={isOfferLimitReached ? maxOffers : undefined}
+                  latestAiOffer={openAiOffer}
                 />
             </div>
              {isDebugMode && <DebugPanel prompt={lastPrompt} />}
+             {isDesignerOpen && (
+               <ExperimentDesigner
+                 active={experiment}
+                 currentParams={negotiationParams}
+                 onActivate={handleActivateExperiment}
+                 onClose={() => setIsDesignerOpen(false)}
+               />
+             )}
+             {isSessionBrowserOpen && <SessionBrowser onClose={() => setIsSessionBrowserOpen(false)} onReplay={handleReplay} />}
         </div>
         <div className="md:w-1/2 lg:w-2/5 flex flex-col">
           <NegotiationDashboard
             params={negotiationParams}
             latestOffer={latestOffer}
             profitCalcs={profitCalcs}
-            nashSolution={nashSolution.current}
+            nashSolution={nashSolution}
             nashProfitCalcs={nashProfitCalcs}
+            messages={messages}
           />
         </div>
       </main>
@@ -0,0 +1,109 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { NegotiationAnalytics, SideAnalytics } from '../services/analytics';
+import { ROLE_LABELS } from '../constants';
+
+interface AnalyticsPanelProps {
+    analytics: NegotiationAnalytics;
+}
+
+const CHART_COLORS = { supplier: '#F87171', retailer: '#60A5FA' };
+const TOOLTIP_STYLE = { backgroundColor: '#1F2937', border: '1px solid #374151', borderRadius: '0.5rem' };
+
+const formatNumber = (value: number | undefined, digits = 2) => (value === undefined ? '–' : value.toFixed(digits));
+const formatPercent = (value: number | undefined) => (value === undefined ? '–' : `${(value * 100).toFixed(0)}%`);
+
+const Metric: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div>
+        <span className="text-xs text-gray-400">{label}</span>
+        <p className="font-mono text-gray-200">{value}</p>
+    </div>
+);
+
+export const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ analytics }) => {
+    const { sides, steps } = analytics;
+    const sideLabel = (side: 'user' | 'ai') => `${ROLE_LABELS[sides[side].role]} (${side === 'user' ? 'You' : 'AI'})`;
+
+    // One row per offer, with the sender's own profit in its side's column so each side's curve skips the other's offers.
+    const curveData = steps.map(step => ({
+        step: step.step,
+        user: step.sender === 'user' ? step.ownProfit : undefined,
+        ai: step.sender === 'ai' ? step.ownProfit : undefined,
+        nashDistance: step.nashDistance,
+        efficiency: step.efficiency * 100,
+    }));
+
+    const sideRows: [string, (side: SideAnalytics) => string][] = [
+        ['Offers', side => String(side.offers)],
+        ['First offer (own profit)', side => formatNumber(side.firstOfferProfit)],
+        ['Concession, first to last offer', side => formatNumber(side.concession)],
+        ['Concession per offer', side => formatNumber(side.concessionRate)],
+        ['Anchoring (1 = own first offer)', side => formatNumber(side.anchoring)],
+        ['Mean time per turn (s)', side => formatNumber(side.meanTurnSeconds, 1)],
+    ];
+
+    return (
+        <div className="bg-gray-900/50 rounded-lg p-4 space-y-4 text-left">
+            <h3 className="text-sm font-semibold text-gray-400">Negotiation Analytics</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <Metric label="Channel efficiency" value={formatPercent(analytics.efficiency)} />
+                <Metric label="Your share of the profit" value={formatPercent(analytics.userShare)} />
+                <Metric label="Distance from Nash" value={formatNumber(analytics.nashDistance)} />
+                <Metric label="First offer by" value={analytics.firstMover ? sideLabel(analytics.firstMover) : '–'} />
+            </div>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-gray-400 text-xs">
+                        <th className="text-left font-normal py-1"></th>
+                        <th className="text-right font-normal py-1">{sideLabel('user')}</th>
+                        <th className="text-right font-normal py-1">{sideLabel('ai')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {sideRows.map(([label, value]) => (
+                        <tr key={label} className="border-t border-gray-700">
+                            <td className="py-1 text-gray-400">{label}</td>
+                            <td className="py-1 text-right font-mono">{value(sides.user)}</td>
+                            <td className="py-1 text-right font-mono">{value(sides.ai)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {steps.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="h-56">
+                        <h4 className="text-xs font-semibold text-gray-400 mb-2">Concession Curves (own expected profit per offer)</h4>
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={curveData} margin={{ top: 5, right: 10, left: -10, bottom: 15 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                                <XAxis dataKey="step" stroke="#9CA3AF" tick={{ fontSize: 11 }} label={{ value: 'Offer', position: 'insideBottom', offset: -5, fill: '#9CA3AF', fontSize: 11 }} />
+                                <YAxis stroke="#9CA3AF" tick={{ fontSize: 11 }} />
+                                <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => value.toFixed(2)} />
+                                <Legend wrapperStyle={{ fontSize: '12px' }} />
+                                <Line dataKey="user" name={sideLabel('user')} stroke={CHART_COLORS[sides.user.role]} strokeWidth={2} connectNulls isAnimationActive={false} />
+                                <Line dataKey="ai" name={sideLabel('ai')} stroke={CHART_COLORS[sides.ai.role]} strokeWidth={2} connectNulls isAnimationActive={false} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <div className="h-56">
+                        <h4 className="text-xs font-semibold text-gray-400 mb-2">Distance from Nash and Efficiency per Offer</h4>
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={curveData} margin={{ top: 5, right: 0, left: -10, bottom: 15 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                                <XAxis dataKey="step" stroke="#9CA3AF" tick={{ fontSize: 11 }} label={{ value: 'Offer', position: 'insideBottom', offset: -5, fill: '#9CA3AF', fontSize: 11 }} />
+                                <YAxis yAxisId="distance" stroke="#9CA3AF" tick={{ fontSize: 11 }} />
+                                <YAxis yAxisId="efficiency" orientation="right" domain={[0, 100]} unit="%" stroke="#9CA3AF" tick={{ fontSize: 11 }} />
+                                <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => value.toFixed(2)} />
+                                <Legend wrapperStyle={{ fontSize: '12px' }} />
+                                <Line yAxisId="distance" dataKey="nashDistance" name="Distance from Nash" stroke="#FBBF24" strokeWidth={2} isAnimationActive={false} />
+                                <Line yAxisId="efficiency" dataKey="efficiency" name="Efficiency (%)" stroke="#34D399" strokeWidth={2} strokeDasharray="4 4" isAnimationActive={false} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-xs text-gray-500">No full offers were made, so there are no concession curves.</p>
+            )}
+        </div>
+    );
+};
@@ -1,5 +1,6 @@
 import React, { useEffect, useRef } from 'react';
-import type { Message, Offer } from '../types';
+import type { ContractTerms, Message, Offer, OfferStatus } from '../types';
+import { CONTRACT_TERM_FIELDS, CONTRACT_TERM_INPUTS, contractTermValues, mergeContractTerms, parseContractTermInputs, sameContractTerms, type ContractTermField } from '../services/contracts';
 
 interface ChatWindowProps {
   messages: Message[];
@@ -7,25 +8,49 @@ interface ChatWindowProps {
   setUserInput: (value: string) => void;
   onSendMessage: () => void;
   isLoading: boolean;
+  streamingText?: string | null; // The AI's reply as it streams in, shown in place of the typing indicator
+  onAbort?: () => void; // Stops the AI's reply in flight
+  replyError?: string | null; // Why the AI's last reply failed, shown with the retry buttons
+  onRetryReply?: () => void;
+  onOfflineReply?: () => void; // Retries with the template phrasing of the AI's move instead of the model
   isConcluded: boolean;
   offerW: string;
   setOfferW: (value: string) => void;
   offerQ: string;
   setOfferQ: (value: string) => void;
+  contract: ContractTerms;
+  offerTerms: Partial<Record<ContractTermField, string>>;
+  setOfferTerm: (field: ContractTermField, value: string) => void;
   onSendOffer: () => void;
   onAcceptOffer: () => void;
-  latestAiOffer: Offer | null;
+  onWalkAway?: () => void;
+  offerLimit?: number; // Set once the user has made all the offers they may: only accepting or walking away is left
+  latestAiOffer: Offer | null; // The AI's open offer, the only one the user can accept
+  readOnly?: boolean; // Replay: show the transcript without the message and offer inputs
 }
 
-const OfferPill: React.FC<{ w: number, q: number }> = ({ w, q }) => (
+const OFFER_STATUS_STYLES: Record<OfferStatus, { label: string; className: string }> = {
+    proposed: { label: 'Proposed', className: 'bg-blue-900/60 text-blue-300' },
+    countered: { label: 'Countered', className: 'bg-yellow-900/60 text-yellow-300' },
+    accepted: { label: 'Accepted', className: 'bg-green-900/60 text-green-300' },
+    rejected: { label: 'Rejected', className: 'bg-red-900/60 text-red-300' },
+};
+
+const OfferPill: React.FC<{ offer: Offer; status?: OfferStatus }> = ({ offer, status }) => (
     <div className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 mt-2 inline-block">
+        {status && <span className={`text-xs font-semibold rounded px-1.5 py-0.5 mr-2 ${OFFER_STATUS_STYLES[status].className}`}>{OFFER_STATUS_STYLES[status].label}</span>}
         <span className="font-semibold text-gray-200">Offer:</span>
         <span className="ml-3">
-            <span className="text-blue-400">w</span> = <span className="font-mono">{w.toFixed(2)}</span>
+            <span className="text-blue-400">w</span> = <span className="font-mono">{offer.w.toFixed(2)}</span>
         </span>
         <span className="ml-4">
-            <span className="text-red-400">q</span> = <span className="font-mono">{q.toFixed(0)}</span>
+            <span className="text-red-400">q</span> = <span className="font-mono">{offer.q.toFixed(0)}</span>
         </span>
+        {Object.entries(contractTermValues(offer)).map(([field, value]) => (
+            <span key={field} className="ml-4">
+                <span className="text-gray-400">{CONTRACT_TERM_INPUTS[field as ContractTermField].label}</span> = <span className="font-mono">{field === 'threshold' ? value.toFixed(0) : value.toFixed(2)}</span>
+            </span>
+        ))}
     </div>
 );
 
@@ -36,28 +61,43 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
   setUserInput,
   onSendMessage,
   isLoading,
+  streamingText,
+  onAbort,
+  replyError,
+  onRetryReply,
+  onOfflineReply,
   isConcluded,
   offerW,
   setOfferW,
   offerQ,
   setOfferQ,
+  contract,
+  offerTerms,
+  setOfferTerm,
   onSendOffer,
   onAcceptOffer,
-  latestAiOffer
+  onWalkAway,
+  offerLimit,
+  latestAiOffer,
+  readOnly = false
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingText, replyError]);
+
+  const isOfferLimitReached = offerLimit !== undefined;
 
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && !isLoading) {
+    if (e.key === 'Enter' && !isLoading && !isOfferLimitReached) {
       onSendMessage();
     }
   };
   
-  const canAccept = latestAiOffer && parseFloat(offerW) === latestAiOffer.w && parseInt(offerQ, 10) === latestAiOffer.q;
+  const formTerms = parseContractTermInputs(contract.type, offerTerms);
+  const canAccept = latestAiOffer && parseFloat(offerW) === latestAiOffer.w && parseInt(offerQ, 10) === latestAiOffer.q
+    && formTerms !== null && sameContractTerms(mergeContractTerms(latestAiOffer, formTerms), latestAiOffer);
 
   return (
     <div className="bg-gray-800 border border-gray-700 rounded-lg flex flex-col h-full shadow-lg">
@@ -66,31 +106,63 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
           <div key={msg.id} className={`flex mb-4 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className={`max-w-xs md:max-w-md lg:max-w-lg px-4 py-2 rounded-xl ${msg.sender === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-gray-700 text-gray-200 rounded-bl-none'}`}>
               <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
-              {msg.offer && <OfferPill w={msg.offer.w} q={msg.offer.q} />}
+              {msg.offer && <OfferPill offer={msg.offer} status={msg.offerStatus} />}
             </div>
           </div>
         ))}
-        {isLoading && (
+        {isLoading && !readOnly && (
           <div className="flex justify-start mb-4">
-            <div className="bg-gray-700 text-gray-200 rounded-xl rounded-bl-none px-4 py-2">
-              <div className="flex items-center space-x-1">
-                 <span className="text-sm">Typing</span>
-                <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-pulse delay-75"></div>
-                <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-pulse delay-150"></div>
-                <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-pulse delay-300"></div>
-              </div>
+            <div className="max-w-xs md:max-w-md lg:max-w-lg bg-gray-700 text-gray-200 rounded-xl rounded-bl-none px-4 py-2">
+              {streamingText ? (
+                <p className="text-sm whitespace-pre-wrap">{streamingText}</p>
+              ) : (
+                <div className="flex items-center space-x-1">
+                   <span className="text-sm">Typing</span>
+                  <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-pulse delay-75"></div>
+                  <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-pulse delay-150"></div>
+                  <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-pulse delay-300"></div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+        {replyError && !isLoading && !isConcluded && !readOnly && (
+          <div className="mb-4 bg-red-900/40 border border-red-700 rounded-lg px-4 py-3 text-sm text-red-200">
+            <p>{replyError} Your last message has not been answered.</p>
+            <div className="flex space-x-2 mt-2">
+              <button
+                onClick={onRetryReply}
+                className="bg-red-700 text-white font-semibold px-3 py-1 rounded-lg hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors"
+              >
+                Retry
+              </button>
+              <button
+                onClick={onOfflineReply}
+                className="bg-gray-600 text-white font-semibold px-3 py-1 rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors"
+              >
+                Reply without the model
+              </button>
             </div>
           </div>
         )}
         <div ref={messagesEndRef} />
       </div>
        <div className="p-4 border-t border-gray-700">
-        {isConcluded ? (
+        {readOnly ? (
+            <div className="text-center text-gray-400 font-semibold p-2 bg-gray-900/50 rounded-md">
+                Read-only replay
+            </div>
+        ) : isConcluded ? (
             <div className="text-center text-green-400 font-semibold p-2 bg-green-900/50 rounded-md">
                 Negotiation Concluded
             </div>
         ) : (
             <div className="space-y-3">
+              {isOfferLimitReached && (
+                <p className="text-sm text-yellow-400 text-center">
+                  You have made all {offerLimit} offers. Accept the last offer or walk away.
+                </p>
+              )}
               <div className="flex space-x-2">
                 <input
                   type="text"
@@ -99,15 +171,24 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                   value={userInput}
                   onChange={(e) => setUserInput(e.target.value)}
                   onKeyPress={handleKeyPress}
-                  disabled={isLoading || isConcluded}
+                  disabled={isLoading || isConcluded || isOfferLimitReached}
                 />
-                <button
-                  onClick={onSendMessage}
-                  disabled={isLoading || !userInput.trim() || isConcluded}
-                  className="bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-400 disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors"
-                >
-                  Send
-                </button>
+                {isLoading && onAbort ? (
+                  <button
+                    onClick={onAbort}
+                    className="bg-red-700 text-white font-semibold px-4 py-2 rounded-lg hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors"
+                  >
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    onClick={onSendMessage}
+                    disabled={isLoading || !userInput.trim() || isConcluded || isOfferLimitReached}
+                    className="bg-gray-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-400 disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Send
+                  </button>
+                )}
               </div>
 
               <div className="flex items-center space-x-2">
@@ -139,6 +220,22 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                         disabled={isLoading || isConcluded}
                     />
                 </div>
+                {CONTRACT_TERM_FIELDS[contract.type].map(field => (
+                  <div key={field} className="flex-1 flex items-center space-x-2">
+                      <label htmlFor={`${field}-input`} className="font-semibold text-gray-400 whitespace-nowrap">{CONTRACT_TERM_INPUTS[field].label}:</label>
+                      <input
+                          id={`${field}-input`}
+                          type="number"
+                          step={CONTRACT_TERM_INPUTS[field].step}
+                          min="0"
+                          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-gray-400 text-gray-200 placeholder-gray-500 disabled:opacity-50 font-mono"
+                          placeholder={CONTRACT_TERM_INPUTS[field].placeholder}
+                          value={offerTerms[field] ?? ''}
+                          onChange={(e) => setOfferTerm(field, e.target.value)}
+                          disabled={isLoading || isConcluded}
+                      />
+                  </div>
+                ))}
                  {canAccept ? (
                     <button
                         onClick={onAcceptOffer}
@@ -150,12 +247,21 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                 ) : (
                     <button
                         onClick={onSendOffer}
-                        disabled={isLoading || !offerW || !offerQ}
+                        disabled={isLoading || !offerW || !offerQ || isOfferLimitReached}
                         className="flex-shrink-0 bg-blue-600 text-white font-semibold px-4 py-2 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
                     >
                         Send Offer
                     </button>
                 )}
+                {onWalkAway && (
+                    <button
+                        onClick={onWalkAway}
+                        disabled={isLoading}
+                        className="flex-shrink-0 bg-red-700 text-white font-semibold px-4 py-2 rounded-lg hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Walk Away
+                    </button>
+                )}
               </div>
             </div>
         )}
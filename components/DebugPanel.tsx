@@ -0,0 +1,20 @@
+import React, { useState } from 'react';
+
+export const DebugPanel: React.FC<{ prompt: string, title?: string }> = ({ prompt, title = 'Last AI Prompt' }) => {
+  const [isOpen, setIsOpen] = useState(true);
+
+  if (!prompt) return null;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg mt-4">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full text-left p-2 font-semibold text-gray-400">
+        {isOpen ? '▼' : '►'} {title}
+      </button>
+      {isOpen && (
+        <pre className="text-xs p-4 bg-black/20 text-gray-300 whitespace-pre-wrap font-mono overflow-x-auto">
+          {prompt}
+        </pre>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import type { ExperimentConfig, NegotiationLimits, NegotiationParams, Treatment } from '../types';
+import { EXAMPLE_EXPERIMENT, parseExperimentConfig } from '../services/experiment';
+import { describeContractTerms } from '../services/contracts';
+import { describeDemand } from '../services/demandDistribution';
+import { DEFAULT_STRATEGY } from '../services/concessionStrategy';
+import { CONTRACT_PRESETS, COST_VALUES, DEFAULT_CONVERSION_RATE, PRICE_VALUES, ROLE_LABELS, STRATEGY_LABELS, SYMMETRIC_BARGAINING } from '../constants';
+
+interface ExperimentDesignerProps {
+  active: ExperimentConfig | null;
+  currentParams: NegotiationParams; // The free-play settings, offered as a starting point for a new treatment
+  onActivate: (config: ExperimentConfig | null) => void;
+  onClose: () => void;
+}
+
+const toJson = (config: ExperimentConfig) => JSON.stringify(config, null, 2);
+
+const describeLimits = (limits: NegotiationLimits) => [
+  limits.timeLimitSeconds && `${limits.timeLimitSeconds} s`,
+  limits.maxOffers && `${limits.maxOffers} offers`,
+  limits.aiWalkAwayAfter && `AI walks away after ${limits.aiWalkAwayAfter} unacceptable offers`,
+].filter(Boolean).join(', ');
+
+export const ExperimentDesigner: React.FC<ExperimentDesignerProps> = ({ active, currentParams, onActivate, onClose }) => {
+  const [text, setText] = useState<string>(() => toJson(active ?? EXAMPLE_EXPERIMENT));
+
+  const parsed = useMemo((): { config?: ExperimentConfig; error?: string } => {
+    try {
+      return { config: parseExperimentConfig(text) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [text]);
+
+  const handleLoadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setText(await file.text());
+  };
+
+  const handleAddCurrentSettings = () => {
+    const config = parsed.config ?? { ...EXAMPLE_EXPERIMENT, treatments: [] };
+    const treatment: Treatment = {
+      id: `treatment-${config.treatments.length + 1}`,
+      aiRole: currentParams.aiRole,
+      information: currentParams.information,
+      contract: currentParams.contract,
+      demand: currentParams.demand,
+      retailerWeight: currentParams.bargaining?.retailerWeight ?? SYMMETRIC_BARGAINING.retailerWeight,
+      limits: currentParams.limits,
+      costValues: COST_VALUES,
+      priceValues: PRICE_VALUES,
+      rounds: 10,
+    };
+    setText(toJson({ ...config, treatments: [...config.treatments, treatment] }));
+  };
+
+  const buttonClass = 'bg-gray-600 text-white font-semibold px-3 py-1.5 rounded-lg hover:bg-gray-500 disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-10">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-2xl max-w-5xl w-full max-h-full flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold text-white">Experiment Design {active && <span className="text-sm text-green-400 font-normal ml-2">active: {active.id}</span>}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-200 text-xl leading-none">×</button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="flex flex-col">
+            <p className="text-xs text-gray-400 mb-2">
+              Each participant is assigned a treatment in balanced blocks and plays its rounds with c and p drawn from the grids, all seeded by <span className="font-mono">seed</span>.
+              Contracts, demand and limits can be given as preset keys (e.g. <span className="font-mono">"buyback"</span>, <span className="font-mono">"normal"</span>, <span className="font-mono">"strict"</span>).
+            </p>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              spellCheck={false}
+              className="flex-1 min-h-[24rem] bg-gray-900 border border-gray-600 rounded-md p-2 text-xs font-mono text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="text-sm">
+            {parsed.error ? (
+              <p className="text-red-400">{parsed.error}</p>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-gray-400">
+                  Experiment <span className="font-mono text-gray-200">{parsed.config!.id}</span>, seed <span className="font-mono text-gray-200">{parsed.config!.seed}</span>,
+                  paying €<span className="font-mono text-gray-200">{parsed.config!.conversionRate ?? DEFAULT_CONVERSION_RATE}</span> per unit of profit
+                </p>
+                {parsed.config!.treatments.map(t => (
+                  <div key={t.id} className="bg-gray-900/50 rounded-md p-3 space-y-1">
+                    <p className="font-semibold text-gray-200">{t.label ?? t.id} <span className="text-gray-500 font-mono text-xs">({t.id})</span></p>
+                    <p className="text-gray-400 text-xs">
+                      AI plays the {ROLE_LABELS[t.aiRole]}, {t.information} information, {t.rounds} round{t.rounds === 1 ? '' : 's'}, retailer power {(t.retailerWeight * 100).toFixed(0)}%.
+                    </p>
+                    <p className="text-gray-400 text-xs">
+                      {CONTRACT_PRESETS[t.contract.type].label} contract{describeContractTerms(t.contract) && `, with ${describeContractTerms(t.contract)}`}; demand follows {describeDemand(t.demand)}.
+                    </p>
+                    <p className="text-gray-400 text-xs font-mono">c ∈ {'{'}{t.costValues.join(', ')}{'}'}, p ∈ {'{'}{t.priceValues.join(', ')}{'}'}</p>
+                    {t.limits && describeLimits(t.limits) && <p className="text-gray-400 text-xs">Limits: {describeLimits(t.limits)}</p>}
+                    <p className="text-gray-400 text-xs">
+                      Strategy: {STRATEGY_LABELS[t.strategy ?? DEFAULT_STRATEGY]}{t.inequityAversion && `, inequity averse (envy ${t.inequityAversion.envy}, guilt ${t.inequityAversion.guilt})`}
+                    </p>
+                    {t.persona && <p className="text-gray-400 text-xs italic">Persona: {t.persona}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 p-4 border-t border-gray-700">
+          <label className={`${buttonClass} cursor-pointer`}>
+            Load file
+            <input type="file" accept=".json,application/json" onChange={handleLoadFile} className="hidden" />
+          </label>
+          <button onClick={() => setText(toJson(EXAMPLE_EXPERIMENT))} className={buttonClass}>Use example</button>
+          <button onClick={handleAddCurrentSettings} className={buttonClass}>Add current settings as treatment</button>
+          <div className="ml-auto flex gap-2">
+            {active && <button onClick={() => onActivate(null)} className={buttonClass}>Stop experiment</button>}
+            <button
+              onClick={() => parsed.config && onActivate(parsed.config)}
+              disabled={!parsed.config}
+              className="bg-green-600 text-white font-semibold px-3 py-1.5 rounded-lg hover:bg-green-700 disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors text-sm"
+            >
+              Activate
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, PieChart, Pie, Cell } from 'recharts';
-import type { NegotiationParams, Offer, ProfitCalcs, NashSolution } from '../types';
-import { calculateProfits } from '../services/negotiationService';
+import type { Message, NegotiationParams, Offer, ProfitCalcs, NashSolution } from '../types';
+import { calculateOfferProfits, coversUnitCost, profitVsDemandData } from '../services/negotiationService';
+import { isVisibleToUser } from '../services/beliefs';
+import { CONTRACT_TERM_FIELDS, CONTRACT_TERM_INPUTS, contractTermInputs, describeContractTerms, formatOfferTerms, mergeContractTerms, parseContractTermInputs, type ContractTermField } from '../services/contracts';
+import { OfferSpaceCharts } from './OfferSpaceCharts';
+import { CONTRACT_PRESETS, ROLE_LABELS, otherRole } from '../constants';
 
 interface DashboardProps {
   params: NegotiationParams;
@@ -9,6 +13,7 @@ interface DashboardProps {
   profitCalcs: ProfitCalcs | null;
   nashSolution: NashSolution;
   nashProfitCalcs: ProfitCalcs;
+  messages: Message[]; // The chat, for the offer trajectory
 }
 
 const InfoCard: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
@@ -25,63 +30,65 @@ const ProfitDisplay: React.FC<{ title: string, value: number, color: string }> =
     </div>
 );
 
-export const NegotiationDashboard: React.FC<DashboardProps> = ({ params, latestOffer, nashSolution }) => {
+export const NegotiationDashboard: React.FC<DashboardProps> = ({ params, latestOffer, nashSolution, messages }) => {
+  // In the private-information mode the AI's parameter, its profit and the Nash benchmark stay hidden until the deal closes.
+  const isPrivate = params.information === 'private';
+  const knowsCost = isVisibleToUser(params, 'c');
+  const userRole = otherRole(params.aiRole);
+  const showsProfit = (role: typeof userRole) => !isPrivate || role === userRole;
 
   const [manualW, setManualW] = useState('');
   const [manualQ, setManualQ] = useState('');
+  const [manualTerms, setManualTerms] = useState<Partial<Record<ContractTermField, string>>>({});
+
+  const loadIntoSandbox = (offer: Offer) => {
+    setManualW(offer.w.toFixed(2));
+    setManualQ(offer.q.toFixed(0));
+    setManualTerms(contractTermInputs(offer));
+  };
 
   useEffect(() => {
     if (latestOffer) {
-      setManualW(latestOffer.w.toFixed(2));
-      setManualQ(latestOffer.q.toFixed(0));
+      loadIntoSandbox(latestOffer);
     } else {
       setManualW('');
       setManualQ('');
+      setManualTerms(contractTermInputs(params.contract));
     }
-  }, [latestOffer]);
+  }, [latestOffer, params.contract]);
   
-  const analysisOffer = useMemo(() => {
+  const analysisOffer = useMemo((): Offer | null => {
     const w = parseFloat(manualW);
     const q = parseInt(manualQ, 10);
-    if (!isNaN(w) && w >= params.c && !isNaN(q) && q > 0) {
-      return { w, q };
+    const termValues = parseContractTermInputs(params.contract.type, manualTerms);
+    if (!isNaN(w) && !isNaN(q) && q > 0 && termValues) {
+      const terms = mergeContractTerms(params.contract, termValues);
+      const isValid = knowsCost ? coversUnitCost(w, q, params, terms) : w > 0;
+      return isValid ? { ...terms, w, q } : null;
     }
     return null;
-  }, [manualW, manualQ, params.c]);
+  }, [manualW, manualQ, manualTerms, params, knowsCost]);
 
   const analysisProfitCalcs = useMemo(() => {
     if (analysisOffer) {
-      return calculateProfits(analysisOffer.w, analysisOffer.q, params);
+      return calculateOfferProfits(analysisOffer, params);
     }
     return null;
   }, [analysisOffer, params]);
 
 
-  const generateChartData = (w: number, q: number, c: number, p: number) => {
-    const data = [];
-    for (let d = 0; d <= 100; d += 5) {
-      const sales = Math.min(d, q);
-      const supplierProfit = w * sales - c * q;
-      const retailerProfit = (p - w) * sales;
-      data.push({
-        demand: d,
-        supplierProfit: supplierProfit,
-        retailerProfit: retailerProfit,
-      });
-    }
-    return data;
-  };
-
-  const chartData = analysisOffer ? generateChartData(analysisOffer.w, analysisOffer.q, params.c, params.p) : [];
+  const chartData = analysisOffer ? profitVsDemandData(analysisOffer, params) : [];
 
   const chartTitle = analysisOffer 
-    ? `Profit vs Demand (w=${analysisOffer.w.toFixed(2)}, q=${analysisOffer.q.toFixed(0)})` 
+    ? `Profit vs Demand (${formatOfferTerms(analysisOffer)})` 
     : 'Profit vs Demand (Enter an offer)';
+  const nashContractTerms = describeContractTerms(params.contract);
+  const profitTitle = (role: typeof userRole) => `${ROLE_LABELS[role]} Profit${role === userRole ? ' (You)' : ''}`;
   
-  const expectedSupplierProfit = analysisProfitCalcs?.supplier_profit;
-  const expectedRetailerProfit = analysisProfitCalcs?.retailer_profit;
+  const expectedSupplierProfit = showsProfit('supplier') ? analysisProfitCalcs?.supplier_profit : undefined;
+  const expectedRetailerProfit = showsProfit('retailer') ? analysisProfitCalcs?.retailer_profit : undefined;
   
-  const profitSplitData = (analysisProfitCalcs && analysisProfitCalcs.supplier_profit >= 0 && analysisProfitCalcs.retailer_profit >= 0)
+  const profitSplitData = (!isPrivate && analysisProfitCalcs && analysisProfitCalcs.supplier_profit >= 0 && analysisProfitCalcs.retailer_profit >= 0)
     ? [
         { name: 'Supplier', value: analysisProfitCalcs.supplier_profit },
         { name: 'Retailer', value: analysisProfitCalcs.retailer_profit },
@@ -91,6 +98,9 @@ export const NegotiationDashboard: React.FC<DashboardProps> = ({ params, latestO
   return (
     <div className="space-y-4 h-full flex flex-col">
         <InfoCard title="Nash Bargaining Solution">
+            {isPrivate ? (
+                <p className="text-sm text-gray-500 text-center py-1">Hidden until the deal closes.</p>
+            ) : (
             <div className="text-base flex items-center justify-around py-1">
                 <span>
                     w: <span className="font-mono text-blue-400 font-semibold">{nashSolution.wholesale_price.toFixed(2)}</span>
@@ -99,6 +109,10 @@ export const NegotiationDashboard: React.FC<DashboardProps> = ({ params, latestO
                     q: <span className="font-mono text-red-400 font-semibold">{nashSolution.order_quantity.toFixed(0)}</span>
                 </span>
             </div>
+            )}
+            <p className="text-xs text-gray-500 text-center">
+                {CONTRACT_PRESETS[params.contract.type].label} contract{nashContractTerms && `, with ${nashContractTerms}`}
+            </p>
         </InfoCard>
 
        <InfoCard title="Offer Sandbox & Analysis">
@@ -108,21 +122,27 @@ export const NegotiationDashboard: React.FC<DashboardProps> = ({ params, latestO
                         <p className="text-xs text-gray-400">Enter an offer to see a real-time profit analysis. This automatically syncs with the latest offer in the chat.</p>
                         <div className="flex items-center gap-2">
                             <label htmlFor="w-manual" className="font-semibold text-blue-400 w-4">w:</label>
-                            <input id="w-manual" type="number" min={params.c} value={manualW} onChange={(e) => setManualW(e.target.value)} placeholder={`e.g. ${nashSolution.wholesale_price.toFixed(2)}`} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 w-full font-mono focus:ring-blue-500 focus:border-blue-500" />
+                            <input id="w-manual" type="number" min={knowsCost ? params.c : 0} value={manualW} onChange={(e) => setManualW(e.target.value)} placeholder={isPrivate ? 'Price' : `e.g. ${nashSolution.wholesale_price.toFixed(2)}`} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 w-full font-mono focus:ring-blue-500 focus:border-blue-500" />
                         </div>
                         <div className="flex items-center gap-2">
                             <label htmlFor="q-manual" className="font-semibold text-red-400 w-4">q:</label>
-                            <input id="q-manual" type="number" step="1" min="1" value={manualQ} onChange={(e) => setManualQ(e.target.value)} placeholder={`e.g. ${nashSolution.order_quantity.toFixed(0)}`} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 w-full font-mono focus:ring-blue-500 focus:border-blue-500" />
+                            <input id="q-manual" type="number" step="1" min="1" value={manualQ} onChange={(e) => setManualQ(e.target.value)} placeholder={isPrivate ? 'Quantity' : `e.g. ${nashSolution.order_quantity.toFixed(0)}`} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 w-full font-mono focus:ring-blue-500 focus:border-blue-500" />
                         </div>
+                        {CONTRACT_TERM_FIELDS[params.contract.type].map(field => (
+                            <div key={field} className="flex items-center gap-2">
+                                <label htmlFor={`${field}-manual`} className="font-semibold text-gray-400 whitespace-nowrap">{CONTRACT_TERM_INPUTS[field].label}:</label>
+                                <input id={`${field}-manual`} type="number" step={CONTRACT_TERM_INPUTS[field].step} min="0" value={manualTerms[field] ?? ''} onChange={(e) => setManualTerms(prev => ({ ...prev, [field]: e.target.value }))} placeholder={CONTRACT_TERM_INPUTS[field].placeholder} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200 w-full font-mono focus:ring-blue-500 focus:border-blue-500" />
+                            </div>
+                        ))}
                     </div>
                      {analysisProfitCalcs ? (
                         <div className="flex flex-col gap-y-2">
-                            <ProfitDisplay title="Supplier Profit" value={analysisProfitCalcs.supplier_profit} color="text-red-400" />
-                            <ProfitDisplay title="Retailer Profit" value={analysisProfitCalcs.retailer_profit} color="text-blue-400" />
+                            {showsProfit('supplier') && <ProfitDisplay title={profitTitle('supplier')} value={analysisProfitCalcs.supplier_profit} color="text-red-400" />}
+                            {showsProfit('retailer') && <ProfitDisplay title={profitTitle('retailer')} value={analysisProfitCalcs.retailer_profit} color="text-blue-400" />}
                         </div>
                     ) : (
                         <div className="h-full flex items-center justify-center pt-2">
-                           <p className="text-gray-500 text-xs text-center">Enter a valid offer (w ≥ {params.c}, q > 0) to see profit details.</p>
+                           <p className="text-gray-500 text-xs text-center">Enter a valid offer ({knowsCost ? `covering the production cost c=${params.c}` : 'w > 0'}, q {'>'} 0) to see profit details.</p>
                         </div>
                     )}
                 </div>
@@ -150,11 +170,13 @@ export const NegotiationDashboard: React.FC<DashboardProps> = ({ params, latestO
                                 <Legend wrapperStyle={{fontSize: "12px", paddingTop: "10px"}}/>
                             </PieChart>
                         </ResponsiveContainer>
-                    ) : <p className="text-xs text-center text-gray-500 h-full flex items-center justify-center">Profit split chart not available for this offer (e.g., negative profit).</p>}
+                    ) : <p className="text-xs text-center text-gray-500 h-full flex items-center justify-center">{isPrivate ? "Profit split hidden: the AI's profit is private until the deal closes." : 'Profit split chart not available for this offer (e.g., negative profit).'}</p>}
                 </div>
             </div>
        </InfoCard>
 
+      <OfferSpaceCharts params={params} nashSolution={nashSolution} messages={messages} onSelectOffer={loadIntoSandbox} />
+
       <div className="flex-1 bg-gray-800 p-4 rounded-lg border border-gray-700 min-h-[300px]">
         <h3 className="text-center font-semibold text-gray-300 mb-4 text-sm">{chartTitle}</h3>
         <ResponsiveContainer width="100%" height="100%">
@@ -171,10 +193,10 @@ export const NegotiationDashboard: React.FC<DashboardProps> = ({ params, latestO
             <ReferenceLine y={0} stroke="#4B5563" strokeDasharray="2 2" />
             
             {expectedSupplierProfit !== undefined && <ReferenceLine y={expectedSupplierProfit} label={{value: "E[πS]", fill: '#F87171', fontSize: 10, position:'left'}} stroke="#F87171" strokeDasharray="4 4" />}
-            <Line type="monotone" dataKey="supplierProfit" name="Supplier Profit" stroke="#F87171" strokeWidth={2} dot={false} isAnimationActive={false}/>
+            {showsProfit('supplier') && <Line type="monotone" dataKey="supplierProfit" name="Supplier Profit" stroke="#F87171" strokeWidth={2} dot={false} isAnimationActive={false}/>}
            
             {expectedRetailerProfit !== undefined && <ReferenceLine y={expectedRetailerProfit} label={{value: "E[πR]", fill: '#60A5FA', fontSize: 10, position:'right'}} stroke="#60A5FA" strokeDasharray="4 4" />}
-            <Line type="monotone" dataKey="retailerProfit" name="Retailer Profit" stroke="#60A5FA" strokeWidth={2} dot={false} isAnimationActive={false}/>
+            {showsProfit('retailer') && <Line type="monotone" dataKey="retailerProfit" name="Retailer Profit" stroke="#60A5FA" strokeWidth={2} dot={false} isAnimationActive={false}/>}
 
           </LineChart>
         </ResponsiveContainer>
@@ -1,81 +1,234 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
-import type { NegotiationParams, Offer, ProfitCalcs } from '../types';
+import type { EndReason, NashSolution, NegotiationParams, Offer, ProfitCalcs, Settlement } from '../types';
+import { disagreementPayoffs, profitVsDemandData } from '../services/negotiationService';
+import { demandBounds } from '../services/demandDistribution';
+import { describeContractTerms } from '../services/contracts';
+import { CONTRACT_PRESETS, ROLE_LABELS, otherRole } from '../constants';
+import { RoundResultsTable } from './RoundResults';
+import { AnalyticsPanel } from './AnalyticsPanel';
+import type { NegotiationAnalytics } from '../services/analytics';
+import { cumulativeEarnings, type RoundResult } from '../services/roundManager';
 
 interface SummaryProps {
-    finalOffer: Offer;
+    endReason: EndReason;
+    finalOffer?: Offer; // Set when a deal was reached
     params: NegotiationParams;
-    finalProfits: ProfitCalcs;
+    finalProfits?: ProfitCalcs;
+    nashSolution: NashSolution;
     onReset: () => void;
+    settlement: Settlement | null;
+    onSettle: () => void;
+    requireSettlement?: boolean; // Paid sessions only move on once demand has been drawn
+    resetLabel?: string;
+    roundResults?: RoundResult[]; // In a sequence of rounds: every round so far, this one last
+    totalRounds?: number;
+    onDownloadTranscript: () => void;
+    analytics: NegotiationAnalytics;
+    onDownloadAnalytics: () => void;
 }
 
-const generateChartData = (w: number, q: number, c: number, p: number) => {
-    const data = [];
-    for (let d = 0; d <= 100; d += 5) {
-      const sales = Math.min(d, q);
-      const supplierProfit = w * sales - c * q;
-      const retailerProfit = (p - w) * sales;
-      data.push({
-        demand: d,
-        supplierProfit: supplierProfit,
-        retailerProfit: retailerProfit,
-      });
-    }
-    return data;
+const NO_DEAL_MESSAGES: Record<Exclude<EndReason, 'accepted'>, string> = {
+    'walked-away': 'You walked away from the negotiation.',
+    'ai-walked-away': 'The AI ended the negotiation after repeated unacceptable offers.',
+    'time-limit': 'Time ran out before a deal was reached.',
 };
 
-export const NegotiationSummary: React.FC<SummaryProps> = ({ finalOffer, params, finalProfits, onReset }) => {
-    const chartData = generateChartData(finalOffer.w, finalOffer.q, params.c, params.p);
+const DRAW_DURATION_MS = 2500;
+
+// Where the demand marker is at time t in [0, 1] of the draw: it sweeps across the demand range twice,
+// slowing down, and comes to rest on the drawn demand.
+function sweepPosition(t: number, min: number, max: number, demand: number): number {
+    const range = max - min;
+    if (t >= 1 || range <= 0) {
+        return demand;
+    }
+    const target = Math.min(Math.max(demand, min), max) - min;
+    const travelled = (2 * range + target) * (1 - Math.pow(1 - t, 3));
+    const lap = travelled % (2 * range);
+    return lap <= range ? min + lap : max - (lap - range);
+}
+
+export const NegotiationSummary: React.FC<SummaryProps> = ({ endReason, finalOffer, params, finalProfits, nashSolution, onReset, settlement, onSettle, requireSettlement = false, resetLabel = 'Start New Negotiation', roundResults, totalRounds, onDownloadTranscript, analytics, onDownloadAnalytics }) => {
+    const isDeal = endReason === 'accepted' && finalOffer !== undefined && finalProfits !== undefined;
+    const chartData = isDeal ? profitVsDemandData(finalOffer, params) : [];
+    const contractTerms = isDeal ? describeContractTerms(finalOffer) : '';
+    const noDealPayoffs = disagreementPayoffs(params);
+    const userRole = otherRole(params.aiRole);
+    const profitLabel = (role: typeof userRole) => `${ROLE_LABELS[role]} Profit${role === userRole ? ' (You)' : ''}`;
+    const [drawPosition, setDrawPosition] = useState<number | null>(null);
+    const [revealed, setRevealed] = useState<Settlement | null>(null); // The settlement once its draw has been animated
+
+    useEffect(() => {
+        if (!settlement) {
+            setDrawPosition(null);
+            return;
+        }
+        const { min, max } = demandBounds(params.demand);
+        const start = performance.now();
+        let frame = 0;
+        const step = (now: number) => {
+            const t = Math.min((now - start) / DRAW_DURATION_MS, 1);
+            setDrawPosition(sweepPosition(t, min, max, settlement.demand));
+            if (t < 1) {
+                frame = requestAnimationFrame(step);
+            } else {
+                setRevealed(settlement);
+            }
+        };
+        frame = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(frame);
+    }, [settlement, params.demand]);
+
+    const isSettled = settlement !== null && revealed === settlement;
+    const isDrawing = settlement !== null && !isSettled;
     
     return (
-        <div className="flex flex-col items-center justify-center h-screen bg-gray-900 text-gray-200 p-4 md:p-8">
+        <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 text-gray-200 p-4 md:p-8">
             <div className="bg-gray-800 border border-gray-700 rounded-lg p-6 md:p-8 max-w-4xl w-full text-center shadow-2xl space-y-6 animate-fade-in">
-                <h1 className="text-3xl md:text-4xl font-bold text-green-400">Negotiation Concluded!</h1>
-                <p className="text-gray-400">Congratulations on reaching a deal. Here is the summary of your agreement.</p>
+                {isDeal ? (
+                    <>
+                        <h1 className="text-3xl md:text-4xl font-bold text-green-400">Negotiation Concluded!</h1>
+                        <p className="text-gray-400">Congratulations on reaching a deal. Here is the summary of your agreement.</p>
+                    </>
+                ) : (
+                    <>
+                        <h1 className="text-3xl md:text-4xl font-bold text-yellow-400">No Deal</h1>
+                        <p className="text-gray-400">{NO_DEAL_MESSAGES[endReason as Exclude<EndReason, 'accepted'>]} Both sides receive their disagreement payoffs.</p>
+                    </>
+                )}
+                {roundResults && !isDrawing && (
+                    <p className="text-lg">
+                        Round {roundResults.length}{totalRounds ? ` of ${totalRounds}` : ''}. Your earnings so far: <span className="font-mono font-bold text-green-400">{cumulativeEarnings(roundResults).toFixed(2)}</span>
+                    </p>
+                )}
                 
                 <div className="bg-gray-900/50 rounded-lg p-4 grid grid-cols-1 sm:grid-cols-2 gap-4 text-left">
-                    <div>
-                        <h3 className="text-sm font-semibold text-gray-400 mb-1">Final Terms</h3>
-                        <p>Wholesale Price (w): <span className="font-mono text-blue-400 font-bold">{finalOffer.w.toFixed(2)}</span></p>
-                        <p>Order Quantity (q): <span className="font-mono text-red-400 font-bold">{finalOffer.q.toFixed(0)}</span></p>
-                    </div>
-                    <div>
-                        <h3 className="text-sm font-semibold text-gray-400 mb-1">Final Expected Profits</h3>
-                        <p>Supplier Profit: <span className="font-mono text-red-400 font-bold">{finalProfits.supplier_profit.toFixed(2)}</span></p>
-                        <p>Retailer Profit: <span className="font-mono text-blue-400 font-bold">{finalProfits.retailer_profit.toFixed(2)}</span></p>
-                    </div>
+                    {isDeal ? (
+                        <>
+                            <div>
+                                <h3 className="text-sm font-semibold text-gray-400 mb-1">Final Terms</h3>
+                                <p>Wholesale Price (w): <span className="font-mono text-blue-400 font-bold">{finalOffer.w.toFixed(2)}</span></p>
+                                <p>Order Quantity (q): <span className="font-mono text-red-400 font-bold">{finalOffer.q.toFixed(0)}</span></p>
+                                <p className="text-sm text-gray-400">{CONTRACT_PRESETS[finalOffer.type].label} contract{contractTerms && `, with ${contractTerms}`}</p>
+                            </div>
+                            <div>
+                                <h3 className="text-sm font-semibold text-gray-400 mb-1">Final Expected Profits</h3>
+                                <p>{profitLabel('supplier')}: <span className="font-mono text-red-400 font-bold">{finalProfits.supplier_profit.toFixed(2)}</span></p>
+                                <p>{profitLabel('retailer')}: <span className="font-mono text-blue-400 font-bold">{finalProfits.retailer_profit.toFixed(2)}</span></p>
+                            </div>
+                        </>
+                    ) : (
+                        <div className="sm:col-span-2">
+                            <h3 className="text-sm font-semibold text-gray-400 mb-1">Disagreement Payoffs</h3>
+                            <p>{profitLabel('supplier')}: <span className="font-mono text-red-400 font-bold">{noDealPayoffs.supplier_profit.toFixed(2)}</span></p>
+                            <p>{profitLabel('retailer')}: <span className="font-mono text-blue-400 font-bold">{noDealPayoffs.retailer_profit.toFixed(2)}</span></p>
+                        </div>
+                    )}
+                    {params.information === 'private' && (
+                        <div className="sm:col-span-2">
+                            <h3 className="text-sm font-semibold text-gray-400 mb-1">Revealed Information</h3>
+                            <p className="text-sm">
+                                Production Cost c=<span className="font-mono">{params.c}</span>, Retail Price p=<span className="font-mono">{params.p}</span>.
+                                Nash benchmark: w=<span className="font-mono text-blue-400">{nashSolution.wholesale_price.toFixed(2)}</span>, q=<span className="font-mono text-red-400">{nashSolution.order_quantity.toFixed(0)}</span>
+                                {' '}(Supplier {nashSolution.supplier_profit.toFixed(2)}, Retailer {nashSolution.retailer_profit.toFixed(2)}).
+                            </p>
+                        </div>
+                    )}
                 </div>
 
-                <div className="h-64 md:h-80 w-full bg-gray-800 p-4 rounded-lg border border-gray-700">
-                    <h3 className="font-semibold text-gray-300 mb-4 text-sm">Final Deal: Profit vs. Demand</h3>
-                    <ResponsiveContainer width="100%" height="100%">
-                       <LineChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
-                            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-                            <XAxis dataKey="demand" stroke="#9CA3AF" tick={{ fontSize: 12 }} label={{ value: 'Demand Realization', position: 'insideBottom', offset: -5, fill:'#9CA3AF', fontSize: 12 }} />
-                            <YAxis stroke="#9CA3AF" tick={{ fontSize: 12 }} label={{ value: 'Profit', angle: -90, position: 'insideLeft', fill:'#9CA3AF', fontSize: 12 }}/>
-                            <Tooltip
-                                contentStyle={{ backgroundColor: '#1F2937', border: '1px solid #374151', borderRadius: '0.5rem' }}
-                                labelStyle={{ color: '#E5E7EB' }}
-                                itemStyle={{ fontWeight: 'bold' }}
-                            />
-                            <Legend wrapperStyle={{fontSize: "12px"}}/>
-                            <ReferenceLine y={0} stroke="#4B5563" strokeDasharray="2 2" />
+                {isDeal && (
+                    <>
+                        <div className="h-64 md:h-80 w-full bg-gray-800 p-4 rounded-lg border border-gray-700">
+                            <h3 className="font-semibold text-gray-300 mb-4 text-sm">Final Deal: Profit vs. Demand</h3>
+                            <ResponsiveContainer width="100%" height="100%">
+                               <LineChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                                    <XAxis dataKey="demand" type="number" domain={['dataMin', 'dataMax']} stroke="#9CA3AF" tick={{ fontSize: 12 }} label={{ value: 'Demand Realization', position: 'insideBottom', offset: -5, fill:'#9CA3AF', fontSize: 12 }} />
+                                    <YAxis stroke="#9CA3AF" tick={{ fontSize: 12 }} label={{ value: 'Profit', angle: -90, position: 'insideLeft', fill:'#9CA3AF', fontSize: 12 }}/>
+                                    <Tooltip
+                                        contentStyle={{ backgroundColor: '#1F2937', border: '1px solid #374151', borderRadius: '0.5rem' }}
+                                        labelStyle={{ color: '#E5E7EB' }}
+                                        itemStyle={{ fontWeight: 'bold' }}
+                                    />
+                                    <Legend wrapperStyle={{fontSize: "12px"}}/>
+                                    <ReferenceLine y={0} stroke="#4B5563" strokeDasharray="2 2" />
                             
-                            <ReferenceLine y={finalProfits.supplier_profit} label={{value: "E[πS]", fill: '#F87171', fontSize: 10, position:'left'}} stroke="#F87171" strokeDasharray="4 4" />
-                            <Line type="monotone" dataKey="supplierProfit" name="Supplier Profit" stroke="#F87171" strokeWidth={2} dot={false} isAnimationActive={false}/>
+                                    <ReferenceLine y={finalProfits.supplier_profit} label={{value: "E[πS]", fill: '#F87171', fontSize: 10, position:'left'}} stroke="#F87171" strokeDasharray="4 4" />
+                                    <Line type="monotone" dataKey="supplierProfit" name="Supplier Profit" stroke="#F87171" strokeWidth={2} dot={false} isAnimationActive={false}/>
                         
-                            <ReferenceLine y={finalProfits.retailer_profit} label={{value: "E[πR]", fill: '#60A5FA', fontSize: 10, position:'right'}} stroke="#60A5FA" strokeDasharray="4 4" />
-                            <Line type="monotone" dataKey="retailerProfit" name="Retailer Profit" stroke="#60A5FA" strokeWidth={2} dot={false} isAnimationActive={false}/>
-                        </LineChart>
-                    </ResponsiveContainer>
-                </div>
+                                    <ReferenceLine y={finalProfits.retailer_profit} label={{value: "E[πR]", fill: '#60A5FA', fontSize: 10, position:'right'}} stroke="#60A5FA" strokeDasharray="4 4" />
+                                    <Line type="monotone" dataKey="retailerProfit" name="Retailer Profit" stroke="#60A5FA" strokeWidth={2} dot={false} isAnimationActive={false}/>
+
+                                    {drawPosition !== null && (
+                                        <ReferenceLine x={drawPosition} ifOverflow="extendDomain" label={{ value: isSettled ? `D=${settlement!.demand}` : 'D', fill: '#FACC15', fontSize: 11, position: 'top' }} stroke="#FACC15" strokeWidth={2} />
+                                    )}
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+
+                        {isSettled ? (
+                            <div className="bg-gray-900/50 rounded-lg p-4 grid grid-cols-1 sm:grid-cols-2 gap-4 text-left">
+                                <div>
+                                    <h3 className="text-sm font-semibold text-gray-400 mb-1">Realised Demand</h3>
+                                    <p>Demand: <span className="font-mono text-yellow-400 font-bold">{settlement!.demand}</span></p>
+                                    <p>Units sold: <span className="font-mono">{settlement!.sales}</span>, left over: <span className="font-mono">{settlement!.leftovers}</span></p>
+                                </div>
+                                <div>
+                                    <h3 className="text-sm font-semibold text-gray-400 mb-1">Realised Profits</h3>
+                                    <p>{profitLabel('supplier')}: <span className="font-mono text-red-400 font-bold">{settlement!.supplier_profit.toFixed(2)}</span></p>
+                                    <p>{profitLabel('retailer')}: <span className="font-mono text-blue-400 font-bold">{settlement!.retailer_profit.toFixed(2)}</span></p>
+                                </div>
+                                <p className="sm:col-span-2 text-sm">
+                                    Your payment: <span className="font-mono text-green-400 font-bold">€{settlement!.payment.toFixed(2)}</span>
+                                    <span className="text-gray-400"> ({settlement!.participantProfit.toFixed(2)} × €{settlement!.conversionRate} per unit)</span>
+                                </p>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-400">
+                                {isDrawing ? 'Drawing demand…' : 'Your payment depends on the demand that is realised. Draw it to settle the deal.'}
+                            </p>
+                        )}
+                    </>
+                )}
 
-                <button
-                    onClick={onReset}
-                    className="bg-green-600 text-white font-bold px-6 py-3 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-gray-600 transition-colors"
-                >
-                    Start New Negotiation
-                </button>
+                {!isDrawing && <AnalyticsPanel analytics={analytics} />}
+
+                {roundResults && !isDrawing && (
+                    <div className="bg-gray-900/50 rounded-lg p-4 max-h-64 overflow-y-auto">
+                        <RoundResultsTable results={roundResults} />
+                    </div>
+                )}
+
+                <div className="flex justify-center gap-4">
+                    {isDeal && !settlement && (
+                        <button
+                            onClick={onSettle}
+                            className="bg-yellow-600 text-white font-bold px-6 py-3 rounded-lg hover:bg-yellow-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 transition-colors"
+                        >
+                            Draw Demand
+                        </button>
+                    )}
+                    <button
+                        onClick={onDownloadTranscript}
+                        className="bg-gray-600 text-white font-bold px-6 py-3 rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors"
+                    >
+                        Download Transcript
+                    </button>
+                    <button
+                        onClick={onDownloadAnalytics}
+                        className="bg-gray-600 text-white font-bold px-6 py-3 rounded-lg hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-400 transition-colors"
+                    >
+                        Download Analytics
+                    </button>
+                    <button
+                        onClick={onReset}
+                        disabled={isDrawing || (isDeal && requireSettlement && !settlement)}
+                        className="bg-green-600 text-white font-bold px-6 py-3 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-gray-600 transition-colors"
+                    >
+                        {resetLabel}
+                    </button>
+                </div>
             </div>
             <style>{`
                 @keyframes fade-in {
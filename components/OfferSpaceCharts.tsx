@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea, ReferenceLine, ReferenceDot } from 'recharts';
+import type { Message, NashSolution, NegotiationParams, Offer, Role } from '../types';
+import { disagreementPayoffs, systemOptimalQuantity } from '../services/negotiationService';
+import { isoProfitContour, offerAt, offerSpaceBounds, offerSpaceGrid, offerTrajectory, paretoFrontier, type HeatCell, type OfferPoint, type TrajectoryPoint } from '../services/offerSpace';
+import { ROLE_LABELS, otherRole } from '../constants';
+
+interface OfferSpaceProps {
+  params: NegotiationParams;
+  nashSolution: NashSolution;
+  messages: Message[];
+  onSelectOffer: (offer: Offer) => void; // Loads a clicked point into the Offer Sandbox
+}
+
+// Chart colours of each side, as in the profit-vs-demand chart.
+const CHART_COLORS: Record<Role, string> = { supplier: '#F87171', retailer: '#60A5FA' };
+const HEAT_RGB: Record<Role, [number, number, number]> = { supplier: [248, 113, 113], retailer: [96, 165, 250] };
+const BASE_RGB = [31, 41, 55]; // gray-800, the card background
+const NASH_COLOR = '#FBBF24';
+
+// Iso-profit levels, as shares of each side's Nash profit.
+const CONTOUR_SHARES = [0.5, 1, 1.5];
+
+const TOOLTIP_STYLE = { backgroundColor: '#1F2937', border: '1px solid #374151', borderRadius: '0.5rem' };
+
+// Blends from the background to the side's colour as the profit rises to the best on the grid; losses stay dark.
+function heatColor(profit: number, maxProfit: number, role: Role): string {
+  if (profit <= 0 || maxProfit <= 0) {
+    return '#111827';
+  }
+  const t = Math.min(1, profit / maxProfit);
+  const [r, g, b] = HEAT_RGB[role].map((channel, i) => Math.round(BASE_RGB[i] + t * (channel - BASE_RGB[i])));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+const profitOf = (point: OfferPoint, role: Role) => (role === 'supplier' ? point.supplier_profit : point.retailer_profit);
+
+// Where recharts places a heat map cell, in pixels.
+interface CellArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Tiny scatter symbols: the points only carry the contour lines and the profit-space cloud.
+const NoDot = () => <g />;
+const SmallDot = (props: { cx?: number; cy?: number; fill?: string }) => <circle cx={props.cx} cy={props.cy} r={1.5} fill={props.fill} />;
+
+export const OfferSpaceCharts: React.FC<OfferSpaceProps> = ({ params, nashSolution, messages, onSelectOffer }) => {
+  const userRole = otherRole(params.aiRole);
+  const [heatRole, setHeatRole] = useState<Role>(userRole);
+
+  const { wMax, qMax } = offerSpaceBounds(params);
+  const cells = useMemo(() => offerSpaceGrid(params), [params]);
+  const contours = useMemo(() => (['supplier', 'retailer'] as Role[]).flatMap(role => CONTOUR_SHARES.map(share => ({
+    role,
+    share,
+    points: isoProfitContour(role, share * (role === 'supplier' ? nashSolution.supplier_profit : nashSolution.retailer_profit), params),
+  }))), [params, nashSolution]);
+  const frontier = useMemo(() => paretoFrontier(params), [params]);
+  const efficientQ = useMemo(() => systemOptimalQuantity(params), [params]);
+  const disagreement = useMemo(() => disagreementPayoffs(params), [params]);
+  const trajectory = useMemo(() => offerTrajectory(messages, params), [messages, params]);
+
+  const maxHeat = Math.max(...cells.map(cell => profitOf(cell, heatRole)));
+  // The profit-space cloud: the grid's offers that both sides prefer to disagreement.
+  const feasible = cells.filter(cell => cell.supplier_profit >= disagreement.supplier_profit && cell.retailer_profit >= disagreement.retailer_profit);
+  const sides = (side: Message['sender']) => trajectory.filter(point => point.sender === side);
+
+  const selectPoint = (point: { payload: OfferPoint }) => onSelectOffer(offerAt(point.payload.w, point.payload.q, params));
+  const selectTrajectoryPoint = (point: { payload: TrajectoryPoint }) => onSelectOffer(point.payload.offer);
+
+  // In the private-information mode, both charts would give away the AI's parameter.
+  if (params.information === 'private') {
+    return (
+      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-400 mb-2">Offer Space</h3>
+        <p className="text-sm text-gray-500 text-center py-1">Hidden until the deal closes.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 h-80 flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-400">Offer Space (w, q)</h3>
+          <div className="flex gap-1 text-xs">
+            {(['supplier', 'retailer'] as Role[]).map(role => (
+              <button
+                key={role}
+                onClick={() => setHeatRole(role)}
+                className={`px-2 py-0.5 rounded ${heatRole === role ? 'bg-gray-600 text-gray-100' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+              >
+                {ROLE_LABELS[role]} profit
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex-1 min-h-0">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 5, right: 10, left: -15, bottom: 10 }}>
+              <XAxis type="number" dataKey="q" name="q" domain={[0, qMax]} stroke="#9CA3AF" tick={{ fontSize: 11 }} allowDataOverflow label={{ value: 'Quantity q', position: 'insideBottom', offset: -5, fill: '#9CA3AF', fontSize: 11 }} />
+              <YAxis type="number" dataKey="w" name="w" domain={[0, wMax]} stroke="#9CA3AF" tick={{ fontSize: 11 }} allowDataOverflow label={{ value: 'Price w', angle: -90, position: 'insideLeft', offset: 20, fill: '#9CA3AF', fontSize: 11 }} />
+              {cells.map((cell: HeatCell) => (
+                <React.Fragment key={`${cell.w0}-${cell.q0}`}>
+                  <ReferenceArea
+                    x1={cell.q0} x2={cell.q1} y1={cell.w0} y2={cell.w1}
+                    shape={(area: CellArea) => (
+                      <rect
+                        x={area.x} y={area.y} width={area.width} height={area.height}
+                        fill={heatColor(profitOf(cell, heatRole), maxHeat, heatRole)}
+                        onClick={() => onSelectOffer(offerAt(cell.w, cell.q, params))}
+                        style={{ cursor: 'pointer' }}
+                      />
+                    )}
+                  />
+                </React.Fragment>
+              ))}
+              <ReferenceLine x={efficientQ} stroke={NASH_COLOR} strokeDasharray="4 4" label={{ value: 'q*', fill: NASH_COLOR, fontSize: 10, position: 'top' }} />
+              {contours.map(contour => (
+                <Scatter
+                  key={`${contour.role}-${contour.share}`}
+                  data={contour.points}
+                  line={{ stroke: CHART_COLORS[contour.role], strokeWidth: contour.share === 1 ? 2 : 1, strokeDasharray: contour.role === 'supplier' ? '5 3' : '2 2' }}
+                  shape={NoDot}
+                  legendType="none"
+                  tooltipType="none"
+                  isAnimationActive={false}
+                />
+              ))}
+              {(['user', 'ai'] as Message['sender'][]).map(side => (
+                <Scatter
+                  key={side}
+                  name={side === 'user' ? 'Your offers' : 'AI offers'}
+                  data={sides(side)}
+                  fill={CHART_COLORS[side === 'user' ? userRole : params.aiRole]}
+                  stroke="#F9FAFB"
+                  line={{ stroke: CHART_COLORS[side === 'user' ? userRole : params.aiRole], strokeWidth: 1 }}
+                  onClick={selectTrajectoryPoint}
+                  isAnimationActive={false}
+                  style={{ cursor: 'pointer' }}
+                />
+              ))}
+              <ReferenceDot x={nashSolution.order_quantity} y={nashSolution.wholesale_price} r={5} fill={NASH_COLOR} stroke="#111827" label={{ value: 'Nash', fill: NASH_COLOR, fontSize: 10, position: 'right' }} onClick={() => onSelectOffer(offerAt(nashSolution.wholesale_price, nashSolution.order_quantity, params))} style={{ cursor: 'pointer' }} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => value.toFixed(2)} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Lines: iso-profit contours at 50%, 100% and 150% of each side's Nash profit (supplier dashed, retailer dotted); q*: efficient quantity. Click to load an offer into the sandbox.
+        </p>
+      </div>
+
+      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 h-80 flex flex-col">
+        <h3 className="text-sm font-semibold text-gray-400 mb-2">Profit Space</h3>
+        <div className="flex-1 min-h-0">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart margin={{ top: 5, right: 10, left: -10, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis type="number" dataKey="supplier_profit" name="Supplier profit" stroke="#9CA3AF" tick={{ fontSize: 11 }} tickFormatter={(value: number) => value.toFixed(0)} label={{ value: 'Supplier profit', position: 'insideBottom', offset: -5, fill: '#9CA3AF', fontSize: 11 }} />
+              <YAxis type="number" dataKey="retailer_profit" name="Retailer profit" stroke="#9CA3AF" tick={{ fontSize: 11 }} tickFormatter={(value: number) => value.toFixed(0)} label={{ value: 'Retailer profit', angle: -90, position: 'insideLeft', offset: 15, fill: '#9CA3AF', fontSize: 11 }} />
+              <Scatter name="Feasible offers" data={feasible} fill="#4B5563" shape={SmallDot} onClick={selectPoint} isAnimationActive={false} />
+              <Scatter name="Pareto frontier" data={frontier} fill={NASH_COLOR} line={{ stroke: NASH_COLOR, strokeWidth: 2 }} shape={SmallDot} onClick={selectPoint} isAnimationActive={false} style={{ cursor: 'pointer' }} />
+              {(['user', 'ai'] as Message['sender'][]).map(side => (
+                <Scatter
+                  key={side}
+                  name={side === 'user' ? 'Your offers' : 'AI offers'}
+                  data={sides(side)}
+                  fill={CHART_COLORS[side === 'user' ? userRole : params.aiRole]}
+                  stroke="#F9FAFB"
+                  line={{ stroke: CHART_COLORS[side === 'user' ? userRole : params.aiRole], strokeWidth: 1 }}
+                  onClick={selectTrajectoryPoint}
+                  isAnimationActive={false}
+                  style={{ cursor: 'pointer' }}
+                />
+              ))}
+              <ReferenceDot x={nashSolution.supplier_profit} y={nashSolution.retailer_profit} r={5} fill={NASH_COLOR} stroke="#111827" label={{ value: 'Nash', fill: NASH_COLOR, fontSize: 10, position: 'right' }} />
+              <ReferenceDot x={disagreement.supplier_profit} y={disagreement.retailer_profit} r={4} fill="#9CA3AF" stroke="#111827" label={{ value: 'No deal', fill: '#9CA3AF', fontSize: 10, position: 'right' }} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => value.toFixed(2)} />
+              <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { RoundResult } from '../services/roundManager';
+import { cumulativeEarnings } from '../services/roundManager';
+import { formatOfferTerms } from '../services/contracts';
+import { END_REASON_LABELS } from '../constants';
+
+// The participant's rounds so far, with the realised demand, their earnings and the running total.
+export const RoundResultsTable: React.FC<{ results: RoundResult[] }> = ({ results }) => (
+    <table className="w-full text-sm text-left">
+        <thead className="text-gray-400">
+            <tr>
+                <th className="py-1 pr-3">Round</th>
+                <th className="py-1 pr-3">c</th>
+                <th className="py-1 pr-3">p</th>
+                <th className="py-1 pr-3">Deal</th>
+                <th className="py-1 pr-3 text-right">Demand</th>
+                <th className="py-1 pr-3 text-right">Your profit</th>
+                <th className="py-1 text-right">Total</th>
+            </tr>
+        </thead>
+        <tbody className="text-gray-300 font-mono">
+            {results.map((result, i) => (
+                <tr key={result.round} className="border-t border-gray-700">
+                    <td className="py-1 pr-3">{result.round}</td>
+                    <td className="py-1 pr-3">{result.params.c}</td>
+                    <td className="py-1 pr-3">{result.params.p}</td>
+                    <td className="py-1 pr-3 text-xs">{result.finalOffer ? formatOfferTerms(result.finalOffer) : <span className="text-gray-500">no deal{result.endReason && ` (${END_REASON_LABELS[result.endReason]})`}</span>}</td>
+                    <td className="py-1 pr-3 text-right">{result.settlement?.demand ?? <span className="text-gray-500">—</span>}</td>
+                    <td className="py-1 pr-3 text-right">{result.userProfit.toFixed(2)}</td>
+                    <td className="py-1 text-right text-green-400">{cumulativeEarnings(results.slice(0, i + 1)).toFixed(2)}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
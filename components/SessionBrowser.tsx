@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { SessionRecord } from '../types';
+import { clearSessions, deleteSession, loadSessions, messagesToCsv, saveSession, sessionsToCsv, sessionsToJson } from '../services/sessionLog';
+import { parseTranscripts, transcriptFileName, transcriptToJson } from '../services/transcript';
+import { analyticsFileName, analyticsToCsv } from '../services/analytics';
+import { downloadFile } from '../services/download';
+import { formatOfferTerms } from '../services/contracts';
+import { CONTRACT_PRESETS, END_REASON_LABELS, ROLE_LABELS, otherRole } from '../constants';
+
+interface SessionBrowserProps {
+  onClose: () => void;
+  onReplay: (session: SessionRecord) => void;
+}
+
+const exportName = (suffix: string) => `negotiation-sessions-${new Date().toISOString().slice(0, 10)}${suffix}`;
+
+export const SessionBrowser: React.FC<SessionBrowserProps> = ({ onClose, onReplay }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>(() => loadSessions());
+  const [importError, setImportError] = useState<string>('');
+
+  // Imported transcripts join the log, replacing stored sessions with the same id.
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      parseTranscripts(await file.text()).forEach(saveSession);
+      setImportError('');
+    } catch (error) {
+      setImportError(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    // Sessions stored before a failed write stay imported.
+    setSessions(loadSessions());
+  };
+
+  const handleDelete = (sessionId: string) => {
+    deleteSession(sessionId);
+    setSessions(loadSessions());
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Delete all recorded sessions? Export them first if you still need them.')) {
+      clearSessions();
+      setSessions([]);
+    }
+  };
+
+  const buttonClass = 'bg-gray-600 text-white font-semibold px-3 py-1.5 rounded-lg hover:bg-gray-500 disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-10">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-2xl max-w-5xl w-full max-h-full flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold text-white">Recorded Sessions ({sessions.length})</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-200 text-xl leading-none">×</button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4">
+          {sessions.length === 0 ? (
+            <p className="text-gray-500 text-sm text-center">No sessions recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm text-left">
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="py-1 pr-3">Started</th>
+                  <th className="py-1 pr-3">Participant</th>
+                  <th className="py-1 pr-3">Human role</th>
+                  <th className="py-1 pr-3">Setup</th>
+                  <th className="py-1 pr-3">Outcome</th>
+                  <th className="py-1 pr-3">Messages</th>
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-300">
+                {sessions.slice().reverse().map(session => (
+                  <tr key={session.sessionId} className="border-t border-gray-700">
+                    <td className="py-1 pr-3 whitespace-nowrap">{new Date(session.startedAt).toLocaleString()}</td>
+                    <td className="py-1 pr-3">{session.participantId || <span className="text-gray-500">—</span>}</td>
+                    <td className="py-1 pr-3">{ROLE_LABELS[otherRole(session.params.aiRole)]}</td>
+                    <td className="py-1 pr-3 font-mono text-xs">
+                      {CONTRACT_PRESETS[session.params.contract.type].label}, c={session.params.c}, p={session.params.p}, {session.params.information}
+                    </td>
+                    <td className="py-1 pr-3 font-mono text-xs">
+                      {session.finalOffer ? <span className="text-green-400">{formatOfferTerms(session.finalOffer)}</span> : <span className="text-gray-500">no deal{session.endReason && ` (${END_REASON_LABELS[session.endReason]})`}</span>}
+                    </td>
+                    <td className="py-1 pr-3">{session.messages.length}</td>
+                    <td className="py-1 text-right whitespace-nowrap space-x-3">
+                      <button onClick={() => onReplay(session)} className="text-green-400 hover:text-green-300 text-xs">Replay</button>
+                      <button onClick={() => downloadFile(transcriptFileName(session), transcriptToJson(session), 'application/json')} className="text-blue-400 hover:text-blue-300 text-xs">Transcript</button>
+                      <button onClick={() => downloadFile(analyticsFileName(session), analyticsToCsv(session), 'text/csv')} className="text-blue-400 hover:text-blue-300 text-xs">Analytics</button>
+                      <button onClick={() => handleDelete(session.sessionId)} className="text-red-400 hover:text-red-300 text-xs">Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        {importError && <p className="px-4 pb-2 text-sm text-red-400">{importError}</p>}
+        <div className="flex flex-wrap items-center gap-2 p-4 border-t border-gray-700">
+          <label className={`${buttonClass} cursor-pointer`}>
+            Import transcript
+            <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </label>
+          <button onClick={() => downloadFile(exportName('.json'), sessionsToJson(sessions), 'application/json')} disabled={sessions.length === 0} className={buttonClass}>Export JSON</button>
+          <button onClick={() => downloadFile(exportName('.csv'), sessionsToCsv(sessions), 'text/csv')} disabled={sessions.length === 0} className={buttonClass}>Export sessions CSV</button>
+          <button onClick={() => downloadFile(exportName('-messages.csv'), messagesToCsv(sessions), 'text/csv')} disabled={sessions.length === 0} className={buttonClass}>Export messages CSV</button>
+          <button onClick={handleClear} disabled={sessions.length === 0} className="ml-auto bg-red-700 text-white font-semibold px-3 py-1.5 rounded-lg hover:bg-red-600 disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors text-sm">Clear all</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChatWindow } from './ChatWindow';
+import { NegotiationDashboard } from './NegotiationDashboard';
+import { DebugPanel } from './DebugPanel';
+import type { Message, NegotiationParams, Offer, SessionRecord } from '../types';
+import { calculateOfferProfits, calculateProfits } from '../services/negotiationService';
+import { mergeContractTerms, formatOfferTerms } from '../services/contracts';
+import { describeDemand } from '../services/demandDistribution';
+import { CONTRACT_PRESETS, END_REASON_LABELS, ROLE_COLORS, ROLE_LABELS, otherRole } from '../constants';
+
+interface SessionReplayProps {
+  session: SessionRecord;
+  onClose: () => void;
+}
+
+// The chat inputs are hidden in a replay, so their handlers are never called.
+const noop = () => {};
+
+// The offer a message puts on the table: the attached one, or a full offer read from a participant's text.
+const offerOfMessage = (message: Message, params: NegotiationParams): Offer | null => {
+  if (message.offer) return message.offer;
+  const parsed = message.parsedOffer;
+  if (parsed?.w !== undefined && parsed.q !== undefined && parsed.w > 0 && parsed.q > 0) {
+    return { ...mergeContractTerms(params.contract, parsed), w: parsed.w, q: parsed.q };
+  }
+  return null;
+};
+
+export const SessionReplay: React.FC<SessionReplayProps> = ({ session, onClose }) => {
+  const [step, setStep] = useState(0);
+  const lastStep = session.messages.length - 1;
+
+  // Whoever replays a session sees both sides, also for private-information sessions.
+  const params = useMemo((): NegotiationParams => ({ ...session.params, information: 'full' }), [session]);
+  const userRole = otherRole(params.aiRole);
+
+  // An offer is answered by a later message, so the last message shown still has its offer open.
+  const visibleMessages = useMemo(() => session.messages.slice(0, step + 1).map((message, i) => (
+    i === step && message.offerStatus ? { ...message, offerStatus: 'proposed' as const } : message
+  )), [session, step]);
+  const current = session.messages[step];
+
+  const offerAtStep = useMemo(() => {
+    for (let i = visibleMessages.length - 1; i >= 0; i--) {
+      const offer = offerOfMessage(visibleMessages[i], params);
+      if (offer) return offer;
+    }
+    return null;
+  }, [visibleMessages, params]);
+
+  const latestAiOffer = useMemo(() => {
+    return visibleMessages.slice().reverse().find(m => m.sender === 'ai' && m.offer)?.offer || null;
+  }, [visibleMessages]);
+
+  const profitCalcs = useMemo(() => (offerAtStep ? calculateOfferProfits(offerAtStep, params) : null), [offerAtStep, params]);
+  const nashProfitCalcs = useMemo(() => calculateProfits(session.nash.wholesale_price, session.nash.order_quantity, params), [session, params]);
+
+  const goTo = (target: number) => setStep(Math.max(0, Math.min(lastStep, target)));
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setStep(s => Math.min(lastStep, s + 1));
+      if (e.key === 'ArrowLeft') setStep(s => Math.max(0, s - 1));
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [lastStep]);
+
+  const buttonClass = 'bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-gray-200 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex h-screen font-sans bg-gray-900 text-gray-200">
+      <main className="flex flex-1 flex-col md:flex-row gap-6 p-4 md:p-6 lg:p-8 max-w-7xl mx-auto w-full">
+        <div className="md:w-1/2 lg:w-3/5 flex flex-col gap-4 min-h-0">
+            <header className="text-center">
+              <h1 className="text-2xl md:text-3xl font-bold text-white">Session Replay</h1>
+              <p className="text-gray-400 mt-2 text-sm">
+                {session.participantId ? `Participant ${session.participantId}, ` : ''}{new Date(session.startedAt).toLocaleString()}.
+                The participant played the <span className={`font-semibold ${ROLE_COLORS[userRole]}`}>{ROLE_LABELS[userRole]}</span> with {session.params.information} information.
+                <br />
+                <span className="font-mono">c={params.c}, p={params.p}, {CONTRACT_PRESETS[params.contract.type].label} contract</span>
+                <br />
+                <span className="text-xs">Demand follows {describeDemand(params.demand)}.</span>
+                <br />
+                <span className="text-xs">Outcome: {session.finalOffer ? `agreement on ${formatOfferTerms(session.finalOffer)}` : `no agreement${session.endReason ? ` (${END_REASON_LABELS[session.endReason]})` : ''}`}</span>
+              </p>
+              <div className="flex items-center justify-center mt-4 space-x-2 text-sm">
+                  <button onClick={() => goTo(0)} disabled={step === 0} className={buttonClass}>⏮</button>
+                  <button onClick={() => goTo(step - 1)} disabled={step === 0} className={buttonClass}>Previous</button>
+                  <input
+                    type="range"
+                    min={0}
+                    max={lastStep}
+                    value={step}
+                    onChange={(e) => goTo(parseInt(e.target.value, 10))}
+                    className="w-40"
+                  />
+                  <button onClick={() => goTo(step + 1)} disabled={step === lastStep} className={buttonClass}>Next</button>
+                  <button onClick={() => goTo(lastStep)} disabled={step === lastStep} className={buttonClass}>⏭</button>
+                  <span className="text-gray-400 font-mono">{step + 1}/{lastStep + 1}</span>
+                  <button onClick={onClose} className={`${buttonClass} ml-4`}>Close Replay</button>
+              </div>
+            </header>
+            <div className="flex-1 flex flex-col min-h-0">
+               <ChatWindow
+                  messages={visibleMessages}
+                  userInput=""
+                  setUserInput={noop}
+                  onSendMessage={noop}
+                  isLoading={false}
+                  isConcluded={false}
+                  offerW=""
+                  setOfferW={noop}
+                  offerQ=""
+                  setOfferQ={noop}
+                  contract={params.contract}
+                  offerTerms={{}}
+                  setOfferTerm={noop}
+                  onSendOffer={noop}
+                  onAcceptOffer={noop}
+                  latestAiOffer={latestAiOffer}
+                  readOnly
+                />
+            </div>
+            {current?.sender === 'user' && (
+              <p className="text-xs text-gray-400 font-mono">
+                Offer read from this message: {current.parsedOffer && Object.keys(current.parsedOffer).length > 0 ? JSON.stringify(current.parsedOffer) : 'none recorded'}
+              </p>
+            )}
+            {current?.sender === 'ai' && (
+              current.debugPrompt
+                ? <DebugPanel prompt={current.debugPrompt} title="Prompt behind this AI message" />
+                : <p className="text-xs text-gray-500">No prompt recorded for this AI message.</p>
+            )}
+        </div>
+        <div className="md:w-1/2 lg:w-2/5 flex flex-col">
+          <NegotiationDashboard
+            params={params}
+            latestOffer={offerAtStep}
+            profitCalcs={profitCalcs}
+            nashSolution={session.nash}
+            nashProfitCalcs={nashProfitCalcs}
+            messages={visibleMessages}
+          />
+        </div>
+      </main>
+    </div>
+  );
+};
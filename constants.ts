@@ -1,9 +1,90 @@
 
-import type { NegotiationParams } from './types';
+import type { BargainingSettings, ConcessionStrategy, ContractTerms, ContractType, DemandDistribution, EndReason, InequityAversion, NegotiationLimits, NegotiationParams, ParameterGrid, Role } from './types';
+
+export const SYMMETRIC_BARGAINING: BargainingSettings = {
+  retailerWeight: 0.5,
+  disagreement: { supplier: 0, retailer: 0 },
+};
 
 export const INITIAL_PARAMS: NegotiationParams = {
   c: 3,    // Supplier's per-unit production cost
   p: 10,   // Retailer's selling price
-  demand_min: 0,
-  demand_max: 100,
+  demand: { type: 'uniform', min: 0, max: 100 },
+  bargaining: SYMMETRIC_BARGAINING,
+  contract: { type: 'wholesale' },
+  aiRole: 'retailer',
+  information: 'full',
+};
+
+// Values a session draws c and p from. In the private-information mode they are also what the AI's belief ranges over.
+export const COST_VALUES = [3, 4, 5];
+export const PRICE_VALUES = [10, 11, 12];
+export const DEFAULT_PARAMETER_GRID: ParameterGrid = { costValues: COST_VALUES, priceValues: PRICE_VALUES };
+
+// Euros paid per unit of experimental currency, unless the experiment configuration sets its own rate.
+export const DEFAULT_CONVERSION_RATE = 0.02;
+
+export const ROLE_LABELS: Record<Role, string> = { supplier: 'Supplier', retailer: 'Retailer' };
+
+// Text colour of each side in the UI copy, matching the chart colours.
+export const ROLE_COLORS: Record<Role, string> = { supplier: 'text-red-400', retailer: 'text-blue-400' };
+
+export const otherRole = (role: Role): Role => (role === 'supplier' ? 'retailer' : 'supplier');
+
+// The parameter only each side knows in the private-information mode.
+export const PRIVATE_PARAMETER: Record<Role, 'c' | 'p'> = { supplier: 'c', retailer: 'p' };
+
+// Contract types selectable for a session, with the secondary terms each session starts from.
+export const CONTRACT_PRESETS: Record<ContractType, { label: string; terms: ContractTerms }> = {
+  wholesale: { label: 'Wholesale price', terms: { type: 'wholesale' } },
+  buyback: { label: 'Buyback', terms: { type: 'buyback', b: 2 } },
+  revenue_sharing: { label: 'Revenue sharing', terms: { type: 'revenue_sharing', phi: 0.7 } },
+  quantity_discount: { label: 'Quantity discount', terms: { type: 'quantity_discount', threshold: 60, discount: 0.1 } },
+};
+
+// Demand distributions selectable for a session, all with a mean of about 50 units.
+export const DEMAND_PRESETS: Record<string, { label: string; demand: DemandDistribution }> = {
+  uniform: { label: 'Uniform 0–100', demand: { type: 'uniform', min: 0, max: 100 } },
+  normal: { label: 'Normal (50, 20), truncated 0–100', demand: { type: 'normal', mean: 50, sd: 20, min: 0, max: 100 } },
+  triangular: { label: 'Triangular 0–100, mode 50', demand: { type: 'triangular', min: 0, mode: 50, max: 100 } },
+  empirical: { label: 'Discrete 20/40/60/80', demand: { type: 'empirical', values: [20, 40, 60, 80] } },
+  exponential: { label: 'Exponential, mean 50', demand: { type: 'exponential', mean: 50 } },
+};
+
+// Limits selectable for a session. Without limits a negotiation only ends when a side accepts or walks away.
+export const LIMIT_PRESETS: Record<string, { label: string; limits: NegotiationLimits }> = {
+  none: { label: 'No limits', limits: {} },
+  relaxed: { label: '10 min, 20 offers', limits: { timeLimitSeconds: 600, maxOffers: 20, aiWalkAwayAfter: 5 } },
+  strict: { label: '5 min, 10 offers', limits: { timeLimitSeconds: 300, maxOffers: 10, aiWalkAwayAfter: 3 } },
+};
+
+export const STRATEGY_LABELS: Record<ConcessionStrategy, string> = {
+  'nash-anchored': 'Nash-anchored',
+  'boulware': 'Tough (Boulware)',
+  'linear': 'Linear conceder',
+  'tit-for-tat': 'Tit-for-tat',
+  'fairness': 'Fairness-seeking',
+};
+
+// Tone instructions for the language layer. They change how the AI words its moves, never the moves.
+export const PERSONA_PRESETS: Record<string, { label: string; persona?: string }> = {
+  neutral: { label: 'Neutral' },
+  friendly: { label: 'Friendly', persona: 'Warm and upbeat. Thank them for their proposals and stress what both sides gain from a deal.' },
+  tough: { label: 'Tough', persona: 'Firm and terse. Make clear you have other options and never sound eager to close.' },
+  analytical: { label: 'Analytical', persona: 'Matter-of-fact. Justify your position with the risk of uncertain demand, without giving figures.' },
+};
+
+// Fairness preferences selectable for the AI, with parameters in the range Fehr and Schmidt (1999) estimate.
+export const INEQUITY_AVERSION_PRESETS: Record<string, { label: string; inequityAversion?: InequityAversion }> = {
+  selfish: { label: 'Self-interested' },
+  mild: { label: 'Mildly fair-minded', inequityAversion: { envy: 0.5, guilt: 0.25 } },
+  strong: { label: 'Strongly fair-minded', inequityAversion: { envy: 1, guilt: 0.45 } },
+  envious: { label: 'Envious', inequityAversion: { envy: 1, guilt: 0 } },
+};
+
+export const END_REASON_LABELS: Record<EndReason, string> = {
+  'accepted': 'Deal',
+  'walked-away': 'Participant walked away',
+  'ai-walked-away': 'AI walked away',
+  'time-limit': 'Time ran out',
 };
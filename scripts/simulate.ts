@@ -0,0 +1,111 @@
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { parseExperimentConfig } from '../services/experiment';
+import { createLlmProvider, readLlmConfig, setLlmProvider, type LlmProviderName } from '../services/llmProvider';
+import { BOT_KINDS, runSimulation, runsToCsv, runsToJson, summariseRuns, type BotKind, type SimulationConfig } from '../services/simulation';
+
+/**
+ * Bot-vs-bot simulation: `npm run simulate -- --runs 100 --strategy boulware --format json --out results.json`.
+ * The AI is set up like an experiment treatment; see the README for the options.
+ */
+
+const USAGE = `Usage: npm run simulate -- [options]
+  --runs <n>              Parameter draws, each played by every bot (default 50)
+  --bots <list>           Comma-separated bots: ${BOT_KINDS.join(', ')} (default all)
+  --seed <text>           Seed of the parameter draws and the random bot (default "simulation")
+  --max-turns <n>         Offers a bot may make before it accepts or walks away (default 10)
+  --ai-role <role>        supplier or retailer (default retailer)
+  --strategy <key>        The AI's concession strategy (default nash-anchored)
+  --fairness <key>        The AI's inequity aversion preset (default selfish)
+  --contract <key>        Contract preset (default wholesale)
+  --demand <key>          Demand preset (default uniform)
+  --information <mode>    full or private (default full)
+  --retailer-weight <x>   Retailer's bargaining power (default 0.5)
+  --provider <name>       LLM provider for phrasing: mock, gemini or openai-compatible (default mock)
+  --format <csv|json>     Output format (default csv)
+  --out <file>            Write the results here instead of to stdout`;
+
+function fail(message: string): never {
+    console.error(`${message}\n\n${USAGE}`);
+    process.exit(1);
+}
+
+const { values } = parseArgs({
+    options: {
+        'runs': { type: 'string', default: '50' },
+        'bots': { type: 'string', default: BOT_KINDS.join(',') },
+        'seed': { type: 'string', default: 'simulation' },
+        'max-turns': { type: 'string', default: '10' },
+        'ai-role': { type: 'string', default: 'retailer' },
+        'strategy': { type: 'string' },
+        'fairness': { type: 'string' },
+        'contract': { type: 'string', default: 'wholesale' },
+        'demand': { type: 'string', default: 'uniform' },
+        'information': { type: 'string', default: 'full' },
+        'retailer-weight': { type: 'string', default: '0.5' },
+        'provider': { type: 'string', default: 'mock' },
+        'format': { type: 'string', default: 'csv' },
+        'out': { type: 'string' },
+        'help': { type: 'boolean', default: false },
+    },
+});
+
+if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+
+const runs = Number(values.runs);
+const maxTurns = Number(values['max-turns']);
+if (!Number.isInteger(runs) || runs < 1) fail('--runs must be a positive whole number.');
+if (!Number.isInteger(maxTurns) || maxTurns < 1) fail('--max-turns must be a positive whole number.');
+const bots = values.bots!.split(',').map(bot => bot.trim()) as BotKind[];
+const unknownBot = bots.find(bot => !BOT_KINDS.includes(bot));
+if (unknownBot) fail(`Unknown bot "${unknownBot}".`);
+if (values.format !== 'csv' && values.format !== 'json') fail('--format must be csv or json.');
+
+// The AI's setup goes through the experiment configuration checks.
+let config: SimulationConfig;
+try {
+    const experiment = parseExperimentConfig(JSON.stringify({
+        id: 'simulation',
+        seed: values.seed,
+        treatments: [{
+            id: 'simulation',
+            aiRole: values['ai-role'],
+            information: values.information,
+            contract: values.contract,
+            demand: values.demand,
+            retailerWeight: Number(values['retailer-weight']),
+            strategy: values.strategy,
+            inequityAversion: values.fairness,
+        }],
+    }));
+    config = { seed: experiment.seed, runs, bots, maxTurns, treatment: experiment.treatments[0] };
+} catch (error) {
+    fail((error as Error).message);
+}
+
+setLlmProvider(createLlmProvider({ ...readLlmConfig(), provider: values.provider as LlmProviderName }));
+
+const showProgress = process.stderr.isTTY;
+const results = await runSimulation(config, run => {
+    if (showProgress) process.stderr.write(`\r${run.bot} run ${run.run + 1}/${runs}   `);
+});
+if (showProgress) process.stderr.write('\n');
+
+const output = values.format === 'json' ? runsToJson(config, results) : runsToCsv(results);
+if (values.out) {
+    writeFileSync(values.out, output);
+    console.error(`Wrote ${results.length} negotiations to ${values.out}.`);
+} else {
+    console.log(output);
+}
+
+const percent = (value: number | undefined) => (value === undefined ? '-' : `${(value * 100).toFixed(1)}%`);
+const number = (value: number | undefined) => (value === undefined ? '-' : value.toFixed(2));
+console.error(['bot', 'runs', 'agreement', 'efficiency', 'ai share', 'ai profit', 'bot profit', 'turns'].map(h => h.padEnd(13)).join(''));
+for (const s of summariseRuns(results)) {
+    console.error([s.bot, String(s.runs), percent(s.agreementRate), percent(s.meanEfficiency), percent(s.meanAiShare),
+        number(s.meanAiProfit), number(s.meanBotProfit), number(s.meanTurnsToAgreement)].map(v => v.padEnd(13)).join(''));
+}
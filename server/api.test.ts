@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { NegotiationParams } from '../types';
+import { createApiHandler, createRateLimiter, type RequestLogEntry } from './api';
+import { MAX_CHAT_MESSAGES, MAX_TEXT_LENGTH } from './requestChecks';
+import { API_ROUTES, SESSION_HEADER, type RespondEvent, type RespondRequest } from '../services/aiApi';
+import { setLlmProvider } from '../services/llmProvider';
+import { LlmRequestError } from '../services/llmErrors';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { nashBargainingSolution } from '../services/negotiationService';
+import { DEFAULT_STRATEGY } from '../services/concessionStrategy';
+import { CONTRACT_PRESETS, DEMAND_PRESETS, INITIAL_PARAMS, SYMMETRIC_BARGAINING } from '../constants';
+
+const params: NegotiationParams = {
+    ...INITIAL_PARAMS,
+    c: 3,
+    p: 10,
+    demand: DEMAND_PRESETS.uniform.demand,
+    bargaining: SYMMETRIC_BARGAINING,
+    contract: CONTRACT_PRESETS.wholesale.terms,
+    limits: {},
+    strategy: DEFAULT_STRATEGY,
+};
+
+const respondBody: RespondRequest = {
+    chatHistory: [{ id: 1, sender: 'user', text: 'Hello, nice to meet you.' }],
+    params,
+    nash: nashBargainingSolution(params),
+    lastUserOffer: {},
+};
+
+const post = (path: string, body: unknown, sessionId: string | null = 'session-1') => new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: sessionId ? { [SESSION_HEADER]: sessionId } : {},
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+});
+
+const events = async (response: Response): Promise<RespondEvent[]> =>
+    (await response.text()).split('\n').filter(line => line).map(line => JSON.parse(line));
+
+afterEach(() => {
+    setLlmProvider(createMockProvider());
+});
+
+describe('createRateLimiter', () => {
+    it('allows a number of requests per window and session', () => {
+        const wait = createRateLimiter({ maxRequests: 2, windowMs: 1000 });
+        expect([wait('a', 0), wait('a', 100), wait('a', 200)]).toEqual([0, 0, 800]);
+        expect(wait('b', 200)).toBe(0);
+        expect(wait('a', 1001)).toBe(0);
+    });
+});
+
+describe('createApiHandler', () => {
+    it('streams the reply text and ends with the reply', async () => {
+        setLlmProvider(createMockProvider({ chunkDelayMs: 0 }));
+        const log: RequestLogEntry[] = [];
+        const response = await createApiHandler({ log: entry => log.push(entry) })(post(API_ROUTES.respond, respondBody));
+        expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+
+        const received = await events(response);
+        const last = received[received.length - 1];
+        expect(last.type).toBe('response');
+        const reply = last.type === 'response' ? last.response.text : '';
+        expect(received.filter(event => event.type === 'text').pop()).toEqual({ type: 'text', text: reply });
+        expect(log).toMatchObject([{ method: 'POST', path: API_ROUTES.respond, sessionId: 'session-1', status: 200, outcome: 'ask' }]);
+    });
+
+    it('reports a failed reply as an error event, with the failures before it', async () => {
+        setLlmProvider({ name: 'mock', generate: async () => { throw new LlmRequestError('API key not valid'); } });
+        const received = await events(await createApiHandler({ log: () => {} })(post(API_ROUTES.respond, respondBody)));
+        expect(received.map(event => event.type)).toEqual(['failure', 'error']);
+        expect(received[1]).toEqual({ type: 'error', error: { kind: 'rejected', message: 'API key not valid' } });
+    });
+
+    it('reads offers', async () => {
+        const response = await createApiHandler({ log: () => {} })(post(API_ROUTES.parseOffer, { text: 'I propose w=7 and q=60.' }));
+        expect(await response.json()).toEqual({ offer: { w: 7, q: 60 }, failures: [] });
+    });
+
+    it('rate limits each session', async () => {
+        const handle = createApiHandler({ rateLimit: { maxRequests: 1, windowMs: 60_000 }, log: () => {} });
+        expect((await handle(post(API_ROUTES.parseOffer, { text: 'q=60' }))).status).toBe(200);
+        const limited = await handle(post(API_ROUTES.parseOffer, { text: 'q=60' }));
+        expect(limited.status).toBe(429);
+        expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+        expect((await limited.json()).error.kind).toBe('rate-limit');
+        expect((await handle(post(API_ROUTES.parseOffer, { text: 'q=60' }, 'session-2'))).status).toBe(200);
+    });
+
+    it('rate limits each address, whatever session ids it sends', async () => {
+        const handle = createApiHandler({ addressRateLimit: { maxRequests: 2, windowMs: 60_000 }, log: () => {} });
+        expect((await handle(post(API_ROUTES.parseOffer, { text: 'q=60' }, 'fresh-1'), '203.0.113.7')).status).toBe(200);
+        expect((await handle(post(API_ROUTES.parseOffer, { text: 'q=60' }, 'fresh-2'), '203.0.113.7')).status).toBe(200);
+        const limited = await handle(post(API_ROUTES.parseOffer, { text: 'q=60' }, 'fresh-3'), '203.0.113.7');
+        expect(limited.status).toBe(429);
+        expect((await limited.json()).error.kind).toBe('rate-limit');
+        expect((await handle(post(API_ROUTES.parseOffer, { text: 'q=60' }, 'fresh-4'), '198.51.100.2')).status).toBe(200);
+    });
+
+    it('refuses malformed requests', async () => {
+        const handle = createApiHandler({ log: () => {} });
+        expect((await handle(post(API_ROUTES.parseOffer, { text: 'q=60' }, null))).status).toBe(400);
+        expect((await handle(post(API_ROUTES.parseOffer, 'not json'))).status).toBe(400);
+        expect((await handle(post(API_ROUTES.respond, { chatHistory: [] }))).status).toBe(400);
+        expect((await handle(post('/api/unknown', {}))).status).toBe(404);
+        expect((await handle(new Request(`http://localhost${API_ROUTES.respond}`))).status).toBe(405);
+    });
+
+    it('refuses reply requests that are too long or whose fields do not check out', async () => {
+        const handle = createApiHandler({ log: () => {} });
+        const status = async (body: unknown) => (await handle(post(API_ROUTES.respond, body))).status;
+        const message = respondBody.chatHistory[0];
+        expect(await status({ ...respondBody, chatHistory: Array.from({ length: MAX_CHAT_MESSAGES + 1 }, (_, i) => ({ ...message, id: i })) })).toBe(400);
+        expect(await status({ ...respondBody, chatHistory: [{ ...message, text: 'x'.repeat(MAX_TEXT_LENGTH + 1) }] })).toBe(400);
+        expect(await status({ ...respondBody, params: { ...params, demand: { type: 'normal', mean: 100, sd: -5 } } })).toBe(400);
+        expect(await status({ ...respondBody, params: { ...params, contract: { type: 'buyback', b: 'lots' } } })).toBe(400);
+        expect(await status({ ...respondBody, params: { ...params, aiRole: 'judge' } })).toBe(400);
+        expect(await status({ ...respondBody, offline: 'yes' })).toBe(400);
+        expect(await status({ ...respondBody, offline: true })).toBe(200);
+    });
+});
@@ -0,0 +1,171 @@
+import type { LlmFailure } from '../types';
+import { getAiResponse, parseOffer } from '../services/geminiService';
+import { LlmRateLimitError, LlmRequestError, toLlmError, type LlmError } from '../services/llmErrors';
+import { API_ROUTES, SESSION_HEADER, type ApiError, type ParseOfferResponse, type RespondEvent, type RespondRequest } from '../services/aiApi';
+import { checkParseOfferRequest, checkRespondRequest } from './requestChecks';
+
+/**
+ * Request handling of the API server, on web-standard Request and Response so it runs the same under
+ * node:http (server/index.ts) and in the tests. It wraps geminiService: the model, its API key and the
+ * agent policy all stay on the server.
+ */
+
+export interface RequestLogEntry {
+    at: string; // ISO time the request came in
+    method: string;
+    path: string;
+    sessionId?: string;
+    clientAddress?: string;
+    status: number;
+    durationMs: number; // Until the response, or for a streamed reply until its end
+    outcome?: string; // The AI's action for a reply, 'aborted', or the kind of error
+}
+
+export interface RateLimit {
+    maxRequests: number;
+    windowMs: number;
+}
+
+export interface ApiServerOptions {
+    rateLimit?: RateLimit; // Per session
+    addressRateLimit?: RateLimit; // Per client address, whatever session ids it sends
+    log?: (entry: RequestLogEntry) => void; // Defaults to a JSON line on stdout
+}
+
+// A turn takes one or two requests (reading the offer, then the reply), so this leaves room for retries.
+export const DEFAULT_RATE_LIMIT: RateLimit = { maxRequests: 60, windowMs: 60_000 };
+
+// Session ids are chosen by the client, so a fresh id per request would escape the session limit; the address
+// cannot be changed as easily. It leaves room for a lab of participants behind one address.
+export const DEFAULT_ADDRESS_RATE_LIMIT: RateLimit = { maxRequests: 300, windowMs: 60_000 };
+
+// Past this many, sessions without recent requests are forgotten.
+const MAX_TRACKED_SESSIONS = 1000;
+
+/**
+ * A sliding-window rate limit per key. Returns how long the caller has to wait, or 0 when the request may go ahead.
+ */
+export function createRateLimiter({ maxRequests, windowMs }: RateLimit): (key: string, now?: number) => number {
+    const requests = new Map<string, number[]>();
+    return (key, now = Date.now()) => {
+        if (requests.size > MAX_TRACKED_SESSIONS) {
+            for (const [tracked, times] of requests) {
+                if (times[times.length - 1] <= now - windowMs) {
+                    requests.delete(tracked);
+                }
+            }
+        }
+        const recent = (requests.get(key) ?? []).filter(at => at > now - windowMs);
+        requests.set(key, recent);
+        if (recent.length >= maxRequests) {
+            return recent[0] + windowMs - now;
+        }
+        recent.push(now);
+        return 0;
+    };
+}
+
+const apiError = (error: LlmError): ApiError => ({
+    kind: error.kind,
+    message: error.message,
+    retryAfterMs: error instanceof LlmRateLimitError ? error.retryAfterMs : undefined,
+});
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+/**
+ * Streams the AI's reply as newline-delimited RespondEvents. A client that goes away aborts the reply.
+ */
+function respond(body: RespondRequest, signal: AbortSignal, done: (outcome: string) => void): Response {
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: RespondEvent) => {
+                if (!cancelled && !signal.aborted) {
+                    controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+                }
+            };
+            const { chatHistory, params, nash, lastUserOffer, belief, pastRounds, unacceptableStreak, offline, fallbackOnFailure } = body;
+            try {
+                const response = await getAiResponse(chatHistory, params, nash, lastUserOffer, {
+                    belief, pastRounds, unacceptableStreak, offline, fallbackOnFailure, signal,
+                    onText: text => send({ type: 'text', text }),
+                    onFailure: failure => send({ type: 'failure', failure }),
+                });
+                send({ type: 'response', response });
+                done(response.action ?? 'reply');
+            } catch (error) {
+                const llmError = toLlmError(error);
+                send({ type: 'error', error: apiError(llmError) });
+                done(signal.aborted || cancelled ? 'aborted' : llmError.kind);
+            }
+            if (!cancelled) {
+                controller.close();
+            }
+        },
+        cancel() {
+            cancelled = true;
+        },
+    });
+    return new Response(stream, { headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' } });
+}
+
+/**
+ * Handles POST /api/respond and /api/parse-offer. Every request needs the session header. Requests are rate limited
+ * per session and, when the caller passes the client's address, per address.
+ */
+export function createApiHandler(options: ApiServerOptions = {}): (request: Request, clientAddress?: string) => Promise<Response> {
+    const wait = createRateLimiter(options.rateLimit ?? DEFAULT_RATE_LIMIT);
+    const waitForAddress = createRateLimiter(options.addressRateLimit ?? DEFAULT_ADDRESS_RATE_LIMIT);
+    const log = options.log ?? (entry => console.log(JSON.stringify(entry)));
+
+    return async (request, clientAddress) => {
+        const startedAt = Date.now();
+        const path = new URL(request.url).pathname;
+        const sessionId = request.headers.get(SESSION_HEADER) || undefined;
+        const record = (status: number, outcome?: string) => log({
+            at: new Date(startedAt).toISOString(), method: request.method, path, sessionId, clientAddress, status, durationMs: Date.now() - startedAt, outcome,
+        });
+        const fail = (status: number, error: ApiError) => {
+            record(status, error.kind);
+            const headers: Record<string, string> = error.retryAfterMs === undefined ? {} : { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) };
+            return json(status, { error }, headers);
+        };
+
+        if (path !== API_ROUTES.respond && path !== API_ROUTES.parseOffer) {
+            return fail(404, { kind: 'rejected', message: `There is no API route ${path}.` });
+        }
+        if (request.method !== 'POST') {
+            return fail(405, { kind: 'rejected', message: `${path} only accepts POST.` });
+        }
+        if (!sessionId) {
+            return fail(400, { kind: 'rejected', message: `The ${SESSION_HEADER} header is missing.` });
+        }
+        const addressRetryAfterMs = clientAddress ? waitForAddress(clientAddress) : 0;
+        if (addressRetryAfterMs > 0) {
+            return fail(429, { kind: 'rate-limit', message: 'Too many requests from this address. Wait a moment and try again.', retryAfterMs: addressRetryAfterMs });
+        }
+        const retryAfterMs = wait(sessionId);
+        if (retryAfterMs > 0) {
+            return fail(429, { kind: 'rate-limit', message: 'Too many requests in this session. Wait a moment and try again.', retryAfterMs });
+        }
+
+        try {
+            const body: unknown = await request.json().catch(() => {
+                throw new LlmRequestError('The request body is not valid JSON.');
+            });
+            if (path === API_ROUTES.respond) {
+                return respond(checkRespondRequest(body), request.signal, outcome => record(200, outcome));
+            }
+            const failures: LlmFailure[] = [];
+            const offer = await parseOffer(checkParseOfferRequest(body).text, { signal: request.signal, onFailure: failure => failures.push(failure) });
+            record(200);
+            return json(200, { offer, failures } satisfies ParseOfferResponse);
+        } catch (error) {
+            const llmError = toLlmError(error);
+            return fail(llmError instanceof LlmRequestError ? 400 : 502, apiError(llmError));
+        }
+    };
+}
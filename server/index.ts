@@ -0,0 +1,177 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { existsSync, statSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { extname, join, resolve, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createApiHandler, DEFAULT_ADDRESS_RATE_LIMIT, DEFAULT_RATE_LIMIT } from './api';
+import { createLlmProvider, getLlmProvider, readLlmConfig, setLlmProvider, type LlmProviderName } from '../services/llmProvider';
+
+/**
+ * The API server: `npm run server` (`npm run server -- --provider mock` to work offline).
+ * The model settings and the API key come from .env.local or the shell. Once `npm run build` has run,
+ * the server also serves the app from dist/, so a deployment needs nothing else.
+ */
+
+const USAGE = `Usage: npm run server -- [options]
+  --port <n>          Port to listen on (default PORT or 8787)
+  --provider <name>   LLM provider: mock, gemini or openai-compatible (default LLM_PROVIDER, else gemini with a key, else mock)
+  --rate-limit <n>    Requests per session and minute (default ${DEFAULT_RATE_LIMIT.maxRequests})
+  --address-rate-limit <n>
+                      Requests per client address and minute (default ${DEFAULT_ADDRESS_RATE_LIMIT.maxRequests})
+  --trust-proxy       Take the client address from X-Forwarded-For, when behind a reverse proxy
+  --static <dir>      The built app to serve (default dist)`;
+
+const MAX_BODY_BYTES = 1_000_000;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+};
+
+function fail(message: string): never {
+    console.error(`${message}\n\n${USAGE}`);
+    process.exit(1);
+}
+
+const { values } = parseArgs({
+    options: {
+        'port': { type: 'string', default: process.env.PORT || '8787' },
+        'provider': { type: 'string' },
+        'rate-limit': { type: 'string', default: String(DEFAULT_RATE_LIMIT.maxRequests) },
+        'address-rate-limit': { type: 'string', default: String(DEFAULT_ADDRESS_RATE_LIMIT.maxRequests) },
+        'trust-proxy': { type: 'boolean', default: false },
+        'static': { type: 'string', default: 'dist' },
+        'help': { type: 'boolean', default: false },
+    },
+});
+
+if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+
+const port = Number(values.port);
+const maxRequests = Number(values['rate-limit']);
+const maxAddressRequests = Number(values['address-rate-limit']);
+if (!Number.isInteger(port) || port < 1) fail('--port must be a positive whole number.');
+if (!Number.isInteger(maxRequests) || maxRequests < 1) fail('--rate-limit must be a positive whole number.');
+if (!Number.isInteger(maxAddressRequests) || maxAddressRequests < 1) fail('--address-rate-limit must be a positive whole number.');
+
+if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+}
+const llmConfig = readLlmConfig();
+setLlmProvider(createLlmProvider({ ...llmConfig, provider: (values.provider as LlmProviderName | undefined) ?? llmConfig.provider }));
+
+const handleApi = createApiHandler({
+    rateLimit: { ...DEFAULT_RATE_LIMIT, maxRequests },
+    addressRateLimit: { ...DEFAULT_ADDRESS_RATE_LIMIT, maxRequests: maxAddressRequests },
+});
+const staticRoot = resolve(values.static!);
+
+async function readBody(req: IncomingMessage): Promise<string | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            return null;
+        }
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * The address the request came from. Behind a reverse proxy every request comes from the proxy, which names the
+ * client first in X-Forwarded-For; without --trust-proxy that header is ignored, as any client could send it.
+ */
+function clientAddress(req: IncomingMessage): string | undefined {
+    const forwardedFor = req.headers['x-forwarded-for'];
+    if (values['trust-proxy'] && typeof forwardedFor === 'string') {
+        return forwardedFor.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress;
+}
+
+/**
+ * Passes a node:http request to the API handler and writes back its response, streaming included.
+ * The client closing the connection aborts the request.
+ */
+async function serveApi(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = await readBody(req);
+    if (body === null) {
+        res.writeHead(413).end();
+        return;
+    }
+    const connection = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) {
+            connection.abort();
+        }
+    });
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+        if (typeof value === 'string') {
+            headers.set(name, value);
+        }
+    }
+    const response = await handleApi(new Request(new URL(req.url ?? '/', 'http://localhost'), {
+        method: req.method,
+        headers,
+        body: req.method === 'GET' || req.method === 'HEAD' ? undefined : body,
+        signal: connection.signal,
+    }), clientAddress(req));
+
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    if (response.body) {
+        const reader = response.body.getReader();
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            res.write(value);
+        }
+    }
+    res.end();
+}
+
+/**
+ * Serves the built app; paths that are not files get index.html, the app being a single page.
+ */
+async function serveStatic(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!existsSync(staticRoot)) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('The app has not been built. Run npm run build, or use npm run dev during development.');
+        return;
+    }
+    let file = join(staticRoot, decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname));
+    if (!file.startsWith(staticRoot + sep)) {
+        file = staticRoot;
+    }
+    if (!existsSync(file) || statSync(file).isDirectory()) {
+        file = join(staticRoot, 'index.html');
+    }
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] ?? 'application/octet-stream' });
+    res.end(await readFile(file));
+}
+
+const server = createServer((req, res) => {
+    const serve = req.url?.startsWith('/api/') ? serveApi : serveStatic;
+    serve(req, res).catch(error => {
+        console.error('Request failed:', error);
+        if (!res.headersSent) {
+            res.writeHead(500);
+        }
+        res.end();
+    });
+});
+
+server.listen(port, () => {
+    console.error(`API server on http://localhost:${port}, using the ${getLlmProvider().name} provider.`);
+});
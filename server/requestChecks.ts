@@ -0,0 +1,156 @@
+import type { Belief, Message, NegotiationParams } from '../types';
+import type { RoundResult } from '../services/roundManager';
+import type { ParseOfferRequest, RespondRequest } from '../services/aiApi';
+import { LlmRequestError } from '../services/llmErrors';
+import { InvalidRecordError, invalid, readMessage, readNash, readOffer, readParams, readPartialOffer } from '../services/recordChecks';
+
+/**
+ * Checks of the API's request bodies. What a client sends ends up in the prompts to the paid model and in the
+ * negotiation maths, so sizes are capped and each field is checked and copied instead of passed on as sent.
+ * A failed check throws an LlmRequestError, which the server answers with 400.
+ */
+
+// Longer messages are not read by the model.
+export const MAX_TEXT_LENGTH = 4000;
+
+// Far more than a negotiation needs; longer chats are refused rather than sent to the model.
+export const MAX_CHAT_MESSAGES = 100;
+export const MAX_CHAT_LENGTH = 30_000; // Characters over all messages
+
+const MAX_PERSONA_LENGTH = 500;
+const MAX_PAST_ROUNDS = 100;
+const MAX_BELIEF_VALUES = 100;
+
+const OUTCOMES: RoundResult['outcome'][] = ['agreement', 'disagreement', 'open'];
+const END_REASONS: NonNullable<RoundResult['endReason']>[] = ['accepted', 'walked-away', 'ai-walked-away', 'time-limit'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+// The persona goes into every prompt, so its length is capped on top of what the record readers check.
+function checkParams(value: unknown, field: string): NegotiationParams {
+    const params = readParams(value, field);
+    if (params.persona !== undefined && params.persona.length > MAX_PERSONA_LENGTH) {
+        invalid(`${field}.persona`, `must be text of at most ${MAX_PERSONA_LENGTH} characters.`);
+    }
+    return params;
+}
+
+function checkMessage(value: unknown, field: string): Message {
+    // The prompt behind an AI message is of no use to the server and is left out.
+    const { debugPrompt: _debugPrompt, ...message } = readMessage(value, field);
+    if (message.text.length > MAX_TEXT_LENGTH) {
+        invalid(field, `messages are limited to ${MAX_TEXT_LENGTH} characters.`);
+    }
+    return message;
+}
+
+function checkChatHistory(value: unknown): Message[] {
+    if (!Array.isArray(value) || value.length === 0) {
+        invalid('chatHistory', 'a reply needs at least one message.');
+    }
+    if (value.length > MAX_CHAT_MESSAGES) {
+        invalid('chatHistory', `a negotiation is limited to ${MAX_CHAT_MESSAGES} messages.`);
+    }
+    const messages = value.map((message, i) => checkMessage(message, `chatHistory[${i}]`));
+    if (messages.reduce((length, message) => length + message.text.length, 0) > MAX_CHAT_LENGTH) {
+        invalid('chatHistory', `a negotiation is limited to ${MAX_CHAT_LENGTH} characters of messages.`);
+    }
+    return messages;
+}
+
+function checkBelief(value: unknown): Belief {
+    if (!isObject(value) || (value.parameter !== 'c' && value.parameter !== 'p')
+        || !Array.isArray(value.values) || value.values.length === 0 || value.values.length > MAX_BELIEF_VALUES || !value.values.every(isNumber)
+        || !Array.isArray(value.probabilities) || value.probabilities.length !== value.values.length
+        || !value.probabilities.every(probability => isNumber(probability) && probability >= 0)) {
+        invalid('belief');
+    }
+    return { parameter: value.parameter, values: value.values, probabilities: value.probabilities };
+}
+
+function checkPastRound(value: unknown, field: string): RoundResult {
+    if (!isObject(value) || !isCount(value.round) || !isOneOf(OUTCOMES, value.outcome) || !isNumber(value.userProfit)
+        || !isCount(value.userOfferCount) || !isCount(value.messageCount)) {
+        invalid(field);
+    }
+    // Only what the AI is told about earlier rounds is kept.
+    const result: RoundResult = {
+        round: value.round,
+        params: checkParams(value.params, `${field}.params`),
+        outcome: value.outcome,
+        userProfit: value.userProfit,
+        userOfferCount: value.userOfferCount,
+        messageCount: value.messageCount,
+    };
+    if (value.endReason !== undefined) {
+        result.endReason = isOneOf(END_REASONS, value.endReason) ? value.endReason : invalid(`${field}.endReason`);
+    }
+    if (value.finalOffer !== undefined) {
+        result.finalOffer = readOffer(value.finalOffer, `${field}.finalOffer`);
+    }
+    if (value.firstUserOffer !== undefined) {
+        result.firstUserOffer = readPartialOffer(value.firstUserOffer, `${field}.firstUserOffer`);
+    }
+    return result;
+}
+
+function checkFlag(value: unknown, field: string): boolean | undefined {
+    if (value !== undefined && typeof value !== 'boolean') {
+        invalid(field, 'must be true or false.');
+    }
+    return value as boolean | undefined;
+}
+
+function readRespondRequest(body: unknown): RespondRequest {
+    if (!isObject(body)) {
+        invalid('request', 'a reply needs the chat history, the negotiation parameters, the Nash solution and the last offer.');
+    }
+    const { chatHistory, params, nash, lastUserOffer, belief, pastRounds, unacceptableStreak, offline, fallbackOnFailure } = body;
+    const request: RespondRequest = {
+        chatHistory: checkChatHistory(chatHistory),
+        params: checkParams(params, 'params'),
+        nash: readNash(nash, 'nash'),
+        lastUserOffer: readPartialOffer(lastUserOffer, 'lastUserOffer'),
+        // Both only ever spare the model a call: offline phrases the move with its template, and
+        // fallbackOnFailure does so instead of failing when the model is unavailable.
+        offline: checkFlag(offline, 'offline'),
+        fallbackOnFailure: checkFlag(fallbackOnFailure, 'fallbackOnFailure'),
+    };
+    if (belief !== undefined) {
+        request.belief = checkBelief(belief);
+    }
+    if (pastRounds !== undefined) {
+        if (!Array.isArray(pastRounds) || pastRounds.length > MAX_PAST_ROUNDS) {
+            invalid('pastRounds', `must be a list of at most ${MAX_PAST_ROUNDS} rounds.`);
+        }
+        request.pastRounds = pastRounds.map((round, i) => checkPastRound(round, `pastRounds[${i}]`));
+    }
+    if (unacceptableStreak !== undefined) {
+        request.unacceptableStreak = isCount(unacceptableStreak) ? unacceptableStreak : invalid('unacceptableStreak');
+    }
+    return request;
+}
+
+export function checkRespondRequest(body: unknown): RespondRequest {
+    try {
+        return readRespondRequest(body);
+    } catch (error) {
+        throw error instanceof InvalidRecordError ? new LlmRequestError(error.message, { cause: error }) : error;
+    }
+}
+
+export function checkParseOfferRequest(body: unknown): ParseOfferRequest {
+    if (!isObject(body) || typeof body.text !== 'string') {
+        throw new LlmRequestError('The message text is missing.');
+    }
+    if (body.text.length > MAX_TEXT_LENGTH) {
+        throw new LlmRequestError(`Messages are limited to ${MAX_TEXT_LENGTH} characters.`);
+    }
+    return { text: body.text };
+}
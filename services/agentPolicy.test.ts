@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { NegotiationParams } from '../types';
+import { classifyIntent, confirmUnlessBinding, decideAgentMove, nashTargetProfit, walkAwayIfExhausted } from './agentPolicy';
+import { calculateOfferProfits, calculateProfits, nashBargainingSolution } from './negotiationService';
+import { INITIAL_PARAMS } from '../constants';
+
+const retailerParams: NegotiationParams = { ...INITIAL_PARAMS, c: 4, p: 11 };
+const supplierParams: NegotiationParams = { ...retailerParams, aiRole: 'supplier' };
+
+describe.each([
+    ['retailer', retailerParams],
+    ['supplier', supplierParams],
+] as const)('decideAgentMove for the %s', (role, params) => {
+    const nash = nashBargainingSolution(params);
+    const target = nashTargetProfit(role, nash);
+    const ownProfit = (w: number, q: number) => {
+        const profits = calculateProfits(w, q, params);
+        return role === 'supplier' ? profits.supplier_profit : profits.retailer_profit;
+    };
+
+    it('accepts a full offer that meets the target (scenario 1)', () => {
+        const move = decideAgentMove({ w: nash.wholesale_price, q: nash.order_quantity }, 'other', params, nash);
+        expect(move).toMatchObject({ scenario: 1, kind: 'accept', action: 'accept' });
+    });
+
+    it('counters a full offer below the target with a price for the same quantity (scenario 1)', () => {
+        const w = role === 'supplier' ? nash.wholesale_price - 1 : nash.wholesale_price + 1;
+        const move = decideAgentMove({ w, q: 60 }, 'other', params, nash);
+        expect(move).toMatchObject({ scenario: 1, kind: 'counter-w', action: 'counter' });
+        expect(move.offer!.q).toBe(60);
+        expect(ownProfit(move.offer!.w, 60)).toBeCloseTo(target, 0);
+    });
+
+    it('rejects a full offer whose quantity cannot reach the target, re-proposing the Nash terms (scenario 1)', () => {
+        const move = decideAgentMove({ w: 6, q: 1 }, 'other', params, nash);
+        expect(move).toMatchObject({ scenario: 1, kind: 'reject-propose-nash', action: 'reject', unacceptable: true });
+        expect(move.offer).toMatchObject({ q: nash.order_quantity });
+    });
+
+    it('completes a price-only offer with a quantity (scenario 2)', () => {
+        const w = nash.wholesale_price;
+        const move = decideAgentMove({ w }, 'other', params, nash);
+        expect(move).toMatchObject({ scenario: 2, kind: 'counter-q' });
+        expect(move.offer!.w).toBe(w);
+        expect(ownProfit(w, move.offer!.q)).toBeGreaterThan(target - 10);
+    });
+
+    it('prices a quantity-only offer (scenario 3)', () => {
+        const move = decideAgentMove({ q: 50 }, 'other', params, nash);
+        expect(move).toMatchObject({ scenario: 3, kind: 'counter-w' });
+        expect(ownProfit(move.offer!.w, 50)).toBeCloseTo(target, 0);
+    });
+
+    it('answers a message without an offer (scenario 4)', () => {
+        expect(decideAgentMove({}, 'other', params, nash)).toMatchObject({ scenario: 4, kind: 'ask-for-proposal', action: 'ask' });
+        expect(decideAgentMove({}, 'ask-offer', params, nash)).toMatchObject({ scenario: 4, kind: 'propose-nash', offer: { q: nash.order_quantity } });
+    });
+
+    it('treats offers of zero or less as absent', () => {
+        expect(decideAgentMove({ w: 0, q: -5 }, 'other', params, nash).scenario).toBe(4);
+    });
+
+    it('prices its counter-offers for a lower target when conceding', () => {
+        const conceded = decideAgentMove({ q: 50 }, 'other', params, nash, target - 20);
+        const anchored = decideAgentMove({ q: 50 }, 'other', params, nash);
+        const ownOf = (offer = conceded.offer!) => (role === 'supplier' ? calculateOfferProfits(offer, params).supplier_profit : calculateOfferProfits(offer, params).retailer_profit);
+        expect(ownOf(conceded.offer)).toBeLessThan(ownOf(anchored.offer));
+    });
+});
+
+describe('move adjustments', () => {
+    const nash = nashBargainingSolution(retailerParams);
+    const accept = decideAgentMove({ w: nash.wholesale_price, q: nash.order_quantity }, 'other', retailerParams, nash);
+
+    it('proposes a text-only offer back instead of accepting it', () => {
+        expect(confirmUnlessBinding(accept, true).kind).toBe('accept');
+        expect(confirmUnlessBinding(accept, false)).toMatchObject({ kind: 'confirm', action: 'counter', offer: accept.offer });
+    });
+
+    it('walks away once the unacceptable offers reach the limit', () => {
+        const reject = decideAgentMove({ w: 6, q: 1 }, 'other', retailerParams, nash);
+        const limited = { ...retailerParams, limits: { aiWalkAwayAfter: 2 } };
+        expect(walkAwayIfExhausted(reject, 0, limited).kind).toBe('reject-propose-nash');
+        expect(walkAwayIfExhausted(reject, 1, limited)).toMatchObject({ kind: 'walk-away', action: 'walk-away', offer: undefined });
+        expect(walkAwayIfExhausted(accept, 5, limited).kind).toBe('accept');
+        expect(walkAwayIfExhausted(reject, 5, retailerParams).kind).toBe('reject-propose-nash');
+    });
+});
+
+describe('classifyIntent', () => {
+    it.each([
+        ['What is the maximum price you would pay?', 'ask-max-price'],
+        ['What is your lowest price?', 'ask-min-price'],
+        ['What is the minimum quantity you would order?', 'ask-min-quantity'],
+        ['Can you make me an offer?', 'ask-offer'],
+        ['Nice weather today.', 'other'],
+    ])('reads "%s" as %s', (text, intent) => {
+        expect(classifyIntent(text)).toBe(intent);
+    });
+});
+
+describe('decideAgentMove under buyback', () => {
+    const params: NegotiationParams = { ...retailerParams, contract: { type: 'buyback', b: 2 } };
+    const nash = nashBargainingSolution(params);
+
+    it('completes a price-only offer at the Nash price with a quantity', () => {
+        const move = decideAgentMove({ w: nash.wholesale_price }, 'other', params, nash);
+        expect(move).toMatchObject({ scenario: 2, kind: 'counter-q' });
+        expect(calculateOfferProfits(move.offer!, params).retailer_profit).toBeGreaterThanOrEqual(nashTargetProfit('retailer', nash) - 1);
+    });
+});
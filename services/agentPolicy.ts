@@ -0,0 +1,326 @@
+import type { AiAction, NashSolution, NegotiationParams, Offer, PartialOffer, Role } from '../types';
+import {
+    breakEvenPrice,
+    calculateProfits,
+    disagreementPayoffs,
+    findQForTargetRetailerProfit,
+    findQForTargetSupplierProfit,
+    findWForTargetRetailerProfit,
+    findWForTargetSupplierProfit,
+    lowestWForTargetSupplierProfit,
+} from './negotiationService';
+import { demandBounds } from './demandDistribution';
+import { findQForTargetUtility, inequityUtility, profitForUtility, roleUtility } from './inequityAversion';
+import { describeContractTerms, describeOfferTerms, formatOfferTerms, mergeContractTerms } from './contracts';
+import { ROLE_LABELS } from '../constants';
+
+/**
+ * What the user is asking for when their message carries no offer (Scenario 4).
+ */
+export type UserIntent = 'ask-max-price' | 'ask-min-price' | 'ask-min-quantity' | 'ask-offer' | 'other';
+
+export type AgentMoveKind =
+    | 'accept'              // Scenario 1, binding offer meets the target: accepting closes the deal
+    | 'confirm'             // Scenario 1, offer stated only in text meets the target: propose it back as a binding offer
+    | 'counter-w'           // Scenario 1/3, keep their q and propose w for the target profit
+    | 'counter-q'           // Scenario 2, keep their w and propose q for the target profit
+    | 'reject-propose-nash' // Scenarios 1-3, target unreachable with their terms
+    | 'propose-nash'        // Scenario 4, user asks for an offer
+    | 'state-max-price'     // Scenario 4 (retailer), highest w we accept, conditional on a large q
+    | 'state-min-price'     // Scenario 4 (supplier), lowest w we accept, at the q it requires
+    | 'state-min-quantity'  // Scenario 4, lowest q we accept, conditional on an extreme w
+    | 'ask-for-proposal'    // Scenario 4, nothing to answer with numbers
+    | 'walk-away';          // Scenarios 1-3, too many unacceptable offers in a row
+
+/**
+ * The AI's decided move. The LLM only phrases it; the offer is what gets attached to the chat.
+ */
+export interface AgentMove {
+    role: Role; // The side the AI plays
+    scenario: 1 | 2 | 3 | 4;
+    kind: AgentMoveKind;
+    action: AiAction;
+    offer?: Offer;
+    userOffer: PartialOffer;
+    targetProfit: number;
+    unacceptable: boolean; // The user's offer is rejected outright or leaves the AI worse off than no deal
+    reason: string; // Internal explanation, shown in the debug panel only.
+}
+
+const ACTION_FOR_KIND: Record<AgentMoveKind, AiAction> = {
+    'accept': 'accept',
+    'confirm': 'counter',
+    'counter-w': 'counter',
+    'counter-q': 'counter',
+    'reject-propose-nash': 'reject',
+    'propose-nash': 'counter',
+    'state-max-price': 'counter',
+    'state-min-price': 'counter',
+    'state-min-quantity': 'counter',
+    'ask-for-proposal': 'ask',
+    'walk-away': 'walk-away',
+};
+
+export const roundPrice = (w: number) => Math.round(w * 100) / 100;
+
+/**
+ * Reads what a message without an offer is asking for, from keywords.
+ */
+export function classifyIntent(text: string): UserIntent {
+    const lower = text.toLowerCase();
+    if (/(max|highest|most|top)/.test(lower) && /(price|pay|\bw\b)/.test(lower)) {
+        return 'ask-max-price';
+    }
+    if (/(min|lowest|least|cheapest|best)/.test(lower) && /(price|charge|\bw\b)/.test(lower)) {
+        return 'ask-min-price';
+    }
+    if (/(min|lowest|least|smallest|fewest)/.test(lower) && /(quantity|units|order|\bq\b)/.test(lower)) {
+        return 'ask-min-quantity';
+    }
+    if (/(offer|propose|proposal|suggest|deal|what do you want)/.test(lower)) {
+        return 'ask-offer';
+    }
+    return 'other';
+}
+
+/**
+ * The AI's own expected profit target under the Nash-anchored strategy: its share of the Nash bargaining solution.
+ */
+export const nashTargetProfit = (role: Role, nash: NashSolution) => (role === 'supplier' ? nash.supplier_profit : nash.retailer_profit);
+
+/**
+ * Decides the AI's response to the user's latest (possibly partial) offer, for the side given by params.aiRole.
+ * Offers with a w or q of zero or less are treated as absent. Secondary contract terms the user
+ * states (e.g. a buyback price) are kept in the counter-offer; missing ones take the session's standard.
+ */
+export function decideAgentMove(
+    userOffer: PartialOffer,
+    intent: UserIntent,
+    params: NegotiationParams,
+    nash: NashSolution,
+    targetProfit: number = nashTargetProfit(params.aiRole, nash),
+): AgentMove {
+    const role = params.aiRole;
+    const isSupplier = role === 'supplier';
+    const { w, q } = userOffer;
+    const hasValidW = w !== undefined && w > 0;
+    const hasValidQ = q !== undefined && q > 0;
+    const terms = mergeContractTerms(params.contract, userOffer);
+
+    // The same four scenarios for either side; only the profit and the solvers differ. An inequity-averse AI
+    // judges offers by its utility, aiming for the utility of earning the target profit at the Nash total.
+    const aversion = params.inequityAversion;
+    const measure = aversion ? 'utility' : 'profit';
+    const target = aversion ? inequityUtility(targetProfit, nash.total_profit - targetProfit, aversion) : targetProfit;
+    const ownValue = (offer: Offer) => {
+        const profits = calculateProfits(offer.w, offer.q, params, terms);
+        if (aversion) {
+            return roleUtility(profits, role, aversion);
+        }
+        return isSupplier ? profits.supplier_profit : profits.retailer_profit;
+    };
+    // Prices only move profit between the sides, so at a given quantity the target is an own profit.
+    const requiredProfit = (atQ: number) => (aversion
+        ? profitForUtility(target, calculateProfits(0, atQ, params, terms).total_profit, aversion)
+        : targetProfit);
+    const findW = (atQ: number) => (isSupplier
+        ? findWForTargetSupplierProfit(atQ, requiredProfit(atQ), params, terms)
+        : findWForTargetRetailerProfit(atQ, requiredProfit(atQ), params, terms));
+    // Our own proposal: the Nash quantity, priced for the target when a concession strategy moves it off the Nash profit.
+    const anchorW = targetProfit === nashTargetProfit(role, nash) ? null : isSupplier
+        ? findWForTargetSupplierProfit(nash.order_quantity, targetProfit, params)
+        : findWForTargetRetailerProfit(nash.order_quantity, targetProfit, params);
+    const nashOffer: Offer = { ...params.contract, w: roundPrice(anchorW ?? nash.wholesale_price), q: nash.order_quantity };
+    const findQ = (atW: number, largest = isSupplier) => {
+        if (aversion) {
+            return findQForTargetUtility(atW, target, role, aversion, params, terms, largest);
+        }
+        return isSupplier
+            ? findQForTargetSupplierProfit(atW, targetProfit, params, terms, largest)
+            : findQForTargetRetailerProfit(atW, targetProfit, params, terms);
+    };
+    const label = ROLE_LABELS[role];
+    const noDeal = disagreementPayoffs(params);
+    const noDealValue = aversion ? roleUtility(noDeal, role, aversion) : isSupplier ? noDeal.supplier_profit : noDeal.retailer_profit;
+
+    const move = (scenario: AgentMove['scenario'], kind: AgentMoveKind, offer: Offer | undefined, reason: string, unacceptable = kind === 'reject-propose-nash'): AgentMove => ({
+        role, scenario, kind, action: ACTION_FOR_KIND[kind], offer, userOffer, targetProfit, unacceptable, reason,
+    });
+
+    // SCENARIO 1: Full Offer (w and q)
+    if (hasValidW && hasValidQ) {
+        const offer: Offer = { ...terms, w: w!, q: q! };
+        const value = ownValue(offer);
+        if (value >= target) {
+            return move(1, 'accept', offer,
+                `The offer is favorable. ${label} ${measure} ${value.toFixed(2)} meets the target ${target.toFixed(2)}.`);
+        }
+        const newW = findW(offer.q);
+        if (newW !== null) {
+            return move(1, 'counter-w', { ...terms, w: roundPrice(newW), q: offer.q },
+                `The offer is unfavorable. ${label} ${measure} ${value.toFixed(2)} is below the target ${target.toFixed(2)}; w=${newW.toFixed(2)} meets it at q=${offer.q}.`,
+                value < noDealValue);
+        }
+        return move(1, 'reject-propose-nash', nashOffer,
+            `The target ${target.toFixed(2)} is unachievable with q=${offer.q}. Re-proposing ${formatOfferTerms(nashOffer)}.`);
+    }
+
+    // SCENARIO 2: Partial Offer (w only)
+    if (hasValidW) {
+        const newQ = findQ(w!);
+        if (newQ !== null) {
+            return move(2, 'counter-q', { ...terms, w: w!, q: newQ },
+                `The target ${target.toFixed(2)} is achievable with w=${w}; it requires q=${newQ}.`);
+        }
+        return move(2, 'reject-propose-nash', nashOffer,
+            `No quantity reaches the target ${target.toFixed(2)} at w=${w}. Re-proposing ${formatOfferTerms(nashOffer)}.`);
+    }
+
+    // SCENARIO 3: Partial Offer (q only)
+    if (hasValidQ) {
+        const newW = findW(q!);
+        if (newW !== null) {
+            return move(3, 'counter-w', { ...terms, w: roundPrice(newW), q: q! },
+                `The target ${target.toFixed(2)} is achievable with q=${q}; it requires w=${newW.toFixed(2)}.`);
+        }
+        return move(3, 'reject-propose-nash', nashOffer,
+            `No wholesale price reaches the target ${target.toFixed(2)} at q=${q}. Re-proposing ${formatOfferTerms(nashOffer)}.`);
+    }
+
+    // SCENARIO 4: No offer
+    if (intent === 'ask-max-price' && !isSupplier) {
+        const qForMaxPrice = Math.round(demandBounds(params.demand).max);
+        const wForMaxPrice = findW(qForMaxPrice);
+        if (wForMaxPrice !== null) {
+            return move(4, 'state-max-price', { ...terms, w: roundPrice(wForMaxPrice), q: qForMaxPrice },
+                `Highest price meeting the target is w=${wForMaxPrice.toFixed(2)}, at the largest quantity q=${qForMaxPrice}.`);
+        }
+    }
+    if (intent === 'ask-min-price' && isSupplier) {
+        const lowest = lowestWForTargetSupplierProfit(requiredProfit, params, terms);
+        if (lowest !== null) {
+            // Round up so the stated price still meets the target.
+            const wForLowest = Math.ceil(lowest.w * 100) / 100;
+            return move(4, 'state-min-price', { ...terms, w: wForLowest, q: lowest.q },
+                `Lowest price meeting the target is w=${lowest.w.toFixed(2)}, at q=${lowest.q}.`);
+        }
+    }
+    if (intent === 'ask-min-quantity') {
+        // The lowest quantity needs the price most favourable to us that the other side can still accept.
+        const wForMinQ = isSupplier
+            ? roundPrice(breakEvenPrice('retailer', params, terms) - 0.01)
+            : roundPrice(breakEvenPrice('supplier', params, terms) + 0.01);
+        const qForMinW = findQ(wForMinQ, false);
+        if (qForMinW !== null) {
+            return move(4, 'state-min-quantity', { ...terms, w: wForMinQ, q: qForMinW },
+                `Lowest quantity meeting the target is q=${qForMinW}, at the ${isSupplier ? 'highest' : 'lowest'} price w=${wForMinQ.toFixed(2)}.`);
+        }
+    }
+    if (intent !== 'other') {
+        return move(4, 'propose-nash', nashOffer, `User asked for an offer. Proposing ${formatOfferTerms(nashOffer)}.`);
+    }
+    return move(4, 'ask-for-proposal', undefined, 'No offer detected. Asking for a specific proposal.');
+}
+
+/**
+ * An offer the user only stated in text is not binding, so instead of accepting it the AI proposes the
+ * same terms as its own binding offer, for the user to accept.
+ */
+export function confirmUnlessBinding(move: AgentMove, isBinding: boolean): AgentMove {
+    if (move.kind !== 'accept' || isBinding) {
+        return move;
+    }
+    return {
+        ...move,
+        kind: 'confirm',
+        action: ACTION_FOR_KIND['confirm'],
+        reason: `${move.reason} The offer was only stated in text, so it is proposed back as a binding offer.`,
+    };
+}
+
+/**
+ * Turns the move into walking away when the user's offer is unacceptable and the previous
+ * `unacceptableStreak` offers were too, reaching the session's limit.
+ */
+export function walkAwayIfExhausted(move: AgentMove, unacceptableStreak: number, params: NegotiationParams): AgentMove {
+    const limit = params.limits?.aiWalkAwayAfter;
+    if (!move.unacceptable || limit === undefined || unacceptableStreak + 1 < limit) {
+        return move;
+    }
+    return {
+        ...move,
+        kind: 'walk-away',
+        action: ACTION_FOR_KIND['walk-away'],
+        offer: undefined,
+        reason: `${move.reason} This is unacceptable offer ${unacceptableStreak + 1} in a row (limit ${limit}); ending the negotiation.`,
+    };
+}
+
+/**
+ * What the LLM is told to say for each move.
+ */
+export function describeMoveInstruction(move: Pick<AgentMove, 'role' | 'kind' | 'offer' | 'userOffer'>): string {
+    const o = move.offer;
+    const extra = o ? describeContractTerms(o) : '';
+    const contractNote = extra ? ` Also state the contract terms: ${extra}.` : '';
+    switch (move.kind) {
+        case 'accept':
+            return `Accept their offer: restate it exactly (${formatOfferTerms(o!)}) and say that you have a deal. Your acceptance closes the deal, so do not ask them to confirm.${contractNote}`;
+        case 'confirm':
+            return `Agree to their offer by repeating it back exactly (${formatOfferTerms(o!)}) and ask them to click Accept so you have a deal.${contractNote}`;
+        case 'counter-w':
+            return `Keep their quantity q=${o!.q.toFixed(0)} and propose the wholesale price w=${o!.w.toFixed(2)} instead.${contractNote}`;
+        case 'counter-q':
+            return `Accept their price of w=${o!.w.toFixed(2)} and propose the quantity q=${o!.q.toFixed(0)} to make it a full deal.${contractNote}`;
+        case 'reject-propose-nash': {
+            // A price-only offer is rejected for its price, anything else for its quantity.
+            const rejected = move.userOffer.q === undefined ? 'price' : 'quantity';
+            return `Politely reject their offer: say the proposed ${rejected} is not attractive. Then propose w=${o!.w.toFixed(2)}, q=${o!.q.toFixed(0)}.${contractNote}`;
+        }
+        case 'propose-nash':
+            return `Propose your standard offer: w=${o!.w.toFixed(2)}, q=${o!.q.toFixed(0)}.${contractNote}`;
+        case 'state-max-price':
+            return `Say that the highest price you can consider is w=${o!.w.toFixed(2)}, and only with a large quantity of q=${o!.q.toFixed(0)}.${contractNote}`;
+        case 'state-min-price':
+            return `Say that the lowest price you can consider is w=${o!.w.toFixed(2)}, and only with a quantity of q=${o!.q.toFixed(0)}.${contractNote}`;
+        case 'state-min-quantity':
+            return `Say that you could go as low as q=${o!.q.toFixed(0)}, but only if the wholesale price is very ${move.role === 'supplier' ? 'high' : 'low'}, w=${o!.w.toFixed(2)}.${contractNote}`;
+        case 'ask-for-proposal':
+            return `Respond conversationally and ask them for a specific proposal with a wholesale price (w) and a quantity (q). Do not mention any numbers.`;
+        case 'walk-away':
+            return `Politely say that their offers are too far from anything you can accept and that you are ending the negotiation without a deal. Do not make an offer or mention any numbers.`;
+    }
+}
+
+/**
+ * A plain, template phrasing of a move, used when no model phrasing is available or valid.
+ */
+export function defaultMoveText(move: Pick<AgentMove, 'role' | 'kind' | 'offer'>): string {
+    const o = move.offer;
+    const terms = o ? describeOfferTerms(o) : '';
+    const extra = o ? describeContractTerms(o) : '';
+    const withContract = extra ? `, with ${extra}` : '';
+    switch (move.kind) {
+        case 'accept':
+            return `That works for me. I accept your offer of ${terms}. We have a deal.`;
+        case 'confirm':
+            return `That looks like a fair proposal. I can agree to ${terms}. If you accept, we have a deal.`;
+        case 'counter-w':
+        case 'counter-q':
+            return `Thanks for the proposal. I can work with that if we settle on ${terms}.`;
+        case 'reject-propose-nash':
+            return `I'm afraid that doesn't work for me. Instead, I propose ${terms}.`;
+        case 'propose-nash':
+            return `Here is my proposal: ${terms}. Let me know what you think.`;
+        case 'state-max-price':
+            return `The highest price I can consider would be around w=${o!.w.toFixed(2)}, but that would only work if we agree on a large quantity, like q=${o!.q.toFixed(0)}${withContract}.`;
+        case 'state-min-price':
+            return `The lowest price I can consider would be around w=${o!.w.toFixed(2)}, and only for a quantity of q=${o!.q.toFixed(0)}${withContract}.`;
+        case 'state-min-quantity':
+            return `I could consider a quantity as low as q=${o!.q.toFixed(0)}, but for that to be viable, the wholesale price would need to be extremely ${move.role === 'supplier' ? 'high' : 'low'}, around w=${o!.w.toFixed(2)}${withContract}.`;
+        case 'ask-for-proposal':
+            return "Thanks for the message. Could you send me a specific proposal with a wholesale price (w) and a quantity (q)?";
+        case 'walk-away':
+            return "I'm sorry, but we are too far apart. I don't see us reaching an agreement, so I'm ending our negotiation here.";
+    }
+}
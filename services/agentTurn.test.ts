@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseAgentTurn, streamedReplyText } from './agentTurn';
+
+describe('streamedReplyText', () => {
+    const turn = JSON.stringify({ analysis: 'Scenario 1, "text" here is internal.', scenario: 1, action: 'counter', offer: { w: 7, q: 60 }, text: 'How about "w=7"?\nLet me know.' });
+
+    it('shows nothing of a JSON turn before its text field', () => {
+        expect(streamedReplyText(turn.substring(0, turn.indexOf('"text"')))).toBe('');
+    });
+
+    it('decodes the text field as far as it has arrived', () => {
+        expect(streamedReplyText(turn.substring(0, turn.indexOf('Let')))).toBe('How about "w=7"?\n');
+        expect(streamedReplyText(turn)).toBe(parseAgentTurn(turn).turn!.text);
+    });
+
+    it('waits for the rest of an escape cut off mid-chunk', () => {
+        expect(streamedReplyText('{"text": "Hi\\')).toBe('Hi');
+        expect(streamedReplyText('{"text": "caf\\u00')).toBe('caf');
+        expect(streamedReplyText('{"text": "caf\\u00e9"}')).toBe('café');
+    });
+
+    it('hides the analysis log of the text format', () => {
+        expect(streamedReplyText('[INTERNAL ANALYSIS LOG]\n- Scenario Detected: 4')).toBe('');
+        expect(streamedReplyText('[INTERNAL ANALYSIS LOG]\n- Action: ask\n\n[FINAL RESPONSE]\nHello th')).toBe('Hello th');
+    });
+});
@@ -0,0 +1,184 @@
+import type { AiAction, Offer } from '../types';
+
+/**
+ * The negotiated values of an offer. The model only restates these; other contract terms come from the policy.
+ */
+export type OfferValues = Pick<Offer, 'w' | 'q'>;
+
+/**
+ * A retailer turn as returned by the model in structured (JSON) output mode.
+ */
+export interface AgentTurn {
+    analysis: string;
+    scenario: number;
+    action: AiAction;
+    offer?: OfferValues;
+    text: string;
+}
+
+/**
+ * What the current scenario allows the agent to do, as computed from negotiationService.
+ */
+export interface ExpectedMove {
+    scenario: number;
+    actions: AiAction[];
+    offers: OfferValues[]; // Offers the agent may attach; any other numbers are invented.
+    offerRequired: boolean;
+}
+
+const AI_ACTIONS: AiAction[] = ['accept', 'counter', 'reject', 'ask', 'walk-away'];
+
+/**
+ * JSON schema for AgentTurn, passed to the provider as the response schema.
+ */
+export const AGENT_TURN_SCHEMA = {
+    type: 'object',
+    properties: {
+        analysis: { type: 'string', description: 'Internal analysis log. Never shown to the user.' },
+        scenario: { type: 'integer', enum: [1, 2, 3, 4] },
+        action: { type: 'string', enum: AI_ACTIONS },
+        offer: {
+            type: 'object',
+            properties: {
+                w: { type: 'number' },
+                q: { type: 'integer' },
+            },
+            required: ['w', 'q'],
+        },
+        text: { type: 'string', description: 'The conversational reply shown to the user.' },
+    },
+    required: ['analysis', 'scenario', 'action', 'text'],
+};
+
+// Offers are quoted to two decimals in the chat, so w may differ by rounding.
+const W_TOLERANCE = 0.006;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAction = (value: unknown): value is AiAction => AI_ACTIONS.includes(value as AiAction);
+
+export const offersMatch = (a: OfferValues, b: OfferValues) => Math.abs(a.w - b.w) <= W_TOLERANCE && Math.round(a.q) === Math.round(b.q);
+
+/**
+ * Parses the model output into an AgentTurn, reporting schema violations instead of throwing.
+ */
+export function parseAgentTurn(raw: string): { turn?: AgentTurn; problems: string[] } {
+    // Some models wrap JSON in a markdown fence even in JSON mode.
+    const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        return { problems: ['The reply is not valid JSON.'] };
+    }
+    if (!isObject(data)) {
+        return { problems: ['The reply must be a JSON object.'] };
+    }
+
+    const { text, scenario, action, offer, analysis } = data;
+    const problems: string[] = [];
+    if (typeof text !== 'string' || !text.trim()) {
+        problems.push('"text" must be a non-empty string.');
+    }
+    if (!isNumber(scenario)) {
+        problems.push('"scenario" must be a number from 1 to 4.');
+    }
+    if (!isAction(action)) {
+        problems.push(`"action" must be one of ${AI_ACTIONS.join(', ')}.`);
+    }
+    let turnOffer: OfferValues | undefined;
+    if (isObject(offer) && isNumber(offer.w) && isNumber(offer.q)) {
+        turnOffer = { w: offer.w, q: Math.round(offer.q) };
+    } else if (offer !== undefined && offer !== null) {
+        problems.push('"offer" must contain numeric "w" and "q".');
+    }
+    // The type checks repeat the ones above so the fields narrow.
+    if (problems.length > 0 || typeof text !== 'string' || !isNumber(scenario) || !isAction(action)) {
+        return { problems };
+    }
+
+    return {
+        turn: {
+            analysis: typeof analysis === 'string' ? analysis : '',
+            scenario,
+            action,
+            offer: turnOffer,
+            text: text.trim(),
+        },
+        problems: [],
+    };
+}
+
+const JSON_ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+const FINAL_RESPONSE_MARKER = '[FINAL RESPONSE]';
+
+/**
+ * The part of a reply still streaming in that the user may see: the "text" field of a JSON turn as far as
+ * it has arrived, or what follows [FINAL RESPONSE] in the text format. The analysis never shows.
+ */
+export function streamedReplyText(raw: string): string {
+    if (!raw.trimStart().startsWith('{') && !raw.trimStart().startsWith('```')) {
+        const marker = raw.indexOf(FINAL_RESPONSE_MARKER);
+        return marker === -1 ? '' : raw.substring(marker + FINAL_RESPONSE_MARKER.length).trim();
+    }
+    const start = raw.match(/[{,]\s*"text"\s*:\s*"/);
+    if (!start) {
+        return '';
+    }
+    let text = '';
+    for (let i = start.index! + start[0].length; i < raw.length; i++) {
+        const char = raw[i];
+        if (char === '"') {
+            break;
+        }
+        if (char !== '\\') {
+            text += char;
+            continue;
+        }
+        // An escape sequence cut off at the end of the chunk waits for the next one.
+        const code = raw[i + 1];
+        if (code === 'u') {
+            if (i + 6 > raw.length) {
+                break;
+            }
+            text += String.fromCharCode(parseInt(raw.substring(i + 2, i + 6), 16));
+            i += 5;
+        } else if (code !== undefined) {
+            text += JSON_ESCAPES[code] ?? code;
+            i += 1;
+        }
+    }
+    return text.trimStart();
+}
+
+/**
+ * Checks that the agent followed the expected move and did not invent offer values.
+ */
+export function validateAgentTurn(turn: AgentTurn, expected: ExpectedMove): string[] {
+    const problems: string[] = [];
+    const describe = (offer: OfferValues) => `w=${offer.w.toFixed(2)}, q=${offer.q.toFixed(0)}`;
+
+    if (turn.scenario !== expected.scenario) {
+        problems.push(`The current scenario is ${expected.scenario}, not ${turn.scenario}.`);
+    }
+    if (!expected.actions.includes(turn.action)) {
+        problems.push(`The action must be ${expected.actions.map(a => `"${a}"`).join(' or ')}, not "${turn.action}".`);
+    }
+    if (turn.offer) {
+        if (!expected.offers.some(offer => offersMatch(offer, turn.offer!))) {
+            const allowed = expected.offers.length > 0 ? expected.offers.map(describe).join(' or ') : 'no offer';
+            problems.push(`The offer ${describe(turn.offer)} was not computed for you. Use ${allowed}.`);
+        }
+    } else if (expected.offerRequired) {
+        problems.push(`An offer is required: ${expected.offers.map(describe).join(' or ')}.`);
+    }
+    if ((turn.action === 'ask' || turn.action === 'walk-away') && turn.offer) {
+        problems.push(`Do not attach an offer when the action is "${turn.action}".`);
+    }
+
+    return problems;
+}
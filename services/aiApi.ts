@@ -0,0 +1,45 @@
+import type { AiResponse, Belief, LlmErrorKind, LlmFailure, Message, NashSolution, NegotiationParams, PartialOffer } from '../types';
+import type { RoundResult } from './roundManager';
+
+/**
+ * The HTTP API between the app and the server that talks to the model, so the API key stays on the server.
+ * Requests and responses are JSON; /api/respond streams newline-delimited JSON events.
+ */
+
+export const API_ROUTES = { respond: '/api/respond', parseOffer: '/api/parse-offer' };
+
+export const SESSION_HEADER = 'X-Session-Id'; // Requests are rate limited per negotiation session
+
+export interface RespondRequest {
+    chatHistory: Message[];
+    params: NegotiationParams;
+    nash: NashSolution;
+    lastUserOffer: PartialOffer;
+    belief?: Belief;
+    pastRounds?: RoundResult[];
+    unacceptableStreak?: number;
+    offline?: boolean;
+    fallbackOnFailure?: boolean;
+}
+
+export interface ParseOfferRequest {
+    text: string;
+}
+
+export interface ParseOfferResponse {
+    offer: PartialOffer;
+    failures: LlmFailure[]; // Failed calls to the offer reader, for the session record
+}
+
+export interface ApiError {
+    kind: LlmErrorKind;
+    message: string;
+    retryAfterMs?: number;
+}
+
+// The events of a streamed reply: its text so far, failed model calls, then the reply or the error that ended it.
+export type RespondEvent =
+    | { type: 'text'; text: string }
+    | { type: 'failure'; failure: LlmFailure }
+    | { type: 'response'; response: AiResponse }
+    | { type: 'error'; error: ApiError };
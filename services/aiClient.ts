@@ -0,0 +1,95 @@
+import type { AiResponse, Message, NashSolution, NegotiationParams, PartialOffer } from '../types';
+import type { AgentContext, ReadOfferOptions } from './geminiService';
+import { API_ROUTES, SESSION_HEADER, type ApiError, type ParseOfferResponse, type RespondEvent, type RespondRequest } from './aiApi';
+import { LlmUnavailableError, llmErrorForStatus, llmErrorOfKind, parseRetryAfter, toLlmError } from './llmErrors';
+
+/**
+ * The app's side of the API: getAiResponse and parseOffer as in geminiService, run by the server.
+ * Failures reach the caller as the same LlmErrors; an unreachable server counts as the model being unavailable.
+ */
+
+export type ApiContext = AgentContext & { sessionId: string };
+
+async function post(path: string, sessionId: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(path, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', [SESSION_HEADER]: sessionId },
+            body: JSON.stringify(body),
+            signal,
+        });
+    } catch (error) {
+        signal?.throwIfAborted();
+        throw toLlmError(error);
+    }
+    if (!response.ok) {
+        const error: ApiError | undefined = await response.json().then(data => data?.error, () => undefined);
+        throw error
+            ? llmErrorOfKind(error.kind, error.message, error.retryAfterMs)
+            : llmErrorForStatus(response.status, `The server responded with ${response.status} ${response.statusText}.`, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return response;
+}
+
+/**
+ * Reads the newline-delimited events of a streamed reply until the stream ends or the signal aborts.
+ */
+async function* readEvents(response: Response, signal?: AbortSignal): AsyncGenerator<RespondEvent> {
+    const reader = response.body!.getReader();
+    signal?.addEventListener('abort', () => reader.cancel(), { once: true });
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.trim()) {
+                yield JSON.parse(line);
+            }
+        }
+    }
+}
+
+export async function getAiResponse(
+    chatHistory: Message[],
+    params: NegotiationParams,
+    nash: NashSolution,
+    lastUserOffer: PartialOffer,
+    context: ApiContext
+): Promise<AiResponse> {
+    const { sessionId, signal, onText, onFailure, belief, pastRounds, unacceptableStreak, offline, fallbackOnFailure } = context;
+    // The prompts behind earlier AI messages are of no use to the server.
+    const messages = chatHistory.map(({ debugPrompt, ...message }) => message);
+    const body: RespondRequest = { chatHistory: messages, params, nash, lastUserOffer, belief, pastRounds, unacceptableStreak, offline, fallbackOnFailure };
+
+    const response = await post(API_ROUTES.respond, sessionId, body, signal);
+    for await (const event of readEvents(response, signal)) {
+        switch (event.type) {
+            case 'text':
+                onText?.(event.text);
+                break;
+            case 'failure':
+                onFailure?.(event.failure);
+                break;
+            case 'response':
+                return event.response;
+            case 'error':
+                throw llmErrorOfKind(event.error.kind, event.error.message, event.error.retryAfterMs);
+        }
+    }
+    signal?.throwIfAborted();
+    throw new LlmUnavailableError('The server closed the connection before the reply was complete.');
+}
+
+export async function parseOffer(text: string, options: ReadOfferOptions & { sessionId: string }): Promise<PartialOffer> {
+    const response = await post(API_ROUTES.parseOffer, options.sessionId, { text }, options.signal);
+    const { offer, failures }: ParseOfferResponse = await response.json();
+    failures.forEach(failure => options.onFailure?.(failure));
+    return offer;
+}
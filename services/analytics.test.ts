@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { Message, NegotiationParams, Offer } from '../types';
+import { analyticsToCsv, negotiationAnalytics } from './analytics';
+import { buildSessionRecord } from './sessionLog';
+import { calculateOfferProfits, nashBargainingSolution } from './negotiationService';
+import { INITIAL_PARAMS } from '../constants';
+
+const params: NegotiationParams = { ...INITIAL_PARAMS, c: 4, p: 11 };
+const nash = nashBargainingSolution(params);
+
+const offer = (w: number, q: number): Offer => ({ type: 'wholesale', w, q });
+
+// The AI is the retailer: the participant (supplier) asks 9 and concedes to 8, the AI offers 5 and 6, and the participant accepts 6.
+const messages: Message[] = [
+    { id: 0, sender: 'ai', text: 'Hello', timestamp: 0 },
+    { id: 1, sender: 'user', text: 'Offer', offer: offer(9, 60), timestamp: 10_000 },
+    { id: 2, sender: 'ai', text: 'Counter', offer: offer(5, 60), timestamp: 12_000 },
+    { id: 3, sender: 'user', text: 'Offer', offer: offer(8, 60), timestamp: 30_000 },
+    { id: 4, sender: 'ai', text: 'Counter', offer: offer(6, 60), timestamp: 34_000 },
+    { id: 5, sender: 'user', text: 'Accepted', timestamp: 40_000 },
+];
+
+const session = (endReason?: 'accepted' | 'walked-away') => buildSessionRecord({
+    sessionId: 's1', participantId: 'p1', startedAt: 0, params, nash, messages, endReason,
+    finalOffer: offer(6, 60), finalProfits: calculateOfferProfits(offer(6, 60), params),
+});
+
+describe('negotiationAnalytics', () => {
+    const analytics = negotiationAnalytics(session('accepted'));
+    const sales = calculateOfferProfits(offer(1, 60), params).supplier_profit - calculateOfferProfits(offer(0, 60), params).supplier_profit;
+
+    it('measures each side\'s concessions in its own expected profit', () => {
+        expect(analytics.firstMover).toBe('user');
+        expect(analytics.sides.user).toMatchObject({ role: 'supplier', offers: 2 });
+        expect(analytics.sides.user.concession).toBeCloseTo(1 * sales, 9);
+        expect(analytics.sides.ai.concession).toBeCloseTo(1 * sales, 9);
+        expect(analytics.sides.ai.concessionRate).toBeCloseTo(1 * sales, 9);
+    });
+
+    it('places the deal between the first offers', () => {
+        // In the supplier's profit, w=6 lies a quarter of the way from the AI's 5 to the participant's 9.
+        expect(analytics.sides.user.anchoring).toBeCloseTo(0.25, 9);
+        expect(analytics.sides.ai.anchoring).toBeCloseTo(0.75, 9);
+    });
+
+    it('rates the outcome against the Nash solution', () => {
+        const profits = calculateOfferProfits(offer(6, 60), params);
+        expect(analytics.efficiency).toBeCloseTo(profits.total_profit / nash.total_profit, 9);
+        expect(analytics.userShare).toBeCloseTo(profits.supplier_profit / profits.total_profit, 9);
+        expect(analytics.nashDistance).toBeCloseTo(Math.hypot(profits.supplier_profit - nash.supplier_profit, profits.retailer_profit - nash.retailer_profit), 9);
+    });
+
+    it('times the turns of each side', () => {
+        expect(analytics.sides.user.meanTurnSeconds).toBeCloseTo((10 + 18 + 6) / 3, 9);
+        expect(analytics.sides.ai.meanTurnSeconds).toBeCloseTo((2 + 4) / 2, 9);
+        expect(analytics.durationSeconds).toBe(40);
+    });
+
+    it('rates a disagreement at the disagreement payoffs', () => {
+        const noDeal = negotiationAnalytics(session('walked-away'));
+        expect(noDeal.agreed).toBe(false);
+        expect(noDeal.efficiency).toBe(0);
+        expect(noDeal.userShare).toBeUndefined();
+        expect(noDeal.sides.user.anchoring).toBeUndefined();
+    });
+
+    it('exports one CSV row per offer', () => {
+        const lines = analyticsToCsv(session('accepted'), analytics).split('\n');
+        expect(lines).toHaveLength(5);
+        expect(lines[1].startsWith('s1,1,user,supplier,10,9,60,')).toBe(true);
+    });
+});
@@ -0,0 +1,140 @@
+import type { Message, ProfitCalcs, Role, SessionRecord } from '../types';
+import { disagreementPayoffs } from './negotiationService';
+import { offerTrajectory } from './offerSpace';
+import { roleProfit } from './roundManager';
+import { toCsv, type CsvValue } from './sessionLog';
+import { otherRole } from '../constants';
+
+/**
+ * Post-hoc analysis of how a negotiation unfolded: each side's concessions, first-offer anchoring,
+ * the distance of the offers and the outcome from the Nash solution, channel efficiency and the pace of the turns.
+ */
+
+type Side = Message['sender'];
+
+// One full offer of the chat, with its profits and how it compares to the Nash solution.
+export interface OfferStep extends ProfitCalcs {
+    step: number; // 1-based position among the offers of the chat
+    sender: Side;
+    w: number;
+    q: number;
+    ownProfit: number; // The sender's expected profit
+    nashDistance: number; // Euclidean distance from the Nash point in profit space
+    efficiency: number; // Total profit over the optimal total
+    elapsedSeconds?: number; // Since the start of the session
+}
+
+export interface SideAnalytics {
+    role: Role;
+    offers: number;
+    firstOfferProfit?: number; // Own expected profit of the side's first offer
+    concession?: number; // Own expected profit given up between the first and the last offer
+    concessionRate?: number; // The concession per offer after the first
+    anchoring?: number; // Where the deal lies between the two first offers, in own profit: 1 at the side's own first offer, 0 at the other's
+    meanTurnSeconds?: number; // Mean time between the previous message and the side's reply
+}
+
+export interface NegotiationAnalytics {
+    agreed: boolean;
+    outcome: ProfitCalcs; // The deal's expected profits, or the disagreement payoffs
+    firstMover?: Side; // Who made the first full offer
+    sides: Record<Side, SideAnalytics>;
+    efficiency: number; // Total profit of the outcome over the optimal (Nash) total
+    userShare?: number; // The participant's share of the deal's total profit
+    nashDistance: number; // Of the outcome
+    durationSeconds?: number;
+    steps: OfferStep[];
+}
+
+const distance = (a: ProfitCalcs, b: ProfitCalcs) => Math.hypot(a.supplier_profit - b.supplier_profit, a.retailer_profit - b.retailer_profit);
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined);
+
+/**
+ * The seconds each message of a side took after the message before it. Messages without timestamps are skipped.
+ */
+function turnSeconds(messages: Message[], side: Side): number[] {
+    const seconds: number[] = [];
+    for (let i = 1; i < messages.length; i++) {
+        const { sender, timestamp } = messages[i];
+        const previous = messages[i - 1].timestamp;
+        if (sender === side && timestamp !== undefined && previous !== undefined) {
+            seconds.push((timestamp - previous) / 1000);
+        }
+    }
+    return seconds;
+}
+
+export function negotiationAnalytics(session: SessionRecord): NegotiationAnalytics {
+    const { params, nash, messages } = session;
+    const userRole = otherRole(params.aiRole);
+    const roleOf: Record<Side, Role> = { user: userRole, ai: params.aiRole };
+    const optimalTotal = nash.total_profit;
+    const efficiencyOf = (profits: ProfitCalcs) => (optimalTotal > 0 ? profits.total_profit / optimalTotal : 0);
+
+    const steps: OfferStep[] = offerTrajectory(messages, params).map(point => ({
+        step: point.step,
+        sender: point.sender,
+        w: point.w,
+        q: point.q,
+        supplier_profit: point.supplier_profit,
+        retailer_profit: point.retailer_profit,
+        total_profit: point.total_profit,
+        ownProfit: roleProfit(point, roleOf[point.sender]),
+        nashDistance: distance(point, nash),
+        efficiency: efficiencyOf(point),
+        elapsedSeconds: point.at === undefined ? undefined : (point.at - session.startedAt) / 1000,
+    }));
+
+    const agreed = session.outcome === 'agreement' && session.finalProfits !== undefined;
+    const outcome = agreed ? session.finalProfits! : disagreementPayoffs(params);
+    const firstOf = (side: Side) => steps.find(step => step.sender === side);
+
+    const sideAnalytics = (side: Side): SideAnalytics => {
+        const role = roleOf[side];
+        const own = steps.filter(step => step.sender === side);
+        const first = own[0];
+        const last = own[own.length - 1];
+        const other = firstOf(side === 'user' ? 'ai' : 'user');
+        const spread = first && other ? first.ownProfit - roleProfit(other, role) : 0;
+        return {
+            role,
+            offers: own.length,
+            firstOfferProfit: first?.ownProfit,
+            concession: first && last ? first.ownProfit - last.ownProfit : undefined,
+            concessionRate: own.length > 1 ? (first.ownProfit - last.ownProfit) / (own.length - 1) : undefined,
+            anchoring: agreed && other && Math.abs(spread) > 1e-9 ? (roleProfit(outcome, role) - roleProfit(other, role)) / spread : undefined,
+            meanTurnSeconds: mean(turnSeconds(messages, side)),
+        };
+    };
+
+    return {
+        agreed,
+        outcome,
+        firstMover: steps[0]?.sender,
+        sides: { user: sideAnalytics('user'), ai: sideAnalytics('ai') },
+        efficiency: efficiencyOf(outcome),
+        userShare: agreed && outcome.total_profit > 0 ? roleProfit(outcome, userRole) / outcome.total_profit : undefined,
+        nashDistance: distance(outcome, nash),
+        durationSeconds: session.endedAt === undefined ? undefined : (session.endedAt - session.startedAt) / 1000,
+        steps,
+    };
+}
+
+export const ANALYTICS_CSV_COLUMNS = [
+    'session_id', 'step', 'sender', 'role', 'elapsed_seconds', 'w', 'q',
+    'supplier_profit', 'retailer_profit', 'total_profit', 'own_profit', 'nash_distance', 'efficiency',
+];
+
+/**
+ * One row per offer of the session: the concession curves and the distance from the Nash solution over the negotiation.
+ */
+export function analyticsToCsv(session: SessionRecord, analytics: NegotiationAnalytics = negotiationAnalytics(session)): string {
+    const rows: CsvValue[][] = analytics.steps.map(step => [
+        session.sessionId, step.step, step.sender, analytics.sides[step.sender].role, step.elapsedSeconds, step.w, step.q,
+        step.supplier_profit, step.retailer_profit, step.total_profit, step.ownProfit, step.nashDistance, step.efficiency,
+    ]);
+    return toCsv(ANALYTICS_CSV_COLUMNS, rows);
+}
+
+export const analyticsFileName = (session: SessionRecord) => `analytics-${session.sessionId}.csv`;
@@ -0,0 +1,92 @@
+import type { Belief, NegotiationParams, ParameterGrid, PartialOffer } from '../types';
+import { calculateProfits, nashBargainingSolution } from './negotiationService';
+import { mergeContractTerms } from './contracts';
+import { DEFAULT_PARAMETER_GRID, PRIVATE_PARAMETER, otherRole } from '../constants';
+
+/**
+ * The AI's belief over the counterpart's parameter in the private-information mode.
+ * The AI assumes the counterpart bargains towards the Nash solution of their own world, so offers
+ * close to the Nash terms under a candidate value make that value more likely.
+ */
+
+// How far a counterpart's offered w and q typically stray from their Nash terms.
+const PRICE_SPREAD = 1.5;
+const QUANTITY_SPREAD = 15;
+// Likelihood factor for values under which the offer would lose the counterpart money, allowing for mistakes.
+const LOSS_LIKELIHOOD = 0.05;
+
+/**
+ * Whether the user can see a parameter: everything in the full-information mode, only their own otherwise.
+ */
+export const isVisibleToUser = (params: NegotiationParams, parameter: 'c' | 'p') =>
+    params.information === 'full' || parameter === PRIVATE_PARAMETER[otherRole(params.aiRole)];
+
+/**
+ * The uniform prior over the values the session could have drawn for the counterpart's parameter:
+ * those of the grid stored with the session's params unless another is given.
+ */
+export function priorBelief(params: NegotiationParams, grid: ParameterGrid = params.grid ?? DEFAULT_PARAMETER_GRID): Belief {
+    const parameter = PRIVATE_PARAMETER[otherRole(params.aiRole)];
+    const values = parameter === 'c' ? grid.costValues : grid.priceValues;
+    return { parameter, values, probabilities: values.map(() => 1 / values.length) };
+}
+
+const withValue = (params: NegotiationParams, belief: Belief, value: number): NegotiationParams => ({ ...params, [belief.parameter]: value });
+
+const gaussianLikelihood = (distance: number, spread: number) => Math.exp(-(distance * distance) / (2 * spread * spread));
+
+/**
+ * Bayes update of the belief with the counterpart's latest (possibly partial) offer.
+ * Offers with a w or q of zero or less are treated as absent; without any terms the belief is unchanged.
+ */
+export function updateBelief(belief: Belief, offer: PartialOffer, params: NegotiationParams): Belief {
+    const hasW = offer.w !== undefined && offer.w > 0;
+    const hasQ = offer.q !== undefined && offer.q > 0;
+    if (!hasW && !hasQ) {
+        return belief;
+    }
+    const terms = mergeContractTerms(params.contract, offer);
+    const posterior = belief.values.map((value, i) => {
+        const world = withValue(params, belief, value);
+        const nash = nashBargainingSolution(world);
+        let likelihood = 1;
+        if (hasW) {
+            likelihood *= gaussianLikelihood(offer.w! - nash.wholesale_price, PRICE_SPREAD);
+        }
+        if (hasQ) {
+            likelihood *= gaussianLikelihood(offer.q! - nash.order_quantity, QUANTITY_SPREAD);
+        }
+        if (hasW && hasQ) {
+            const profits = calculateProfits(offer.w!, offer.q!, world, terms);
+            const counterpartProfit = params.aiRole === 'supplier' ? profits.retailer_profit : profits.supplier_profit;
+            if (counterpartProfit < 0) {
+                likelihood *= LOSS_LIKELIHOOD;
+            }
+        }
+        return belief.probabilities[i] * likelihood;
+    });
+    const total = posterior.reduce((sum, weight) => sum + weight, 0);
+    if (!(total > 0) || !isFinite(total)) {
+        return belief;
+    }
+    return { ...belief, probabilities: posterior.map(weight => weight / total) };
+}
+
+export function expectedValue(belief: Belief): number {
+    return belief.values.reduce((sum, value, i) => sum + value * belief.probabilities[i], 0);
+}
+
+/**
+ * The parameters as the AI sees them: the counterpart's parameter replaced by its expected value under the belief.
+ */
+export function believedParams(params: NegotiationParams, belief: Belief): NegotiationParams {
+    return withValue(params, belief, expectedValue(belief));
+}
+
+/**
+ * E.g. "c: 3 (20%), 4 (50%), 5 (30%); expected 4.10".
+ */
+export function describeBelief(belief: Belief): string {
+    const spread = belief.values.map((value, i) => `${value} (${(belief.probabilities[i] * 100).toFixed(0)}%)`).join(', ');
+    return `${belief.parameter}: ${spread}; expected ${expectedValue(belief).toFixed(2)}`;
+}
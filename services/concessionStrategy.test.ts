@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { Message, NegotiationParams } from '../types';
+import { negotiationProgress, scheduledTargetProfit, targetRange } from './concessionStrategy';
+import { nashBargainingSolution } from './negotiationService';
+import { INITIAL_PARAMS } from '../constants';
+
+const params: NegotiationParams = { ...INITIAL_PARAMS, c: 4, p: 11 };
+const nash = nashBargainingSolution(params);
+const range = targetRange(params, nash);
+
+const chat = (userTurns: number, startedAt = 0): Message[] => [
+    { id: 0, sender: 'ai', text: 'Hello', timestamp: startedAt },
+    ...Array.from({ length: userTurns }, (_, i): Message => ({ id: i + 1, sender: 'user', text: 'Hi' })),
+];
+
+describe('targetRange', () => {
+    it('orders aspiration, Nash target and reservation level', () => {
+        expect(range.aspiration).toBeGreaterThan(range.nashTarget);
+        expect(range.nashTarget).toBeGreaterThan(range.reservation);
+        expect(range.reservation).toBeGreaterThan(0);
+    });
+
+    it('puts the fair target at half the surplus', () => {
+        expect(range.fairTarget).toBeCloseTo(nash.total_profit / 2, 9);
+    });
+});
+
+describe('scheduledTargetProfit', () => {
+    it('keeps the Nash-anchored target at the Nash profit', () => {
+        for (const progress of [0, 0.5, 1]) {
+            expect(scheduledTargetProfit('nash-anchored', params, nash, progress)).toBe(nash.retailer_profit);
+        }
+    });
+
+    it.each(['boulware', 'linear'] as const)('moves %s from the aspiration to the reservation level', strategy => {
+        expect(scheduledTargetProfit(strategy, params, nash, 0)).toBeCloseTo(range.aspiration, 9);
+        expect(scheduledTargetProfit(strategy, params, nash, 1)).toBeCloseTo(range.reservation, 9);
+        let previous = Infinity;
+        for (let progress = 0; progress <= 1; progress += 0.1) {
+            const target = scheduledTargetProfit(strategy, params, nash, progress);
+            expect(target).toBeLessThanOrEqual(previous);
+            previous = target;
+        }
+    });
+
+    it('has the Boulware strategy concede later than the linear one', () => {
+        for (const progress of [0.2, 0.5, 0.8]) {
+            expect(scheduledTargetProfit('boulware', params, nash, progress)).toBeGreaterThan(scheduledTargetProfit('linear', params, nash, progress));
+        }
+    });
+
+    it('has tit-for-tat concede as much as the participant did', () => {
+        expect(scheduledTargetProfit('tit-for-tat', params, nash, 0.5, [{ w: 9, q: 50 }])).toBeCloseTo(range.aspiration, 9);
+        const target = scheduledTargetProfit('tit-for-tat', params, nash, 0.5, [{ w: 9, q: 50 }, { w: 8.5, q: 50 }]);
+        expect(target).toBeCloseTo(range.aspiration - 0.5 * 50 * 0.75, 1); // E[min(50, D)] = 37.5 units under uniform 0-100
+    });
+});
+
+describe('negotiationProgress', () => {
+    it('counts the participant turns after their first against the horizon', () => {
+        expect(negotiationProgress(chat(1), params)).toBe(0);
+        expect(negotiationProgress(chat(6), params)).toBeCloseTo(0.5, 9);
+        expect(negotiationProgress(chat(3), { ...params, limits: { maxOffers: 4 } })).toBeCloseTo(0.5, 9);
+        expect(negotiationProgress(chat(30), params)).toBe(1);
+    });
+
+    it('follows the clock when the time limit comes sooner', () => {
+        const limited = { ...params, limits: { timeLimitSeconds: 100 } };
+        expect(negotiationProgress(chat(1, 0), limited, 75_000)).toBeCloseTo(0.75, 9);
+    });
+});
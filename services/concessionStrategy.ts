@@ -0,0 +1,119 @@
+import type { ConcessionStrategy, Message, NashSolution, NegotiationParams, PartialOffer } from '../types';
+import { calculateProfits, disagreementPayoffs } from './negotiationService';
+import { mergeContractTerms } from './contracts';
+import { nashTargetProfit } from './agentPolicy';
+import { otherRole } from '../constants';
+
+/**
+ * Concession strategies: schedules for the AI's target profit, the level the find-W / find-Q solvers of
+ * the agent policy aim for. Apart from the Nash-anchored and fairness-seeking targets, which stay put,
+ * a strategy moves the target from an aspiration down to a reservation level as the negotiation goes on.
+ */
+
+export const DEFAULT_STRATEGY: ConcessionStrategy = 'nash-anchored';
+
+// The negotiation's length in participant turns when no limit sets it.
+export const DEFAULT_HORIZON_TURNS = 10;
+
+// The aspiration asks for this share of what the AI could gain beyond its Nash profit.
+const ASPIRATION_PREMIUM = 0.5;
+// The reservation level gives up this share of the AI's Nash profit over its disagreement payoff.
+const RESERVATION_DISCOUNT = 0.5;
+
+// Concession exponents (Faratin et al.): below 1 the AI holds out until close to the deadline, 1 concedes evenly.
+const CONCESSION_BETA: Partial<Record<ConcessionStrategy, number>> = { 'boulware': 0.2, 'linear': 1 };
+
+/**
+ * The profit levels the strategies move between, from the AI's side. The aspiration leaves the counterpart
+ * more than their disagreement payoff; the reservation level stays above the AI's own.
+ */
+export interface TargetRange {
+    aspiration: number;
+    nashTarget: number;
+    fairTarget: number; // An equal split of the surplus over both disagreement payoffs
+    reservation: number;
+}
+
+export function targetRange(params: NegotiationParams, nash: NashSolution): TargetRange {
+    const role = params.aiRole;
+    const noDeal = disagreementPayoffs(params);
+    const ownNoDeal = role === 'supplier' ? noDeal.supplier_profit : noDeal.retailer_profit;
+    const otherNoDeal = otherRole(role) === 'supplier' ? noDeal.supplier_profit : noDeal.retailer_profit;
+    const nashTarget = nashTargetProfit(role, nash);
+    const mostOwn = nash.total_profit - otherNoDeal;
+    return {
+        aspiration: nashTarget + ASPIRATION_PREMIUM * (mostOwn - nashTarget),
+        nashTarget,
+        fairTarget: ownNoDeal + (nash.total_profit - ownNoDeal - otherNoDeal) / 2,
+        reservation: nashTarget - RESERVATION_DISCOUNT * (nashTarget - ownNoDeal),
+    };
+}
+
+/**
+ * How far the negotiation has gone, from 0 at the AI's first reply to 1 at the deadline: the share of the
+ * participant's turns used (out of `maxOffers`, or DEFAULT_HORIZON_TURNS), or of the time limit if that is further.
+ */
+export function negotiationProgress(chatHistory: Message[], params: NegotiationParams, now: number = Date.now()): number {
+    const { timeLimitSeconds, maxOffers } = params.limits ?? {};
+    const userTurns = chatHistory.filter(m => m.sender === 'user').length;
+    const turnProgress = Math.max(0, userTurns - 1) / (maxOffers ?? DEFAULT_HORIZON_TURNS);
+    const startedAt = chatHistory[0]?.timestamp;
+    const timeProgress = timeLimitSeconds !== undefined && startedAt !== undefined
+        ? (now - startedAt) / 1000 / timeLimitSeconds
+        : 0;
+    return Math.min(1, Math.max(turnProgress, timeProgress));
+}
+
+/**
+ * How much the participant has conceded so far, in the AI's own expected profit: the gain of their latest
+ * full offer over their first. Partial offers cannot be valued and are skipped.
+ */
+export function userConcession(userOffers: PartialOffer[], params: NegotiationParams): number {
+    const full = userOffers.filter(o => o.w !== undefined && o.q !== undefined && o.w > 0 && o.q > 0);
+    if (full.length < 2) {
+        return 0;
+    }
+    const ownProfit = (offer: PartialOffer) => {
+        const profits = calculateProfits(offer.w!, offer.q!, params, mergeContractTerms(params.contract, offer));
+        return params.aiRole === 'supplier' ? profits.supplier_profit : profits.retailer_profit;
+    };
+    return ownProfit(full[full.length - 1]) - ownProfit(full[0]);
+}
+
+/**
+ * The AI's target profit under `strategy` at `progress` (see negotiationProgress). Tit-for-tat starts at the
+ * aspiration and concedes as much as the participant has (`userOffers`, oldest first), within the range.
+ */
+export function scheduledTargetProfit(
+    strategy: ConcessionStrategy,
+    params: NegotiationParams,
+    nash: NashSolution,
+    progress: number,
+    userOffers: PartialOffer[] = [],
+): number {
+    const range = targetRange(params, nash);
+    switch (strategy) {
+        case 'nash-anchored':
+            return range.nashTarget;
+        case 'fairness':
+            return range.fairTarget;
+        case 'tit-for-tat': {
+            const target = range.aspiration - userConcession(userOffers, params);
+            return Math.min(range.aspiration, Math.max(range.reservation, target));
+        }
+        case 'boulware':
+        case 'linear': {
+            const conceded = Math.pow(Math.min(1, Math.max(0, progress)), 1 / CONCESSION_BETA[strategy]!);
+            return range.aspiration - conceded * (range.aspiration - range.reservation);
+        }
+    }
+}
+
+/**
+ * The schedule's state in words, for the debug panel.
+ */
+export function describeSchedule(strategy: ConcessionStrategy, progress: number, targetProfit: number, params: NegotiationParams, nash: NashSolution): string {
+    const { aspiration, nashTarget, reservation } = targetRange(params, nash);
+    return `Strategy ${strategy} at progress ${(progress * 100).toFixed(0)}%: target ${targetProfit.toFixed(2)} `
+        + `(aspiration ${aspiration.toFixed(2)}, Nash ${nashTarget.toFixed(2)}, reservation ${reservation.toFixed(2)}).`;
+}
@@ -0,0 +1,191 @@
+import type { ContractTerms, ContractType, Offer, PartialOffer } from '../types';
+
+/**
+ * Helpers for the contract types: the secondary terms each one carries beyond w and q,
+ * how they are merged from what a user states, and how they are described in text.
+ */
+
+export type ContractTermField = 'b' | 'phi' | 'threshold' | 'discount';
+
+export const CONTRACT_TERM_FIELDS: Record<ContractType, ContractTermField[]> = {
+    wholesale: [],
+    buyback: ['b'],
+    revenue_sharing: ['phi'],
+    quantity_discount: ['threshold', 'discount'],
+};
+
+// Labels and input hints for the offer forms.
+export const CONTRACT_TERM_INPUTS: Record<ContractTermField, { label: string; placeholder: string; step: string }> = {
+    b: { label: 'b', placeholder: 'Buyback', step: '0.01' },
+    phi: { label: 'φ', placeholder: 'Retailer share (0-1)', step: '0.01' },
+    threshold: { label: 'from q', placeholder: 'Threshold', step: '1' },
+    discount: { label: 'disc.', placeholder: 'Discount (0-1)', step: '0.01' },
+};
+
+/**
+ * Whether a stated value makes sense for the field: shares and discounts are fractions, the others non-negative.
+ */
+export function isValidTermValue(field: ContractTermField, value: number | undefined): value is number {
+    if (value === undefined || !isFinite(value) || value < 0) {
+        return false;
+    }
+    if (field === 'phi') {
+        return value <= 1;
+    }
+    if (field === 'discount') {
+        return value < 1;
+    }
+    return true;
+}
+
+/**
+ * What is wrong with contract terms from a file or a request, or undefined when they are valid.
+ */
+export function contractTermsProblem(value: unknown): string | undefined {
+    const terms = value as ContractTerms | null;
+    if (typeof terms !== 'object' || terms === null || !Object.hasOwn(CONTRACT_TERM_FIELDS, terms.type)) {
+        return 'unknown contract type.';
+    }
+    const values = contractTermValues(terms);
+    const invalid = CONTRACT_TERM_FIELDS[terms.type].find(field => typeof values[field] !== 'number' || !isValidTermValue(field, values[field]));
+    return invalid ? `invalid contract term "${invalid}".` : undefined;
+}
+
+/**
+ * The secondary terms of a contract as field/value pairs.
+ */
+export function contractTermValues(terms: ContractTerms): Partial<Record<ContractTermField, number>> {
+    switch (terms.type) {
+        case 'wholesale':
+            return {};
+        case 'buyback':
+            return { b: terms.b };
+        case 'revenue_sharing':
+            return { phi: terms.phi };
+        case 'quantity_discount':
+            return { threshold: terms.threshold, discount: terms.discount };
+    }
+}
+
+/**
+ * Overrides the secondary terms of `terms` with the valid values in `values`, keeping the contract type.
+ */
+export function mergeContractTerms(terms: ContractTerms, values: PartialOffer): ContractTerms {
+    const pick = (field: ContractTermField, fallback: number) => (isValidTermValue(field, values[field]) ? values[field]! : fallback);
+    switch (terms.type) {
+        case 'wholesale':
+            return terms;
+        case 'buyback':
+            return { type: 'buyback', b: pick('b', terms.b) };
+        case 'revenue_sharing':
+            return { type: 'revenue_sharing', phi: pick('phi', terms.phi) };
+        case 'quantity_discount':
+            return { type: 'quantity_discount', threshold: Math.round(pick('threshold', terms.threshold)), discount: pick('discount', terms.discount) };
+    }
+}
+
+/**
+ * The secondary terms as strings for the offer form inputs.
+ */
+export function contractTermInputs(terms: ContractTerms): Partial<Record<ContractTermField, string>> {
+    const values = contractTermValues(terms);
+    const inputs: Partial<Record<ContractTermField, string>> = {};
+    for (const field of CONTRACT_TERM_FIELDS[terms.type]) {
+        inputs[field] = values[field]!.toFixed(field === 'threshold' ? 0 : 2);
+    }
+    return inputs;
+}
+
+/**
+ * Reads the form inputs for a contract type's secondary terms, or null when one is missing or out of range.
+ */
+export function parseContractTermInputs(type: ContractType, inputs: Partial<Record<ContractTermField, string>>): PartialOffer | null {
+    const values: PartialOffer = {};
+    for (const field of CONTRACT_TERM_FIELDS[type]) {
+        const value = parseFloat(inputs[field] ?? '');
+        if (!isValidTermValue(field, value)) {
+            return null;
+        }
+        values[field] = value;
+    }
+    return values;
+}
+
+export function sameContractTerms(a: ContractTerms, b: ContractTerms): boolean {
+    if (a.type !== b.type) {
+        return false;
+    }
+    const valuesA = contractTermValues(a);
+    const valuesB = contractTermValues(b);
+    return CONTRACT_TERM_FIELDS[a.type].every(field => Math.abs(valuesA[field]! - valuesB[field]!) < 1e-9);
+}
+
+/**
+ * The price per unit the retailer actually pays, after a quantity discount.
+ */
+export function effectiveWholesalePrice(w: number, q: number, terms: ContractTerms): number {
+    if (terms.type === 'quantity_discount' && q >= terms.threshold) {
+        return w * (1 - terms.discount);
+    }
+    return w;
+}
+
+const percent = (share: number) => `${(share * 100).toFixed(0)}%`;
+
+/**
+ * Compact notation, e.g. "w=7.31, q=70, b=2.00".
+ */
+export function formatOfferTerms(offer: Offer): string {
+    const base = `w=${offer.w.toFixed(2)}, q=${offer.q.toFixed(0)}`;
+    switch (offer.type) {
+        case 'wholesale':
+            return base;
+        case 'buyback':
+            return `${base}, b=${offer.b.toFixed(2)}`;
+        case 'revenue_sharing':
+            return `${base}, phi=${offer.phi.toFixed(2)}`;
+        case 'quantity_discount':
+            return `${base}, threshold=${offer.threshold.toFixed(0)}, discount=${offer.discount.toFixed(2)}`;
+    }
+}
+
+/**
+ * The secondary terms in words, or an empty string for a plain wholesale contract.
+ */
+export function describeContractTerms(terms: ContractTerms): string {
+    switch (terms.type) {
+        case 'wholesale':
+            return '';
+        case 'buyback':
+            return `a buyback price (b) of ${terms.b.toFixed(2)} per unsold unit`;
+        case 'revenue_sharing':
+            return `the retailer keeping ${percent(terms.phi)} of the sales revenue (phi=${terms.phi.toFixed(2)})`;
+        case 'quantity_discount':
+            return `a ${percent(terms.discount)} discount on w for orders of at least ${terms.threshold.toFixed(0)} units`;
+    }
+}
+
+/**
+ * The full offer in words, e.g. "a wholesale price (w) of 7.31 and a quantity (q) of 70".
+ */
+export function describeOfferTerms(offer: Offer): string {
+    const base = `a wholesale price (w) of ${offer.w.toFixed(2)} and a quantity (q) of ${offer.q.toFixed(0)}`;
+    const extra = describeContractTerms(offer);
+    return extra ? `${base}, with ${extra}` : base;
+}
+
+/**
+ * How the session's contract works, as explained in the AI's instructions.
+ */
+export function describeContract(terms: ContractTerms): string {
+    switch (terms.type) {
+        case 'wholesale':
+            return 'The contract is a plain wholesale price contract.';
+        case 'buyback':
+            return `The contract is a buyback contract: the retailer pays w for every unit ordered and the supplier pays the retailer a buyback price (b) for every unsold unit. The standard buyback price is b=${terms.b.toFixed(2)}.`;
+        case 'revenue_sharing':
+            return `The contract is a revenue-sharing contract: on top of w, the supplier receives a share of the sales revenue and the retailer keeps the share phi. The standard retailer share is phi=${terms.phi.toFixed(2)} (${percent(terms.phi)}).`;
+        case 'quantity_discount':
+            return `The contract is a quantity-discount contract: w is reduced by a discount when the order reaches a threshold quantity. The standard terms are a ${percent(terms.discount)} discount from ${terms.threshold.toFixed(0)} units.`;
+    }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { demandBounds, demandCdf, demandDistributionProblem, demandMean, demandQuantile, expectedSales } from './demandDistribution';
+import { createRng } from './random';
+import { DEMAND_PRESETS } from '../constants';
+
+// Monte-Carlo estimate of E[min(q, D)] from inverse-transform samples.
+const monteCarloSales = (demand: typeof DEMAND_PRESETS[string]['demand'], q: number, samples = 20000) => {
+    const rng = createRng('sales', q);
+    let sum = 0;
+    for (let i = 0; i < samples; i++) {
+        sum += Math.min(q, demandQuantile(demand, rng()));
+    }
+    return sum / samples;
+};
+
+describe('expectedSales', () => {
+    it('matches the closed form for uniform demand', () => {
+        const demand = { type: 'uniform' as const, min: 0, max: 100 };
+        for (const q of [10, 35, 70, 99]) {
+            expect(expectedSales(demand, q)).toBeCloseTo(q - (q * q) / 200, 9);
+        }
+    });
+
+    it('sells everything stocked up to the lowest possible demand', () => {
+        expect(expectedSales({ type: 'uniform', min: 20, max: 80 }, 15)).toBe(15);
+        expect(expectedSales(DEMAND_PRESETS.empirical.demand, 20)).toBe(20);
+    });
+
+    it('is the mean demand once q reaches the largest possible demand', () => {
+        for (const { demand } of Object.values(DEMAND_PRESETS)) {
+            const { max } = demandBounds(demand);
+            expect(expectedSales(demand, max)).toBeCloseTo(demandMean(demand), 0);
+            expect(expectedSales(demand, max * 3)).toBeCloseTo(demandMean(demand), 0);
+        }
+    });
+
+    it.each(Object.entries(DEMAND_PRESETS))('agrees with a Monte-Carlo estimate for %s demand', (_, { demand }) => {
+        for (const q of [25, 50, 75]) {
+            expect(Math.abs(expectedSales(demand, q) - monteCarloSales(demand, q))).toBeLessThan(0.5);
+        }
+    });
+});
+
+describe('demand presets', () => {
+    it.each(Object.entries(DEMAND_PRESETS))('%s has a mean of about 50 units', (_, { demand }) => {
+        expect(demandMean(demand)).toBeCloseTo(50, 0);
+    });
+
+    it.each(Object.entries(DEMAND_PRESETS))('%s has a quantile function inverting its CDF', (_, { demand }) => {
+        if (demand.type === 'empirical') {
+            return; // A step CDF has no inverse
+        }
+        for (const u of [0.1, 0.5, 0.9]) {
+            expect(demandCdf(demand, demandQuantile(demand, u))).toBeCloseTo(u, 4);
+        }
+    });
+});
+
+describe('demandDistributionProblem', () => {
+    it.each(Object.entries(DEMAND_PRESETS))('accepts the %s preset', (_, { demand }) => {
+        expect(demandDistributionProblem(demand)).toBeUndefined();
+    });
+
+    it.each([
+        ['uniform min >= max', { type: 'uniform', min: 100, max: 100 }],
+        ['normal sd <= 0', { type: 'normal', mean: 50, sd: 0 }],
+        ['normal truncation min >= max', { type: 'normal', mean: 50, sd: 20, min: 80, max: 20 }],
+        ['empty empirical values', { type: 'empirical', values: [] }],
+        ['empirical probabilities of the wrong length', { type: 'empirical', values: [20, 40], probabilities: [1] }],
+        ['triangular mode outside [min, max]', { type: 'triangular', min: 0, mode: 120, max: 100 }],
+        ['exponential mean <= 0', { type: 'exponential', mean: -5 }],
+        ['an unknown type', { type: 'poisson', mean: 50 }],
+        ['text', 'uniform'],
+    ])('rejects %s', (_, demand) => {
+        expect(demandDistributionProblem(demand)).toEqual(expect.any(String));
+    });
+});
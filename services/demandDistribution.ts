@@ -0,0 +1,248 @@
+import type { DemandDistribution } from '../types';
+
+/**
+ * Expected sales, CDF, quantiles and descriptions for the supported demand distributions.
+ * Closed forms are used where they exist; otherwise expected sales are integrated numerically from the CDF.
+ */
+
+const SIMPSON_INTERVALS = 400;
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, absolute error below 1.5e-7).
+ */
+function standardNormalCdf(z: number): number {
+    const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-(z * z) / 2);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function empiricalProbabilities(dist: Extract<DemandDistribution, { type: 'empirical' }>): number[] {
+    const weights = dist.probabilities ?? dist.values.map(() => 1);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return weights.map(w => w / total);
+}
+
+/**
+ * The interval holding (practically) all probability mass, used as integration limits.
+ */
+function support(dist: DemandDistribution): [number, number] {
+    switch (dist.type) {
+        case 'uniform':
+        case 'triangular':
+            return [dist.min, dist.max];
+        case 'normal':
+            return [dist.min ?? dist.mean - 8 * dist.sd, dist.max ?? dist.mean + 8 * dist.sd];
+        case 'empirical':
+            return [Math.min(...dist.values), Math.max(...dist.values)];
+        case 'exponential':
+            return [0, dist.mean * 25];
+    }
+}
+
+/**
+ * P(D <= x).
+ */
+export function demandCdf(dist: DemandDistribution, x: number): number {
+    switch (dist.type) {
+        case 'uniform':
+            if (x <= dist.min) return 0;
+            if (x >= dist.max) return 1;
+            return (x - dist.min) / (dist.max - dist.min);
+        case 'normal': {
+            const [lo, hi] = support(dist);
+            if (x <= lo) return 0;
+            if (x >= hi) return 1;
+            const a = dist.min !== undefined ? standardNormalCdf((dist.min - dist.mean) / dist.sd) : 0;
+            const b = dist.max !== undefined ? standardNormalCdf((dist.max - dist.mean) / dist.sd) : 1;
+            return (standardNormalCdf((x - dist.mean) / dist.sd) - a) / (b - a);
+        }
+        case 'triangular': {
+            const { min, mode, max } = dist;
+            if (x <= min) return 0;
+            if (x >= max) return 1;
+            if (x <= mode) {
+                return ((x - min) * (x - min)) / ((max - min) * (mode - min));
+            }
+            return 1 - ((max - x) * (max - x)) / ((max - min) * (max - mode));
+        }
+        case 'empirical': {
+            const probabilities = empiricalProbabilities(dist);
+            return dist.values.reduce((sum, v, i) => (v <= x ? sum + probabilities[i] : sum), 0);
+        }
+        case 'exponential':
+            return x <= 0 ? 0 : 1 - Math.exp(-x / dist.mean);
+    }
+}
+
+/**
+ * The smallest x with P(D <= x) >= u, for u in [0, 1].
+ */
+export function demandQuantile(dist: DemandDistribution, u: number): number {
+    const p = Math.min(Math.max(u, 0), 1);
+    switch (dist.type) {
+        case 'uniform':
+            return dist.min + p * (dist.max - dist.min);
+        case 'triangular': {
+            const { min, mode, max } = dist;
+            const split = (mode - min) / (max - min);
+            return p <= split
+                ? min + Math.sqrt(p * (max - min) * (mode - min))
+                : max - Math.sqrt((1 - p) * (max - min) * (max - mode));
+        }
+        case 'exponential':
+            return p >= 1 ? support(dist)[1] : -dist.mean * Math.log(1 - p);
+        case 'empirical': {
+            const probabilities = empiricalProbabilities(dist);
+            const order = dist.values.map((v, i) => i).sort((i, j) => dist.values[i] - dist.values[j]);
+            let cumulative = 0;
+            for (const i of order) {
+                cumulative += probabilities[i];
+                if (cumulative >= p - 1e-12) {
+                    return dist.values[i];
+                }
+            }
+            return dist.values[order[order.length - 1]];
+        }
+        case 'normal': {
+            let [lo, hi] = support(dist);
+            for (let i = 0; i < 100 && hi - lo > 1e-9; i++) {
+                const mid = (lo + hi) / 2;
+                if (demandCdf(dist, mid) < p) {
+                    lo = mid;
+                } else {
+                    hi = mid;
+                }
+            }
+            return (lo + hi) / 2;
+        }
+    }
+}
+
+/**
+ * E[min(q, D)], the expected number of units sold when q units are stocked.
+ */
+export function expectedSales(dist: DemandDistribution, q: number): number {
+    switch (dist.type) {
+        case 'uniform': {
+            const { min, max } = dist;
+            if (q <= min) return q;
+            if (q >= max) return (min + max) / 2;
+            // Integral of min(q,D) over [min, max]
+            return ((q * q - min * min) / 2 + q * (max - q)) / (max - min);
+        }
+        case 'exponential':
+            return q <= 0 ? q : dist.mean * (1 - Math.exp(-q / dist.mean));
+        case 'empirical': {
+            const probabilities = empiricalProbabilities(dist);
+            return dist.values.reduce((sum, v, i) => sum + probabilities[i] * Math.min(q, v), 0);
+        }
+        default: {
+            // E[min(q, D)] = lo + integral from lo to q of P(D > x) dx, for D >= lo.
+            const [lo, hi] = support(dist);
+            if (q <= lo) return q;
+            const upper = Math.min(q, hi);
+            const h = (upper - lo) / SIMPSON_INTERVALS;
+            let sum = 0;
+            for (let i = 0; i <= SIMPSON_INTERVALS; i++) {
+                const weight = i === 0 || i === SIMPSON_INTERVALS ? 1 : i % 2 === 1 ? 4 : 2;
+                sum += weight * (1 - demandCdf(dist, lo + i * h));
+            }
+            return lo + (sum * h) / 3;
+        }
+    }
+}
+
+export function demandMean(dist: DemandDistribution): number {
+    return expectedSales(dist, support(dist)[1]);
+}
+
+/**
+ * The demand range shown in charts and searched by the solvers. Unbounded tails are cut at the 0.1% / 99.9% quantiles.
+ */
+export function demandBounds(dist: DemandDistribution): { min: number; max: number } {
+    const [lo, hi] = support(dist);
+    const unboundedBelow = dist.type === 'normal' && dist.min === undefined;
+    const unboundedAbove = (dist.type === 'normal' && dist.max === undefined) || dist.type === 'exponential';
+    return {
+        min: unboundedBelow ? demandQuantile(dist, 0.001) : lo,
+        max: unboundedAbove ? demandQuantile(dist, 0.999) : hi,
+    };
+}
+
+/**
+ * A plain-language description, as used in the AI's instructions.
+ */
+export function describeDemand(dist: DemandDistribution): string {
+    switch (dist.type) {
+        case 'uniform':
+            return `a uniform distribution from ${dist.min} to ${dist.max}`;
+        case 'normal': {
+            const truncation = dist.min !== undefined || dist.max !== undefined
+                ? `, truncated to the range ${dist.min ?? '-∞'} to ${dist.max ?? '∞'}`
+                : '';
+            return `a normal distribution with mean ${dist.mean} and standard deviation ${dist.sd}${truncation}`;
+        }
+        case 'triangular':
+            return `a triangular distribution from ${dist.min} to ${dist.max}, most likely around ${dist.mode}`;
+        case 'empirical': {
+            const probabilities = empiricalProbabilities(dist);
+            const outcomes = dist.values.map((v, i) => `${v} (${(probabilities[i] * 100).toFixed(0)}%)`);
+            return `a discrete distribution over the values ${outcomes.join(', ')}`;
+        }
+        case 'exponential':
+            return `an exponential distribution with mean ${dist.mean}`;
+    }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+/**
+ * What makes a demand distribution from a file or a request unusable, or undefined when the maths can work with it.
+ */
+export function demandDistributionProblem(value: unknown): string | undefined {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return 'the demand distribution must be an object.';
+    }
+    const demand = value as Record<string, unknown>;
+    switch (demand.type) {
+        case 'uniform':
+            if (!isNumber(demand.min) || !isNumber(demand.max) || demand.min < 0 || demand.min >= demand.max) {
+                return 'uniform demand needs 0 <= "min" < "max".';
+            }
+            return undefined;
+        case 'normal':
+            if (!isNumber(demand.mean) || !isNumber(demand.sd) || demand.sd <= 0) {
+                return 'normal demand needs a "mean" and a positive "sd".';
+            }
+            if ((demand.min !== undefined && !isNumber(demand.min)) || (demand.max !== undefined && !isNumber(demand.max))
+                || (isNumber(demand.min) && isNumber(demand.max) && demand.min >= demand.max)) {
+                return 'the truncation of normal demand needs "min" < "max".';
+            }
+            return undefined;
+        case 'triangular':
+            if (!isNumber(demand.min) || !isNumber(demand.mode) || !isNumber(demand.max) || demand.min < 0 || demand.min >= demand.max
+                || demand.mode < demand.min || demand.mode > demand.max) {
+                return 'triangular demand needs 0 <= "min" < "max" with "mode" between them.';
+            }
+            return undefined;
+        case 'empirical': {
+            const { values, probabilities } = demand;
+            if (!Array.isArray(values) || values.length === 0 || !values.every(v => isNumber(v) && v >= 0)) {
+                return 'empirical demand needs a non-empty list of non-negative "values".';
+            }
+            if (probabilities !== undefined && (!Array.isArray(probabilities) || probabilities.length !== values.length
+                || !probabilities.every(pr => isNumber(pr) && pr >= 0) || !probabilities.some(pr => pr > 0))) {
+                return '"probabilities" must give a non-negative weight to each value, not all of them zero.';
+            }
+            return undefined;
+        }
+        case 'exponential':
+            if (!isNumber(demand.mean) || demand.mean <= 0) {
+                return 'exponential demand needs a positive "mean".';
+            }
+            return undefined;
+        default:
+            return 'unknown demand distribution type.';
+    }
+}
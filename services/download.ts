@@ -0,0 +1,11 @@
+/**
+ * Saves text as a file through the browser's download prompt.
+ */
+export function downloadFile(fileName: string, content: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
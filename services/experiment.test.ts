@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseExperimentConfig, roundSequence } from './experiment';
+import { priorBelief, updateBelief } from './beliefs';
+import { nashBargainingSolution } from './negotiationService';
+
+const config = (treatment: Record<string, unknown>) => JSON.stringify({ id: 'study', seed: 1, treatments: [{ id: 't1', ...treatment }] });
+
+describe('parseExperimentConfig', () => {
+    it('reads demand given in full or as a preset key', () => {
+        expect(parseExperimentConfig(config({ demand: 'normal' })).treatments[0].demand.type).toBe('normal');
+        expect(parseExperimentConfig(config({ demand: { type: 'triangular', min: 0, mode: 30, max: 90 } })).treatments[0].demand)
+            .toEqual({ type: 'triangular', min: 0, mode: 30, max: 90 });
+    });
+
+    it.each([
+        [{ type: 'uniform', min: 100, max: 0 }],
+        [{ type: 'normal', mean: 50, sd: -1 }],
+        [{ type: 'empirical', values: [] }],
+        [{ type: 'triangular', min: 0, mode: 150, max: 100 }],
+    ])('rejects demand the maths cannot use: %j', demand => {
+        expect(() => parseExperimentConfig(config({ demand }))).toThrow(/^Treatment 1: /);
+    });
+
+    it('rejects settings of the wrong type', () => {
+        expect(() => parseExperimentConfig(config({ rounds: '3' }))).toThrow(/"rounds"/);
+        expect(() => parseExperimentConfig(config({ strategy: 'toString' }))).toThrow(/"strategy"/);
+        expect(() => parseExperimentConfig('[]')).toThrow(/JSON object/);
+    });
+
+    it('takes only the presets themselves as preset keys, not what every object inherits', () => {
+        expect(() => parseExperimentConfig(config({ contract: 'constructor' }))).toThrow(/unknown contract "constructor"/);
+        expect(() => parseExperimentConfig(config({ demand: 'toString' }))).toThrow(/unknown demand preset "toString"/);
+        expect(() => parseExperimentConfig(config({ limits: 'constructor' }))).toThrow(/unknown limits preset "constructor"/);
+        expect(() => parseExperimentConfig(config({ inequityAversion: 'hasOwnProperty' }))).toThrow(/unknown inequity aversion preset/);
+        expect(parseExperimentConfig(config({ persona: 'constructor' })).treatments[0].persona).toBe('constructor');
+    });
+});
+
+describe('roundSequence', () => {
+    it('keeps the treatment grid with each round, so the AI believes in the values it is drawn from', () => {
+        const experiment = parseExperimentConfig(config({ information: 'private', aiRole: 'retailer', costValues: [6, 7], priceValues: [14, 15], rounds: 4 }));
+        for (const round of roundSequence(experiment, experiment.treatments[0], 'participant')) {
+            const prior = priorBelief(round);
+            expect(prior.values).toEqual([6, 7]);
+            const nash = nashBargainingSolution(round);
+            const belief = updateBelief(prior, { w: nash.wholesale_price, q: nash.order_quantity }, round);
+            expect(belief.probabilities[belief.values.indexOf(round.c)]).toBeGreaterThan(0.5);
+        }
+    });
+});
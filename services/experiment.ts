@@ -0,0 +1,350 @@
+import type { ConcessionStrategy, ContractTerms, DemandDistribution, ExperimentAssignment, ExperimentConfig, InequityAversion, NegotiationLimits, NegotiationParams, Treatment } from '../types';
+import { createRng, shuffled } from './random';
+import { storage } from './sessionLog';
+import { MAX_GUILT } from './inequityAversion';
+import { contractTermsProblem } from './contracts';
+import { demandDistributionProblem } from './demandDistribution';
+import { CONTRACT_PRESETS, COST_VALUES, DEMAND_PRESETS, INEQUITY_AVERSION_PRESETS, INITIAL_PARAMS, LIMIT_PRESETS, PERSONA_PRESETS, PRICE_VALUES, STRATEGY_LABELS, SYMMETRIC_BARGAINING } from '../constants';
+
+/**
+ * Experiment configurations: treatments, the balanced assignment of participants to them, and each
+ * participant's fixed sequence of rounds. Everything random is seeded by the configuration's seed, so a
+ * schedule is reproduced from the configuration, the participant id and the enrolment number.
+ */
+
+export interface ParticipantSchedule {
+    participantId: string;
+    participantNumber: number;
+    treatment: Treatment;
+    rounds: NegotiationParams[];
+}
+
+const MAX_ROUNDS = 100;
+
+export const EXAMPLE_EXPERIMENT: ExperimentConfig = {
+    id: 'example',
+    seed: 'example-seed',
+    conversionRate: 0.02,
+    treatments: [
+        {
+            id: 'full-info',
+            label: 'Full information',
+            aiRole: 'retailer',
+            information: 'full',
+            contract: { type: 'wholesale' },
+            demand: DEMAND_PRESETS.uniform.demand,
+            retailerWeight: 0.5,
+            costValues: COST_VALUES,
+            priceValues: PRICE_VALUES,
+            rounds: 10,
+            rememberPastRounds: true,
+        },
+        {
+            id: 'private-info',
+            label: 'Private information',
+            aiRole: 'retailer',
+            information: 'private',
+            contract: { type: 'wholesale' },
+            demand: DEMAND_PRESETS.uniform.demand,
+            retailerWeight: 0.5,
+            costValues: COST_VALUES,
+            priceValues: PRICE_VALUES,
+            rounds: 10,
+        },
+    ],
+};
+
+/**
+ * The negotiation parameters of one round of a treatment.
+ */
+export function treatmentParams(treatment: Treatment, c: number, p: number): NegotiationParams {
+    return {
+        ...INITIAL_PARAMS,
+        c,
+        p,
+        demand: treatment.demand,
+        bargaining: { ...SYMMETRIC_BARGAINING, retailerWeight: treatment.retailerWeight },
+        contract: treatment.contract,
+        aiRole: treatment.aiRole,
+        information: treatment.information,
+        persona: treatment.persona,
+        strategy: treatment.strategy,
+        inequityAversion: treatment.inequityAversion,
+        limits: treatment.limits,
+        grid: { costValues: treatment.costValues, priceValues: treatment.priceValues },
+    };
+}
+
+/**
+ * Balanced assignment: participants enrol in blocks holding every treatment once, in a seeded random order per block.
+ */
+export function assignTreatment(config: ExperimentConfig, participantNumber: number): Treatment {
+    const count = config.treatments.length;
+    const block = Math.floor(participantNumber / count);
+    return shuffled(config.treatments, createRng(config.seed, 'block', block))[participantNumber % count];
+}
+
+/**
+ * A participant's rounds: every (c, p) combination of the treatment's grids once per block of rounds,
+ * in a random order seeded by the participant id.
+ */
+export function roundSequence(config: ExperimentConfig, treatment: Treatment, participantId: string): NegotiationParams[] {
+    const combinations = treatment.costValues.flatMap(c => treatment.priceValues.map(p => ({ c, p })));
+    const rng = createRng(config.seed, treatment.id, participantId);
+    const draws: { c: number; p: number }[] = [];
+    while (draws.length < treatment.rounds) {
+        draws.push(...shuffled(combinations, rng));
+    }
+    return draws.slice(0, treatment.rounds).map(({ c, p }) => treatmentParams(treatment, c, p));
+}
+
+export function participantSchedule(config: ExperimentConfig, participantId: string, participantNumber: number): ParticipantSchedule {
+    const treatment = assignTreatment(config, participantNumber);
+    return { participantId, participantNumber, treatment, rounds: roundSequence(config, treatment, participantId) };
+}
+
+/**
+ * What a session records about its place in the experiment. `roundIndex` is 0-based.
+ */
+export function roundAssignment(config: ExperimentConfig, schedule: ParticipantSchedule, roundIndex: number): ExperimentAssignment {
+    return {
+        experimentId: config.id,
+        treatmentId: schedule.treatment.id,
+        participantNumber: schedule.participantNumber,
+        round: roundIndex + 1,
+        totalRounds: schedule.rounds.length,
+    };
+}
+
+const ACTIVE_EXPERIMENT_KEY = 'negotiation-experiment';
+const enrolmentKey = (config: ExperimentConfig) => `negotiation-experiment-enrolment-${config.id}`;
+
+export function loadActiveExperiment(): ExperimentConfig | null {
+    const raw = storage()?.getItem(ACTIVE_EXPERIMENT_KEY);
+    if (!raw) {
+        return null;
+    }
+    try {
+        return parseExperimentConfig(raw);
+    } catch (error) {
+        console.error('Could not read the active experiment:', error);
+        return null;
+    }
+}
+
+export function saveActiveExperiment(config: ExperimentConfig | null): void {
+    if (config) {
+        storage()?.setItem(ACTIVE_EXPERIMENT_KEY, JSON.stringify(config));
+    } else {
+        storage()?.removeItem(ACTIVE_EXPERIMENT_KEY);
+    }
+}
+
+/**
+ * The participant's enrolment number in the experiment: the one they already have, or the next free one.
+ */
+export function enrolParticipant(config: ExperimentConfig, participantId: string): number {
+    let enrolment: Record<string, number> = {};
+    try {
+        enrolment = JSON.parse(storage()?.getItem(enrolmentKey(config)) ?? '{}');
+    } catch (error) {
+        console.error('Could not read the enrolment list:', error);
+    }
+    if (enrolment[participantId] === undefined) {
+        enrolment[participantId] = Object.keys(enrolment).length;
+        storage()?.setItem(enrolmentKey(config), JSON.stringify(enrolment));
+    }
+    return enrolment[participantId];
+}
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStrategy = (value: unknown): value is ConcessionStrategy => typeof value === 'string' && Object.hasOwn(STRATEGY_LABELS, value);
+
+function readGrid(value: unknown, fallback: number[], where: string): number[] {
+    if (value === undefined) {
+        return fallback;
+    }
+    if (!Array.isArray(value) || value.length === 0 || !value.every(isPositiveNumber)) {
+        throw new Error(`${where} must be a non-empty list of positive numbers.`);
+    }
+    return value;
+}
+
+// Contracts and demand are given either in full or as the key of a preset, e.g. "buyback" or "normal".
+function readContract(value: unknown, where: string): ContractTerms {
+    if (value === undefined) {
+        return INITIAL_PARAMS.contract;
+    }
+    if (typeof value === 'string') {
+        if (!Object.hasOwn(CONTRACT_PRESETS, value)) {
+            throw new Error(`${where}: unknown contract "${value}".`);
+        }
+        return CONTRACT_PRESETS[value as keyof typeof CONTRACT_PRESETS].terms;
+    }
+    const problem = contractTermsProblem(value);
+    if (problem) {
+        throw new Error(`${where}: ${problem}`);
+    }
+    return value as ContractTerms;
+}
+
+function readDemand(value: unknown, where: string): DemandDistribution {
+    if (value === undefined) {
+        return INITIAL_PARAMS.demand;
+    }
+    if (typeof value === 'string') {
+        if (!Object.hasOwn(DEMAND_PRESETS, value)) {
+            throw new Error(`${where}: unknown demand preset "${value}".`);
+        }
+        return DEMAND_PRESETS[value].demand;
+    }
+    const problem = demandDistributionProblem(value);
+    if (problem) {
+        throw new Error(`${where}: ${problem}`);
+    }
+    return value as DemandDistribution;
+}
+
+const LIMIT_FIELDS: (keyof NegotiationLimits)[] = ['timeLimitSeconds', 'maxOffers', 'aiWalkAwayAfter'];
+
+function readLimits(value: unknown, where: string): NegotiationLimits | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value === 'string') {
+        if (!Object.hasOwn(LIMIT_PRESETS, value)) {
+            throw new Error(`${where}: unknown limits preset "${value}".`);
+        }
+        return LIMIT_PRESETS[value].limits;
+    }
+    const limits = value as Record<string, unknown>;
+    if (!limits || typeof limits !== 'object') {
+        throw new Error(`${where}: "limits" must be an object or a preset key.`);
+    }
+    const invalid = LIMIT_FIELDS.find(field => limits[field] !== undefined && !(Number.isInteger(limits[field]) && isPositiveNumber(limits[field])));
+    if (invalid) {
+        throw new Error(`${where}: "${invalid}" must be a positive whole number.`);
+    }
+    return Object.fromEntries(LIMIT_FIELDS.filter(field => limits[field] !== undefined).map(field => [field, limits[field]]));
+}
+
+function readInequityAversion(value: unknown, where: string): InequityAversion | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value === 'string') {
+        if (!Object.hasOwn(INEQUITY_AVERSION_PRESETS, value)) {
+            throw new Error(`${where}: unknown inequity aversion preset "${value}".`);
+        }
+        return INEQUITY_AVERSION_PRESETS[value].inequityAversion;
+    }
+    const aversion = value as Record<string, unknown>;
+    if (!aversion || typeof aversion !== 'object') {
+        throw new Error(`${where}: "inequityAversion" must be an object or a preset key.`);
+    }
+    const { envy, guilt } = aversion;
+    if (typeof envy !== 'number' || envy < 0) {
+        throw new Error(`${where}: "envy" must be a number of at least 0.`);
+    }
+    if (typeof guilt !== 'number' || guilt < 0 || guilt >= MAX_GUILT) {
+        throw new Error(`${where}: "guilt" must be at least 0 and below ${MAX_GUILT}.`);
+    }
+    return { envy, guilt };
+}
+
+// A persona is either the key of a preset or a tone instruction of its own.
+const readPersona = (value: string | undefined) => (value !== undefined && Object.hasOwn(PERSONA_PRESETS, value) ? PERSONA_PRESETS[value].persona : value);
+
+function readTreatment(data: unknown, index: number): Treatment {
+    const where = `Treatment ${index + 1}`;
+    if (!isObject(data)) {
+        throw new Error(`${where} must be an object.`);
+    }
+    if (typeof data.id !== 'string' || !data.id.trim()) {
+        throw new Error(`${where} needs an "id".`);
+    }
+    const aiRole = data.aiRole ?? INITIAL_PARAMS.aiRole;
+    if (aiRole !== 'supplier' && aiRole !== 'retailer') {
+        throw new Error(`${where}: "aiRole" must be "supplier" or "retailer".`);
+    }
+    const information = data.information ?? INITIAL_PARAMS.information;
+    if (information !== 'full' && information !== 'private') {
+        throw new Error(`${where}: "information" must be "full" or "private".`);
+    }
+    const retailerWeight = data.retailerWeight ?? SYMMETRIC_BARGAINING.retailerWeight;
+    if (typeof retailerWeight !== 'number' || retailerWeight < 0 || retailerWeight > 1) {
+        throw new Error(`${where}: "retailerWeight" must be between 0 and 1.`);
+    }
+    const rounds = data.rounds ?? 1;
+    if (typeof rounds !== 'number' || !Number.isInteger(rounds) || rounds < 1 || rounds > MAX_ROUNDS) {
+        throw new Error(`${where}: "rounds" must be a whole number from 1 to ${MAX_ROUNDS}.`);
+    }
+    if (data.persona !== undefined && typeof data.persona !== 'string') {
+        throw new Error(`${where}: "persona" must be text.`);
+    }
+    if (data.strategy !== undefined && !isStrategy(data.strategy)) {
+        throw new Error(`${where}: "strategy" must be one of ${Object.keys(STRATEGY_LABELS).join(', ')}.`);
+    }
+    if (data.rememberPastRounds !== undefined && typeof data.rememberPastRounds !== 'boolean') {
+        throw new Error(`${where}: "rememberPastRounds" must be true or false.`);
+    }
+    const costValues = readGrid(data.costValues, COST_VALUES, `${where}: "costValues"`);
+    const priceValues = readGrid(data.priceValues, PRICE_VALUES, `${where}: "priceValues"`);
+    if (Math.max(...costValues) >= Math.min(...priceValues)) {
+        throw new Error(`${where}: every production cost must be below every retail price.`);
+    }
+    return {
+        id: data.id.trim(),
+        label: typeof data.label === 'string' ? data.label : undefined,
+        aiRole,
+        information,
+        contract: readContract(data.contract, where),
+        demand: readDemand(data.demand, where),
+        retailerWeight,
+        costValues,
+        priceValues,
+        rounds,
+        persona: readPersona(typeof data.persona === 'string' ? data.persona : undefined),
+        strategy: isStrategy(data.strategy) ? data.strategy : undefined,
+        inequityAversion: readInequityAversion(data.inequityAversion, where),
+        limits: readLimits(data.limits, where),
+        rememberPastRounds: typeof data.rememberPastRounds === 'boolean' ? data.rememberPastRounds : undefined,
+    };
+}
+
+/**
+ * Reads and checks an experiment configuration, filling in defaults for omitted treatment settings.
+ * Throws an Error describing the first problem found.
+ */
+export function parseExperimentConfig(text: string): ExperimentConfig {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The configuration is not valid JSON.');
+    }
+    if (!isObject(data)) {
+        throw new Error('The configuration must be a JSON object.');
+    }
+    if (typeof data.id !== 'string' || !data.id.trim()) {
+        throw new Error('The configuration needs an "id".');
+    }
+    if (typeof data.seed !== 'string' && typeof data.seed !== 'number') {
+        throw new Error('The configuration needs a "seed" (text or number).');
+    }
+    if (data.conversionRate !== undefined && !isPositiveNumber(data.conversionRate)) {
+        throw new Error('"conversionRate" must be a positive number (euros per unit of experimental currency).');
+    }
+    if (!Array.isArray(data.treatments) || data.treatments.length === 0) {
+        throw new Error('The configuration needs at least one treatment.');
+    }
+    const treatments = data.treatments.map(readTreatment);
+    const ids = new Set(treatments.map(t => t.id));
+    if (ids.size !== treatments.length) {
+        throw new Error('Treatment ids must be unique.');
+    }
+    return { id: data.id.trim(), seed: String(data.seed), conversionRate: isPositiveNumber(data.conversionRate) ? data.conversionRate : undefined, treatments };
+}
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { NegotiationParams } from '../types';
+import { getAiResponse } from './geminiService';
+import { setLlmProvider, type LlmRequest } from './llmProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { nashBargainingSolution } from './negotiationService';
+import { DEFAULT_STRATEGY } from './concessionStrategy';
+import { CONTRACT_PRESETS, DEMAND_PRESETS, INITIAL_PARAMS, SYMMETRIC_BARGAINING } from '../constants';
+
+// Lets a test break the turn parser, standing in for a bug in the code around the model call.
+const agentTurnBug = vi.hoisted(() => ({ enabled: false }));
+vi.mock('./agentTurn', async importOriginal => {
+    const actual = await importOriginal<typeof import('./agentTurn')>();
+    return {
+        ...actual,
+        parseAgentTurn: (text: string) => {
+            if (agentTurnBug.enabled) {
+                throw new TypeError("Cannot read properties of undefined (reading 'offer')");
+            }
+            return actual.parseAgentTurn(text);
+        },
+    };
+});
+
+const params: NegotiationParams = {
+    ...INITIAL_PARAMS,
+    c: 3,
+    p: 10,
+    demand: DEMAND_PRESETS.uniform.demand,
+    bargaining: SYMMETRIC_BARGAINING,
+    contract: CONTRACT_PRESETS.buyback.terms,
+    limits: {},
+    strategy: DEFAULT_STRATEGY,
+};
+
+afterEach(() => {
+    agentTurnBug.enabled = false;
+    setLlmProvider(createMockProvider());
+});
+
+describe('getAiResponse', () => {
+    it('sends back a reply that misstates a contract term', async () => {
+        const requests: LlmRequest[] = [];
+        // Phrases the decided move, first with the buyback price wrong.
+        setLlmProvider({
+            name: 'mock',
+            generate: async request => {
+                requests.push(request);
+                const field = (name: string) => request.systemInstruction.match(new RegExp(`^- ${name}: (.*)$`, 'm'))![1];
+                const offer = field('Offer');
+                const stated = requests.length === 1 ? offer.replace(/b=[\d.]+/, 'b=0.50') : offer;
+                const w = Number(offer.match(/w=([\d.]+)/)![1]);
+                const q = Number(offer.match(/q=(\d+)/)![1]);
+                const text = JSON.stringify({ analysis: '', scenario: parseInt(field('Scenario')), action: field('Action'), offer: { w, q }, text: `How about ${stated}?` });
+                return { text };
+            },
+        });
+
+        const response = await getAiResponse(
+            [{ id: 1, sender: 'user', text: 'I propose w=8 and q=50.' }], params, nashBargainingSolution(params), { w: 8, q: 50 },
+        );
+        expect(requests).toHaveLength(2);
+        expect(requests[1].messages[requests[1].messages.length - 1].text).toContain('b=2.00');
+        expect(response.validated).toBe(true);
+        expect(response.text).toContain('b=2.00');
+    });
+
+    it('lets a bug outside the model call through, even when falling back on failures', async () => {
+        setLlmProvider(createMockProvider({ chunkDelayMs: 0 }));
+        agentTurnBug.enabled = true;
+        await expect(getAiResponse(
+            [{ id: 1, sender: 'user', text: 'I propose w=8 and q=50.' }], params, nashBargainingSolution(params), { w: 8, q: 50 }, { fallbackOnFailure: true },
+        )).rejects.toBeInstanceOf(TypeError);
+    });
+});
@@ -1,14 +1,18 @@
-import { GoogleGenAI, Content, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import type { Message, NegotiationParams, NashSolution, AiResponse, Offer } from '../types';
-import { calculateProfits, optimalQForW, optimalWForQ, findQForTargetRetailerProfit, findWForTargetRetailerProfit } from './negotiationService';
-
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable is not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+import type { Message, NegotiationParams, NashSolution, AiResponse, Offer, PartialOffer, Belief, LlmFailure } from '../types';
+import { getLlmProvider, type LlmMessage, type LlmResult } from './llmProvider';
+import { callLlm } from './llmRequest';
+import { LlmError, toLlmError } from './llmErrors';
+import { AGENT_TURN_SCHEMA, offersMatch, parseAgentTurn, streamedReplyText, validateAgentTurn, type AgentTurn, type ExpectedMove } from './agentTurn';
+import { describeDemand } from './demandDistribution';
+import { classifyIntent, confirmUnlessBinding, decideAgentMove, defaultMoveText, describeMoveInstruction, walkAwayIfExhausted, type AgentMove } from './agentPolicy';
+import { DEFAULT_STRATEGY, describeSchedule, negotiationProgress, scheduledTargetProfit } from './concessionStrategy';
+import { parseOfferText, formatOfferListing, OFFER_READER_EXAMPLES, OFFER_CONFIDENCE_THRESHOLD } from './offerParser';
+import { contractTermValues, describeContract, formatOfferTerms, type ContractTermField } from './contracts';
+import { believedParams, describeBelief } from './beliefs';
+import { nashBargainingSolution } from './negotiationService';
+import { messageOffer } from './sessionLog';
+import { describePastRounds, type RoundResult } from './roundManager';
+import { ROLE_LABELS, otherRole } from '../constants';
 
 const offerReaderSystemInstruction = `You have a simple task to read the message from a negotiator and output the wholesale price and quantity that the negotiator is proposing in the following format: [Price in Euros, Quantity] like [6.50€, 40] or [, 30] or [7€,] Use a list format where the first item in the list is the price in euros and the second item is the quantity . 
 
@@ -23,331 +27,324 @@ Negotiators (either buyers or sellers) could mention their production cost or ma
 
 
 Examples:
-Message: Thanks for sharing your goals, Buyer! Based on our previous conversation, I'm happy to work towards a price agreement below the retail price. I'd like to explore Quantity options first. How about we aim for a Quantity of 40 and revisit Price later?
-Output: [, 40]
+${OFFER_READER_EXAMPLES.map(example => `Message: ${example.message}\nOutput: ${formatOfferListing(example.offer)}`).join('\n\n')}`;
 
-Message: Interesting, a price below 5.9€ and Quantity of 20 could work for me too. Can you consider a higher price, say around 6.4€, in exchange for a Quantity of 50?
-Output: [6.40€, 50]
-
-Message: I would like to agree on a price of 5.83 and a quantity of 30, do we have a deal?   
-Output: [5.83€, 30]
-
-Message: I understand your concern. As for quantity, a 60 units could be feasible, considering it still meets your expectations.
-Output: [, 60]
-
-Message: Considering my production cost, let's first discuss quantity levels.
-Output: [,]
+export interface ReadOfferOptions {
+    signal?: AbortSignal;
+    onFailure?: (failure: LlmFailure) => void; // Called for each failed call to the offer reader
+}
 
-Message: Price is 9.43 for 25 quantity.
-Output: [9.43€, 25]`;
+// Reading an offer should not hold up the reply for long: the rule-based parser is there to fall back on.
+const OFFER_READER_CALL = { timeoutMs: 15_000, maxRetries: 1, fallback: true };
 
-export async function parseOfferWithLLM(text: string): Promise<{ w?: number; q?: number }> {
+/**
+ * Asks the LLM offer reader for the w and q of a message. Rejects with an LlmError when the model is
+ * unavailable; an answer it cannot read counts as no offer.
+ */
+export async function parseOfferWithLLM(text: string, options: ReadOfferOptions = {}): Promise<{ w?: number; q?: number }> {
     if (!text || !text.trim()) {
         return {};
     }
-    try {
-        const response = await ai.models.generateContent({
-            model: 'models/gemini-2.5-flash',
-            contents: [{ role: 'user', parts: [{ text }] }],
-            config: {
-                systemInstruction: offerReaderSystemInstruction,
-                temperature: 0.01,
-            },
-        });
-
-        const responseText = response.text.trim();
-        // Expected format: [6.50€,40] or [,40] or [6.50€,] or [,]
-        const matches = responseText.match(/\[\s*([\d.]*)€?\s*,\s*([\d.]*)\s*\]/);
-
-        if (matches) {
-            const wStr = matches[1];
-            const qStr = matches[2];
-            const w = wStr ? parseFloat(wStr) : undefined;
-            const q = qStr ? parseInt(qStr, 10) : undefined;
-            
-            const result: { w?: number; q?: number } = {};
-            if (w !== undefined && !isNaN(w)) {
-                result.w = w;
-            }
-            if (q !== undefined && !isNaN(q)) {
-                result.q = q;
-            }
-            return result;
+    const response = await callLlm({
+        task: 'read-offer',
+        systemInstruction: offerReaderSystemInstruction,
+        messages: [{ role: 'user', text }],
+        temperature: 0.01,
+        signal: options.signal,
+    }, { ...OFFER_READER_CALL, onFailure: options.onFailure });
+
+    const responseText = response.text;
+    // Expected format: [6.50€,40] or [,40] or [6.50€,] or [,]
+    const matches = responseText.match(/\[\s*([\d.]*)€?\s*,\s*([\d.]*)\s*\]/);
+
+    if (matches) {
+        const wStr = matches[1];
+        const qStr = matches[2];
+        const w = wStr ? parseFloat(wStr) : undefined;
+        const q = qStr ? parseInt(qStr, 10) : undefined;
+        
+        const result: { w?: number; q?: number } = {};
+        if (w !== undefined && !isNaN(w)) {
+            result.w = w;
         }
-        console.warn("Could not parse offer from LLM response:", responseText);
-        return {};
-    } catch (error) {
-        console.error("Error parsing offer with LLM:", error);
-        return {};
+        if (q !== undefined && !isNaN(q)) {
+            result.q = q;
+        }
+        return result;
     }
+    console.warn("Could not parse offer from LLM response:", responseText);
+    return {};
 }
 
 
-const getBaseSystemInstruction = (params: NegotiationParams, nash: NashSolution) => `
-You are an AI role-playing as a Retailer in a supply chain negotiation. The user is the Supplier.
-Your goal is to negotiate a contract consisting of a wholesale price (w) and an order quantity (q).
+/**
+ * Reads an offer with the rule-based parser, asking the LLM offer reader only when the parser is unsure.
+ * The LLM reader only knows w and q, so secondary contract terms always come from the parser, and so do
+ * w and q when the model is unavailable.
+ */
+export async function parseOffer(text: string, options: ReadOfferOptions = {}): Promise<PartialOffer> {
+    const parsed = parseOfferText(text);
+    const result: PartialOffer = {};
+    for (const field of ['b', 'phi', 'threshold', 'discount'] as const) {
+        if (parsed[field] !== undefined) {
+            result[field] = parsed[field];
+        }
+    }
+    if (parsed.confidence < OFFER_CONFIDENCE_THRESHOLD) {
+        try {
+            return { ...result, ...await parseOfferWithLLM(text, options) };
+        } catch (error) {
+            if (!(error instanceof LlmError)) {
+                throw error;
+            }
+            console.warn('Offer reader unavailable, using the rule-based reading:', error.message);
+        }
+    }
+    if (parsed.w !== undefined) {
+        result.w = parsed.w;
+    }
+    if (parsed.q !== undefined) {
+        result.q = parsed.q;
+    }
+    return result;
+}
+
+/**
+ * The fixed parameters as seen from the AI's side. In the private-information mode the counterpart's one is withheld.
+ */
+const describeFixedParameters = (params: NegotiationParams) => {
+    const isPrivate = params.information === 'private';
+    return params.aiRole === 'supplier'
+        ? `    - Your production cost (c) is ${params.c}.
+    - ${isPrivate ? "The retailer's selling price to the end customer (p) is private; you do not know it." : `The retailer's selling price to the end customer (p) is ${params.p}.`}`
+        : `    - Your selling price to the end customer (p) is ${params.p}.
+    - ${isPrivate ? "The supplier's production cost (c) is private; you do not know it." : `The supplier's production cost (c) is ${params.c}.`}`;
+};
+
+const getBaseSystemInstruction = (params: NegotiationParams, targetProfit: number) => `
+You are an AI role-playing as a ${ROLE_LABELS[params.aiRole]} in a supply chain negotiation. The user is the ${ROLE_LABELS[otherRole(params.aiRole)]}.
+You negotiate a contract consisting of a wholesale price (w) and an order quantity (q). ${describeContract(params.contract)}
 
 [CRITICAL DIRECTIVE]
-**YOU MUST FOLLOW THE RESPONSE SCENARIOS EXACTLY AS WRITTEN. DO NOT DEVIATE. YOU ARE FORBIDDEN FROM INVENTING YOUR OWN VALUES FOR 'w' OR 'q'. Your response MUST be based *only* on the logic provided in the scenario and the data in the [CONTEXT FOR YOUR NEXT RESPONSE] block. Failure to comply will result in an incorrect negotiation.**
+**Your move for this turn has already been decided and is given in the [YOUR MOVE] block. Your only job is to phrase it for the user. YOU ARE FORBIDDEN FROM INVENTING YOUR OWN VALUES FOR 'w' OR 'q' OR CHANGING THE MOVE. The only numbers you may state are the ones in the [YOUR MOVE] block.**
 
-[BACKGROUND & RULES]
+[BACKGROUND]
 1.  **Fixed Parameters:**
-    - Your selling price to the end customer (p) is ${params.p}.
-    - The supplier's production cost (c) is ${params.c}.
-    - Customer demand is uncertain, following a uniform distribution from ${params.demand_min} to ${params.demand_max}.
-2.  **Your Goal:** Your primary goal is to secure a deal where your expected profit is at least as high as the profit from the optimal Nash Bargaining Solution. The Nash solution represents the most efficient deal, and its profit level of ${nash.retailer_profit.toFixed(2)} is your minimum acceptable profit. You should aim for deals that meet or exceed this target.
-3.  **The Optimal Target (Nash Solution):** The ideal contract that maximizes total profit and splits it evenly is approximately w=${nash.wholesale_price.toFixed(2)}, q=${nash.order_quantity.toFixed(0)}. This results in an expected profit of about ${nash.retailer_profit.toFixed(2)} for each party. Use this as your benchmark.
-4.  **Concluding a Deal:** The user has the final say. If you agree with their offer, you must repeat it back to them so they can click 'Accept'. For example: "Great, I agree to w=7.31 and q=70. Please confirm, and we have a deal."
-
-[RESPONSE SCENARIOS]
-You MUST evaluate the user's message and follow the instructions for the matching scenario.
-
-- **Scenario 1: User makes a full offer (provides both w and q).**
-  - Your internal analysis in the [CONTEXT FOR YOUR NEXT RESPONSE] block will tell you if the offer is favorable.
-  - **If FAVORABLE (your profit >= your target Nash profit):** You MUST accept the deal by repeating the exact offer back to the user to allow them to confirm. Your response must be in a format like: "That looks like a fair proposal. I can agree to a wholesale price (w) of [user's w] and a quantity (q) of [user's q]. If you confirm, we have a deal." This action prompts the user for final confirmation.
-  - **If UNFAVORABLE (your profit < your target Nash profit):** You MUST reject their offer and propose a counter-offer. You will keep their proposed quantity 'q' and counter with the precise 'w' value provided to you. This new 'w' is calculated to ensure you achieve your target (Nash) profit.
-  - **If it's impossible to achieve your target profit with their proposed 'q':** You MUST reject the offer entirely and re-propose the initial optimal offer instead.
-
-- **Scenario 2: User makes a partial offer (provides only w).**
-  - Your internal analysis in the [CONTEXT FOR YOUR NEXT RESPONSE] block will determine if your target profit (the Nash profit) is achievable with the user's proposed 'w'.
-  - If ACHIEVABLE, you MUST propose a complete offer. You will use their 'w' and combine it with the precise 'q' calculated for you in the [CONTEXT FOR YOUR NEXT RESPONSE] block that meets your profit goal.
-  - If UNACHIEVABLE, you MUST reject their 'w' as unattractive and re-propose the initial optimal (Nash) offer provided in the [CONTEXT FOR YOUR NEXT RESPONSE] block.
-
-- **Scenario 3: User makes a partial offer (provides only q).**
-  - Your internal analysis in the [CONTEXT FOR YOUR NEXT RESPONSE] block will determine if your target profit (the Nash profit) is achievable with the user's proposed 'q'.
-  - If ACHIEVABLE, you MUST propose a complete offer. You will use their 'q' and combine it with the precise 'w' calculated for you in the [CONTEXT FOR YOUR NEXT RESPONSE] block that meets your profit goal.
-  - If UNACHIEVABLE, you MUST reject their 'q' as unattractive and re-propose the initial optimal (Nash) offer provided in the [CONTEXT FOR YOUR NEXT RESPONSE] block.
-
-- **Scenario 4: User sends a message without a clear numerical offer.**
-  - Respond conversationally.
-  - **If the user asks for your maximum acceptable price OR your minimum acceptable quantity:** You MUST respond with the specific conditional offer provided for that case in the [CONTEXT FOR YOUR NEXT RESPONSE] block. These offers are calculated to meet your profit goals at the edges of the negotiation space.
-  - **If the user asks you to make a general offer (without specifying price or quantity preferences like min/max):** You MUST propose the "Initial Optimal Offer" from above. This is your standard, balanced proposal.
-  - **For all other conversational messages (e.g., greetings, simple questions):** Just ask them for a specific proposal. Do not propose an offer. You can re-state your previous offer if you wish.
+${describeFixedParameters(params)}
+    - Customer demand is uncertain, following ${describeDemand(params.demand)}.
+2.  **Your Goal:** You aim for deals where your expected profit is at least ${targetProfit.toFixed(2)}. Your moves are calculated to achieve this.
+3.  **Concluding a Deal:** Offers sent with the offer form are binding. When your move is to accept such an offer, your acceptance closes the deal. When the user only wrote their terms in a message, you propose them back as your own offer so they can click 'Accept'. For example: "Great, I agree to w=7.31 and q=70. Accept my offer, and we have a deal."
 
 [OUTPUT FORMAT]
-You MUST structure your entire response in two parts, exactly as follows. This is not optional.
-
-[INTERNAL ANALYSIS LOG]
-- Scenario Detected: [State the scenario number you are following, e.g., 1, 2, 3, or 4]
-- Analysis: [Briefly explain your data analysis. e.g., "Offer is favorable because my profit X is >= supplier profit Y.", "Calculating optimal q for w=Z.", "No offer detected, will propose initial Nash."]
-- Action: [State the action you will take. e.g., "Accepting the deal by repeating it back.", "Proposing counter-offer.", "Proposing full deal."]
-
-[FINAL RESPONSE]
-[Your final, conversational response to the user goes here. This is the only part the user will see in the chat.]
+You MUST reply with a single JSON object matching the response schema. This is not optional. Its fields are:
+- "analysis": A brief internal note on how you phrase the move. The user never sees this.
+- "scenario": Copy the scenario number from the [YOUR MOVE] block.
+- "action": Copy the action from the [YOUR MOVE] block.
+- "offer": Copy the offer from the [YOUR MOVE] block as {"w": <wholesale price>, "q": <quantity>}. Leave it out when the block says "Offer: none".
+- "text": Your conversational response to the user. This is the only part the user will see in the chat. It MUST state the offer's w and q exactly when there is one, along with any other contract terms in the offer.
 
 [YOUR BEHAVIOR]
-- **Tone:** Be professional, polite, and concise. Maintain a natural, human-like tone.
+- **Tone:** Be professional, polite, and concise. Maintain a natural, human-like tone.${params.persona ? `\n- **Persona:** ${params.persona}` : ''}
 - **Clarity:** Always specify both 'w' and 'q' in your offers. For example: "I propose a wholesale price (w) of 7 and a quantity (q) of 70."
 - **DO NOT:**
     - Do not reveal your internal strategy, calculations, exact profit numbers, or mention "Nash," "Pareto," or "efficiency."
-    - **Crucially: Do not invent your own offer values.** You must either accept the user's offer or use the exact counter-offer values provided to you in the [CONTEXT FOR YOUR NEXT RESPONSE] block. This is the most important rule.
-    - Do not get stuck. If the negotiation stalls, propose a small concession towards the supplier's position while still aiming for a near-optimal deal.
+    - Do not mention production costs, retail prices or any number other than the offer in [YOUR MOVE].
+`;
+
+/**
+ * Earlier rounds with the same participant, when the AI remembers them.
+ */
+const getPastRoundsContext = (pastRounds: RoundResult[]) => `
+[PAST ROUNDS WITH THIS PARTICIPANT]
+You have negotiated with this participant before:
+${describePastRounds(pastRounds)}
+You may refer to these rounds in words (e.g. "like last time"), but never repeat their numbers.
+`;
+
+const SCENARIO_DESCRIPTIONS: Record<AgentMove['scenario'], string> = {
+    1: 'User made a full offer',
+    2: "User offered 'w' only",
+    3: "User offered 'q' only",
+    4: 'User sent a message without an offer',
+};
+
+/**
+ * The decided move, in the block format the model (and the offline mock) reads.
+ */
+const getMoveContext = (move: AgentMove) => `
+[YOUR MOVE]
+- Role: ${move.role}
+- Scenario: ${move.scenario} (${SCENARIO_DESCRIPTIONS[move.scenario]})
+- Move: ${move.kind}
+- Action: ${move.action}
+- Contract: ${move.offer?.type ?? 'none'}
+- Offer: ${move.offer ? formatOfferTerms(move.offer) : 'none'}
+- Internal reasoning (never share): ${move.reason}
+- What to say: ${describeMoveInstruction(move)}
 `;
 
+// How often the agent may correct a reply that fails validation before we fall back.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Secondary terms are quoted to two decimals too; the threshold is a whole number of units.
+const TERM_TOLERANCE = 0.006;
+
+const offerTextMatches = (text: string, offer: Offer) => {
+    const parsed = parseOfferText(text);
+    if (parsed.w === undefined || parsed.q === undefined || !offersMatch(offer, { w: parsed.w, q: parsed.q })) {
+        return false;
+    }
+    return Object.entries(contractTermValues(offer)).every(([field, value]) => {
+        const stated = parsed[field as ContractTermField];
+        return stated !== undefined && (field === 'threshold' ? Math.round(stated) === value : Math.abs(stated - value) <= TERM_TOLERANCE);
+    });
+};
+
+/**
+ * Checks a phrased turn against the decided move: same scenario, action and offer, and text that states that offer
+ * with all of its contract terms.
+ */
+function validatePhrasing(turn: AgentTurn, move: AgentMove): string[] {
+    const expected: ExpectedMove = {
+        scenario: move.scenario,
+        actions: [move.action],
+        offers: move.offer ? [move.offer] : [],
+        offerRequired: move.offer !== undefined,
+    };
+    const problems = validateAgentTurn(turn, expected);
+    if (move.offer && !offerTextMatches(turn.text, move.offer)) {
+        problems.push(`"text" must state ${formatOfferTerms(move.offer)} and no other offer.`);
+    }
+    return problems;
+}
+
+/**
+ * What the AI knows beyond the current chat.
+ */
+export interface AgentContext {
+    belief?: Belief; // Private-information mode: the AI's belief over the counterpart's parameter
+    pastRounds?: RoundResult[]; // Earlier rounds with the same participant, when the AI remembers them
+    unacceptableStreak?: number; // Unacceptable offers in a row before this one, for the walk-away limit
+    signal?: AbortSignal; // Cancels the reply; getAiResponse then rejects with the abort error
+    onText?: (textSoFar: string) => void; // Streams the user-visible text of the reply as it arrives
+    onFailure?: (failure: LlmFailure) => void; // Called for each failed call to the model
+    offline?: boolean; // Phrase the move with its template, without calling the model
+    fallbackOnFailure?: boolean; // Use the template phrasing instead of rejecting when the model stays unavailable
+}
+
+/**
+ * Decides and phrases the AI's reply. With a belief (private-information mode) the AI plans with the
+ * counterpart's parameter at its expected value and its own Nash benchmark, never the true ones.
+ * The session's concession strategy sets the target profit for this turn.
+ * Rejects with an LlmError when the model is unavailable, unless the context asks for the template phrasing instead.
+ */
 export async function getAiResponse(
     chatHistory: Message[],
     params: NegotiationParams,
     nash: NashSolution,
-    lastUserOffer: {w?: number, q?: number}
+    lastUserOffer: PartialOffer,
+    context: AgentContext = {}
 ): Promise<AiResponse> {
+    const { belief, pastRounds, unacceptableStreak = 0, signal, onText, onFailure, offline, fallbackOnFailure } = context;
+
+    const agentParams = belief ? believedParams(params, belief) : params;
+    const agentNash = belief ? nashBargainingSolution(agentParams) : nash;
 
-    let systemInstruction = getBaseSystemInstruction(params, nash);
     const lastUserMessage = chatHistory[chatHistory.length - 1];
-    
-    const contents: Content[] = chatHistory.map(msg => ({
+    const strategy = params.strategy ?? DEFAULT_STRATEGY;
+    const progress = negotiationProgress(chatHistory, params);
+    // The latest message may not carry its parsed offer yet, so it is given as lastUserOffer.
+    const userOffers = [
+        ...chatHistory.slice(0, -1).filter(m => m.sender === 'user').map(messageOffer).filter(o => o !== undefined),
+        lastUserOffer,
+    ];
+    const targetProfit = scheduledTargetProfit(strategy, agentParams, agentNash, progress, userOffers);
+    const decidedMove = lastUserMessage.sender === 'user'
+        ? confirmUnlessBinding(decideAgentMove(lastUserOffer, classifyIntent(lastUserMessage.text), agentParams, agentNash, targetProfit), lastUserMessage.offer !== undefined)
+        : decideAgentMove({}, 'other', agentParams, agentNash, targetProfit);
+    const move = walkAwayIfExhausted(decidedMove, unacceptableStreak, params);
+
+    const pastRoundsContext = pastRounds && pastRounds.length > 0 ? `\n${getPastRoundsContext(pastRounds)}` : '';
+    const systemInstruction = getBaseSystemInstruction(params, targetProfit) + pastRoundsContext + `\n${getMoveContext(move)}`;
+    const messages: LlmMessage[] = chatHistory.map(msg => ({
       role: msg.sender === 'ai' ? 'model' : 'user',
-      parts: [{ text: msg.text }],
+      text: msg.text,
     }));
 
-    if (lastUserMessage.sender === 'user') {
-        const w = lastUserOffer.w;
-        const q = lastUserOffer.q;
+    // Whatever the model writes, the structured data comes from the policy.
+    const decided: AiResponse = {
+        text: '', offer: move.offer, scenario: move.scenario, action: move.action,
+        unacceptable: move.scenario === 4 ? undefined : move.unacceptable,
+    };
+    const debugLog: string[] = [systemInstruction];
+    debugLog.push(`--- STRATEGY ---\n\n${describeSchedule(strategy, progress, targetProfit, agentParams, agentNash)}`);
+    if (belief) {
+        debugLog.push(`--- BELIEF ---\n\n${describeBelief(belief)}`);
+    }
+    // The decided move in plain words, for when the model gives no usable phrasing or cannot be reached.
+    const templateReply = (): AiResponse => ({ ...decided, text: defaultMoveText(move), debugPrompt: debugLog.join('\n\n'), validated: false });
 
-        // We consider offers invalid if w or q are zero or less.
-        const hasValidW = w !== undefined && w > 0;
-        const hasValidQ = q !== undefined && q > 0;
-        
-        let analysisContext = '';
-        const targetRetailerProfit = nash.retailer_profit;
-
-        // SCENARIO 1: Full Offer (w and q)
-        if (hasValidW && hasValidQ) {
-            const offer: Offer = { w: w!, q: q! };
-            const profits = calculateProfits(offer.w, offer.q, params);
-            
-            const newW = findWForTargetRetailerProfit(offer.q, targetRetailerProfit, params);
-
-            const isFavorable = profits.retailer_profit >= nash.retailer_profit;
-            const profitComparison = isFavorable 
-                ? `The offer is favorable. The retailer's profit (${profits.retailer_profit.toFixed(2)}) meets or exceeds the target Nash profit (${nash.retailer_profit.toFixed(2)}).`
-                : `The offer is unfavorable. The retailer's profit (${profits.retailer_profit.toFixed(2)}) is below the target Nash profit (${nash.retailer_profit.toFixed(2)}).`;
-
-            if (isFavorable) {
-                 analysisContext = `
-[CONTEXT FOR YOUR NEXT RESPONSE]
-- **Current Scenario: 1 (User made a full offer)**
-- **User's Offer:** w=${offer.w}, q=${offer.q}
-- **Data Analysis:**
-  - Calculated Supplier Profit from user's offer: ${profits.supplier_profit.toFixed(2)}
-  - Calculated Retailer Profit from user's offer: ${profits.retailer_profit.toFixed(2)}
-  - **Comparison:** ${profitComparison}
-- **MANDATORY ACTION:** The offer is favorable. You MUST accept it by repeating the offer back to the user for their final confirmation. Your response should be something like: "That's a fair offer. I can agree to w=${offer.w.toFixed(2)} and q=${offer.q.toFixed(0)}. Please confirm, and we have a deal."
-`;
-            } else if (newW !== null) {
-                analysisContext = `
-[CONTEXT FOR YOUR NEXT RESPONSE]
-- **Current Scenario: 1 (User made a full offer)**
-- **User's Offer:** w=${offer.w}, q=${offer.q}
-- **Data Analysis:**
-  - Calculated Supplier Profit from user's offer: ${profits.supplier_profit.toFixed(2)}
-  - Calculated Retailer Profit from user's offer: ${profits.retailer_profit.toFixed(2)}
-  - **Comparison:** ${profitComparison}
-- **MANDATORY ACTION:** The offer is unfavorable. You MUST make a counter-offer. You will keep their quantity (q=${offer.q}) and propose the adjusted wholesale price (w) of ${newW.toFixed(2)}. This new price is calculated to ensure you achieve your target profit of ${targetRetailerProfit.toFixed(2)}.
-`;
-            } else {
-                // The proposed 'q' is not attractive enough to reach the Nash profit
-                analysisContext = `
-[CONTEXT FOR YOUR NEXT RESPONSE]
-- **Current Scenario: 1 (User made a full offer)**
-- **User's Offer:** w=${offer.w}, q=${offer.q}
-- **Data Analysis:** Your target profit of ${targetRetailerProfit.toFixed(2)} is unachievable with the proposed quantity q=${offer.q}. It is too low or otherwise unattractive.
-- **MANDATORY ACTION:** Formulate a response that politely rejects their full offer. You MUST state that the proposed quantity is not attractive, and then you MUST re-propose the initial optimal offer of w=${nash.wholesale_price.toFixed(2)}, q=${nash.order_quantity.toFixed(0)}.
-`;
-            }
-        } 
-        // SCENARIO 2: Partial Offer (w only)
-        else if (hasValidW) {
-            const newQ = findQForTargetRetailerProfit(w!, targetRetailerProfit, params);
-
-            if (newQ !== null) {
-                // We found a q that matches the Nash profit for the retailer
-                analysisContext = `
-[CONTEXT FOR YOUR NEXT RESPONSE]
-- **Current Scenario: 2 (User offered 'w' only)**
-- **User's Partial Offer:** w=${w}
-- **Data Analysis:** Your target profit of ${targetRetailerProfit.toFixed(2)} is achievable with this 'w'. The quantity required to meet this profit target is q=${newQ.toFixed(0)}.
-- **MANDATORY ACTION:** Formulate a response that accepts their price of w=${w} and proposes the calculated quantity of q=${newQ.toFixed(0)} as a full deal.
-`;
-            } else {
-                // The proposed 'w' is not attractive enough to reach the Nash profit
-                analysisContext = `
-[CONTEXT FOR YOUR NEXT RESPONSE]
-- **Current Scenario: 2 (User offered 'w' only)**
-- **User's Partial Offer:** w=${w}
-- **Data Analysis:** This wholesale price is not attractive. It is not possible to find a quantity 'q' that would give you your target profit of ${targetRetailerProfit.toFixed(2)}.
-- **MANDATORY ACTION:** Formulate a response that politely rejects their offer. You MUST state that the proposed price is not attractive and then you MUST re-propose the initial optimal offer of w=${nash.wholesale_price.toFixed(2)}, q=${nash.order_quantity.toFixed(0)}.
-`;
-            }
-        }
-        // SCENARIO 3: Partial Offer (q only)
-        else if (hasValidQ) {
-            const newW = findWForTargetRetailerProfit(q!, targetRetailerProfit, params);
-
-            if (newW !== null) {
-                 analysisContext = `
-[CONTEXT FOR YOUR NEXT RESPONSE]
-- **Current Scenario: 3 (User offered 'q' only)**
-- **User's Partial Offer:** q=${q}
-- **Data Analysis:** Your target profit of ${targetRetailerProfit.toFixed(2)} is achievable with this 'q'. The wholesale price required to meet this profit target is w=${newW.toFixed(2)}.
-- **MANDATORY ACTION:** Formulate a response that accepts their quantity of q=${q} and proposes the calculated price of w=${newW.toFixed(2)} as a full deal.
-`;
-            } else {
-                 analysisContext = `
-[CONTEXT FOR YOUR NEXT RESPONSE]
-- **Current Scenario: 3 (User offered 'q' only)**
-- **User's Partial Offer:** q=${q}
-- **Data Analysis:** This quantity is not attractive. It is not possible to find a wholesale price 'w' that would give you your target profit of ${targetRetailerProfit.toFixed(2)}.
-- **MANDATORY ACTION:** Formulate a response that politely rejects their offer. You MUST state that the proposed quantity is not attractive and then you MUST re-propose the initial optimal offer of w=${nash.wholesale_price.toFixed(2)}, q=${nash.order_quantity.toFixed(0)}.
-`;
-            }
-        }
-        // SCENARIO 4: No offer
-        else {
-            const q_for_max_price = params.demand_max;
-            const w_for_max_price = findWForTargetRetailerProfit(q_for_max_price, targetRetailerProfit, params);
-            
-            const w_for_min_q = params.c + 0.01;
-            const q_for_min_w = findQForTargetRetailerProfit(w_for_min_q, targetRetailerProfit, params);
-
-             analysisContext = `
-[CONTEXT FOR YOUR NEXT RESPONSE]
-- **Current Scenario: 4 (User sent a message without an offer)**
-- **Data for your response options:**
-  - Initial Optimal Offer (your standard, balanced proposal): w=${nash.wholesale_price.toFixed(2)}, q=${nash.order_quantity.toFixed(0)}
-  - Conditional Max Price Offer (if user asks for it): w=${w_for_max_price ? w_for_max_price.toFixed(2) : 'N/A'}, q=${q_for_max_price}
-  - Conditional Min Quantity Offer (if user asks for it): w=${w_for_min_q.toFixed(2)}, q=${q_for_min_w ? q_for_min_w.toFixed(0) : 'N/A'}
-- **MANDATORY ACTION:** First, analyze the user's intent based on their message.
-  - **If the user asks about your maximum acceptable price:** Formulate a response where you state your maximum price is conditional on a high quantity. You MUST use the "Conditional Max Price Offer" values from above. Example: "The highest price I can consider would be around w=${w_for_max_price ? w_for_max_price.toFixed(2) : 'N/A'}, but that would only work if we agree on a large quantity, like q=${q_for_max_price}."
-  - **If the user asks about your minimum acceptable quantity:** Formulate a response where you state that a very low price is required for a low quantity. You MUST use the "Conditional Min Quantity Offer" values from above. Example: "I could consider a quantity as low as q=${q_for_min_w ? q_for_min_w.toFixed(0) : 'N/A'}, but for that to be viable, the wholesale price would need to be extremely low, around w=${w_for_min_q.toFixed(2)}."
-  - **If the user asks you to make a general offer (without specifying price or quantity preferences like min/max):** You MUST propose the "Initial Optimal Offer" from above. This is your standard, balanced proposal.
-  - **For all other conversational messages (e.g., greetings, simple questions):** Just ask them for a specific proposal. Do not propose an offer. You can re-state your previous offer if you wish.
-`;
-        }
-        
-        systemInstruction += `\n${analysisContext}`;
+    if (offline) {
+        debugLog.push('--- OFFLINE: using the template phrasing of the decided move ---');
+        return templateReply();
     }
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: contents,
-            config: {
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        let response: LlmResult;
+        // Only failures of the model call are LLM errors; anything else thrown here is a bug and surfaces as it is.
+        try {
+            response = await callLlm({
+                task: 'negotiate',
                 systemInstruction: systemInstruction,
+                messages,
                 temperature: 0.5,
                 topP: 0.95,
                 maxOutputTokens: 800,
-                thinkingConfig: { thinkingBudget: 100 },
-                safetySettings: [
-                    {
-                        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-                        threshold: HarmBlockThreshold.BLOCK_NONE,
-                    },
-                    {
-                        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-                        threshold: HarmBlockThreshold.BLOCK_NONE,
-                    },
-                    {
-                        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-                        threshold: HarmBlockThreshold.BLOCK_NONE,
-                    },
-                    {
-                        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-                        threshold: HarmBlockThreshold.BLOCK_NONE,
-                    },
-                ],
-            },
-        });
-
-        if (!response || !response.text) {
-             console.error("Gemini API returned an invalid response:", response);
-             const blockReason = response?.candidates?.[0]?.finishReason;
-             const errorMessage = `Error: AI response was empty or blocked. Reason: ${blockReason || 'Unknown'}. See debug panel for full response.`;
-             const fullDebugPrompt = systemInstruction + `\n\n--- INVALID AI RESPONSE OBJECT ---\n\n${JSON.stringify(response, null, 2)}`;
-             return { text: errorMessage, debugPrompt: fullDebugPrompt };
+                thinkingBudget: 100,
+                responseSchema: AGENT_TURN_SCHEMA,
+                signal,
+                // A repair attempt streams its reply from the start again.
+                onText: onText && (raw => onText(streamedReplyText(raw))),
+            }, { onFailure, fallback: fallbackOnFailure });
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            const llmError = toLlmError(error);
+            console.error(`${getLlmProvider().name} LLM call failed:`, llmError);
+            debugLog.push(`--- LLM CALL FAILED (${llmError.kind}) ---\n\n${llmError.message}`);
+            if (!fallbackOnFailure) {
+                throw llmError;
+            }
+            debugLog.push('--- FALLBACK: using the template phrasing of the decided move ---');
+            return templateReply();
         }
+        signal?.throwIfAborted();
 
-        const rawResponseText = response.text.trim();
-        const finalResponseMarker = '[FINAL RESPONSE]';
-        const markerIndex = rawResponseText.indexOf(finalResponseMarker);
-
-        let finalText = rawResponseText;
-        if (markerIndex !== -1) {
-            finalText = rawResponseText.substring(markerIndex + finalResponseMarker.length).trim();
+        if (!response.text) {
+             console.error("LLM provider returned an invalid response:", response.raw);
+             debugLog.push(`--- INVALID AI RESPONSE OBJECT (reason: ${response.finishReason || 'Unknown'}) ---\n\n${JSON.stringify(response.raw ?? response, null, 2)}`);
+             break;
         }
 
-        if (!finalText) {
-            finalText = "Error: AI response was malformed or empty. See debug panel for the full raw response.";
-        }
-        
-        const fullDebugPrompt = systemInstruction + `\n\n--- RAW AI RESPONSE ---\n\n${rawResponseText}`;
+        debugLog.push(`--- RAW AI RESPONSE (attempt ${attempt + 1}) ---\n\n${response.text}`);
 
-        return { text: finalText, debugPrompt: fullDebugPrompt };
+        const { turn, problems: schemaProblems } = parseAgentTurn(response.text);
+        const problems = turn ? validatePhrasing(turn, move) : schemaProblems;
 
-    } catch (error) {
-        console.error("Gemini API call failed:", error);
-        return { 
-            text: "I seem to be having trouble connecting. Let's try that again in a moment.",
-            debugPrompt: systemInstruction // Return the prompt that failed
-        };
+        if (turn && problems.length === 0) {
+            return { ...decided, text: turn.text, debugPrompt: debugLog.join('\n\n'), validated: true };
+        }
+
+        // Show the model its own reply and what was wrong with it, then ask again.
+        debugLog.push(`--- VALIDATION FAILED ---\n\n${problems.join('\n')}`);
+        messages.push(
+            { role: 'model', text: response.text },
+            { role: 'user', text: `[SYSTEM] Your previous reply was rejected:\n- ${problems.join('\n- ')}\nReply again with a corrected JSON object. Do not mention this correction to the user.` },
+        );
     }
-}
\ No newline at end of file
+
+    // No valid phrasing: state the decided move in plain words rather than show unchecked text.
+    debugLog.push('--- FALLBACK: using the template phrasing of the decided move ---');
+    return templateReply();
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { NegotiationParams } from '../types';
+import { findQForTargetUtility, inequityUtility, profitForUtility, roleUtility } from './inequityAversion';
+import { decideAgentMove } from './agentPolicy';
+import { calculateProfits, nashBargainingSolution } from './negotiationService';
+import { INEQUITY_AVERSION_PRESETS, INITIAL_PARAMS } from '../constants';
+
+const params: NegotiationParams = { ...INITIAL_PARAMS, c: 4, p: 11 };
+const aversion = { envy: 1, guilt: 0.25 };
+
+describe('inequityUtility', () => {
+    it('charges envy for being behind and guilt for being ahead', () => {
+        expect(inequityUtility(50, 50, aversion)).toBe(50);
+        expect(inequityUtility(40, 60, aversion)).toBe(40 - 20);
+        expect(inequityUtility(60, 40, aversion)).toBe(60 - 5);
+    });
+
+    it('is inverted by profitForUtility at a fixed total', () => {
+        for (const own of [-20, 0, 30, 50, 80, 120]) {
+            const utility = inequityUtility(own, 100 - own, aversion);
+            expect(profitForUtility(utility, 100, aversion)).toBeCloseTo(own, 9);
+        }
+    });
+});
+
+describe('an inequity-averse AI', () => {
+    // The utility solver scans whole units where the profit solver rounds the exact root, so quantities may differ by one.
+    it('decides like a self-interested one without envy or guilt', () => {
+        const nash = nashBargainingSolution(params);
+        const indifferent = { ...params, inequityAversion: { envy: 0, guilt: 0 } };
+        for (const offer of [{ w: 6, q: 40 }, { w: 9, q: 70 }, { w: 7 }, { q: 30 }]) {
+            const a = decideAgentMove(offer, 'other', params, nash);
+            const b = decideAgentMove(offer, 'other', indifferent, nash);
+            expect(b.kind).toBe(a.kind);
+            expect(b.offer?.w).toBeCloseTo(a.offer?.w ?? NaN, 2);
+            expect(Math.abs((b.offer?.q ?? 0) - (a.offer?.q ?? 0))).toBeLessThanOrEqual(1);
+        }
+    });
+
+    it.each(Object.entries(INEQUITY_AVERSION_PRESETS).filter(([, preset]) => preset.inequityAversion))('prices counter-offers for the target utility (%s)', (_, preset) => {
+        const fairMinded = { ...params, inequityAversion: preset.inequityAversion };
+        const nash = nashBargainingSolution(fairMinded);
+        const target = inequityUtility(nash.retailer_profit, nash.supplier_profit, preset.inequityAversion!);
+        const move = decideAgentMove({ q: 60 }, 'other', fairMinded, nash);
+        if (move.kind === 'counter-w') {
+            expect(roleUtility(calculateProfits(move.offer!.w, 60, fairMinded), 'retailer', preset.inequityAversion!)).toBeCloseTo(target, 0);
+        }
+    });
+
+    it('finds the smallest and largest quantities reaching a utility', () => {
+        const smallest = findQForTargetUtility(6, 100, 'retailer', aversion, params);
+        const largest = findQForTargetUtility(6, 100, 'retailer', aversion, params, params.contract, true);
+        expect(smallest).not.toBeNull();
+        expect(smallest!).toBeLessThanOrEqual(largest!);
+        expect(roleUtility(calculateProfits(6, smallest!, params), 'retailer', aversion)).toBeGreaterThanOrEqual(100);
+        expect(roleUtility(calculateProfits(6, smallest! - 1, params), 'retailer', aversion)).toBeLessThan(100);
+    });
+});
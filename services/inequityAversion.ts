@@ -0,0 +1,59 @@
+import type { ContractTerms, InequityAversion, NegotiationParams, ProfitCalcs, Role } from '../types';
+import { calculateProfits } from './negotiationService';
+import { demandBounds } from './demandDistribution';
+
+/**
+ * Fehr-Schmidt inequity aversion for the AI: U = own - envy * max(other - own, 0) - guilt * max(own - other, 0).
+ * Every contract only moves profit between the sides at a given quantity, so with guilt below 0.5 the
+ * utility rises with the AI's own profit at that quantity, and a target utility there is a target profit.
+ */
+
+export const MAX_GUILT = 0.5;
+
+export function inequityUtility(ownProfit: number, otherProfit: number, aversion: InequityAversion): number {
+    return ownProfit
+        - aversion.envy * Math.max(otherProfit - ownProfit, 0)
+        - aversion.guilt * Math.max(ownProfit - otherProfit, 0);
+}
+
+export function roleUtility(profits: ProfitCalcs, role: Role, aversion: InequityAversion): number {
+    return role === 'supplier'
+        ? inequityUtility(profits.supplier_profit, profits.retailer_profit, aversion)
+        : inequityUtility(profits.retailer_profit, profits.supplier_profit, aversion);
+}
+
+/**
+ * The own profit that gives `targetUtility` when both sides share `totalProfit`: the inverse of
+ * inequityUtility at a fixed total. An equal split is worth half the total.
+ */
+export function profitForUtility(targetUtility: number, totalProfit: number, aversion: InequityAversion): number {
+    return targetUtility <= totalProfit / 2
+        ? (targetUtility + aversion.envy * totalProfit) / (1 + 2 * aversion.envy)
+        : (targetUtility - aversion.guilt * totalProfit) / (1 - 2 * aversion.guilt);
+}
+
+/**
+ * Given wholesale price w, a whole-unit quantity that gives the AI (playing `role`) a target utility: the
+ * smallest one, or the largest one when `largest` is set. Null when no quantity up to twice the largest
+ * plausible demand reaches it.
+ */
+export function findQForTargetUtility(
+    w: number,
+    targetUtility: number,
+    role: Role,
+    aversion: InequityAversion,
+    params: NegotiationParams,
+    terms: ContractTerms = params.contract,
+    largest = false,
+): number | null {
+    let found: number | null = null;
+    for (let q = 1; q <= Math.round(demandBounds(params.demand).max * 2); q++) {
+        if (roleUtility(calculateProfits(w, q, params, terms), role, aversion) >= targetUtility) {
+            if (!largest) {
+                return q;
+            }
+            found = q;
+        }
+    }
+    return found;
+}
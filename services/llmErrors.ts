@@ -0,0 +1,137 @@
+import type { LlmErrorKind } from '../types';
+
+/**
+ * Errors from calls to the model, by what went wrong. Timeouts, rate limits and unavailable servers
+ * are worth retrying; a refused request (bad key, unknown model, malformed request) fails the same way again.
+ */
+export class LlmError extends Error {
+    readonly kind: LlmErrorKind;
+    readonly retryable: boolean;
+
+    constructor(kind: LlmErrorKind, message: string, retryable: boolean, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'LlmError';
+        this.kind = kind;
+        this.retryable = retryable;
+    }
+}
+
+export class LlmTimeoutError extends LlmError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('timeout', message, true, options);
+        this.name = 'LlmTimeoutError';
+    }
+}
+
+export class LlmRateLimitError extends LlmError {
+    readonly retryAfterMs?: number; // As asked by the server
+
+    constructor(message: string, retryAfterMs?: number, options?: ErrorOptions) {
+        super('rate-limit', message, true, options);
+        this.name = 'LlmRateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export class LlmUnavailableError extends LlmError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('unavailable', message, true, options);
+        this.name = 'LlmUnavailableError';
+    }
+}
+
+export class LlmRequestError extends LlmError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('rejected', message, false, options);
+        this.name = 'LlmRequestError';
+    }
+}
+
+/**
+ * The error for an HTTP error status from the model's server.
+ */
+export function llmErrorForStatus(status: number, message: string, retryAfterMs?: number, options?: ErrorOptions): LlmError {
+    if (status === 429) {
+        return new LlmRateLimitError(message, retryAfterMs, options);
+    }
+    if (status === 408 || status >= 500) {
+        return new LlmUnavailableError(message, options);
+    }
+    return new LlmRequestError(message, options);
+}
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+    if (!header) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// What fetch throws when the server cannot be reached, in Node, Chrome, Firefox and Safari.
+const NETWORK_FAILURE = /fetch failed|failed to fetch|networkerror|load failed/i;
+
+/**
+ * Whether the error is a bug in our code rather than a failure to reach the model; retrying would fail the same way.
+ * Fetch reports network failures as a TypeError too, so those do not count.
+ */
+function isProgrammingError(error: unknown): boolean {
+    if (error instanceof TypeError) {
+        return !NETWORK_FAILURE.test(error.message);
+    }
+    return error instanceof ReferenceError || error instanceof RangeError || error instanceof EvalError || error instanceof URIError;
+}
+
+/**
+ * Classifies whatever a provider threw. Errors carrying an HTTP status (such as the Gemini SDK's) go by the status,
+ * and programming errors are not retried; anything else, e.g. a failed fetch, is taken as the server being unreachable.
+ */
+export function toLlmError(error: unknown): LlmError {
+    if (error instanceof LlmError) {
+        return error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    const status = (error as { status?: unknown } | null)?.status;
+    if (typeof status === 'number') {
+        return llmErrorForStatus(status, message, undefined, { cause: error });
+    }
+    if (isProgrammingError(error)) {
+        return new LlmRequestError(message, { cause: error });
+    }
+    return new LlmUnavailableError(message, { cause: error });
+}
+
+/**
+ * Rebuilds an error reported by the server from its kind.
+ */
+export function llmErrorOfKind(kind: LlmErrorKind, message: string, retryAfterMs?: number): LlmError {
+    switch (kind) {
+        case 'timeout':
+            return new LlmTimeoutError(message);
+        case 'rate-limit':
+            return new LlmRateLimitError(message, retryAfterMs);
+        case 'unavailable':
+            return new LlmUnavailableError(message);
+        default:
+            return new LlmRequestError(message);
+    }
+}
+
+const ERROR_DESCRIPTIONS: Record<LlmErrorKind, string> = {
+    'timeout': 'The AI took too long to answer.',
+    'rate-limit': 'The AI service is receiving too many requests right now.',
+    'unavailable': 'The AI service cannot be reached.',
+    'rejected': 'The AI service refused the request. Check the model settings.',
+};
+
+/**
+ * What to tell the user about a failed reply.
+ */
+export const describeLlmError = (error: LlmError) => ERROR_DESCRIPTIONS[error.kind];
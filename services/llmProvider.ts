@@ -0,0 +1,94 @@
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+export type LlmProviderName = 'gemini' | 'openai-compatible' | 'mock';
+
+/**
+ * What a request is for. Real models ignore this; the offline mock uses it to pick its script.
+ */
+export type LlmTask = 'negotiate' | 'read-offer';
+
+export interface LlmMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface LlmRequest {
+    task: LlmTask;
+    systemInstruction: string;
+    messages: LlmMessage[];
+    model?: string;
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+    thinkingBudget?: number;
+    responseSchema?: Record<string, unknown>; // JSON schema; when set the model must reply with matching JSON.
+    signal?: AbortSignal; // Cancels the request; the provider then rejects with the signal's abort error.
+    onText?: (textSoFar: string) => void; // When set, the reply is streamed: called with the text received so far as it arrives.
+}
+
+export interface LlmResult {
+    text: string;
+    finishReason?: string;
+    raw?: unknown; // Provider-specific response object, kept for the debug panel.
+}
+
+export interface LlmProvider {
+    name: LlmProviderName;
+    generate(request: LlmRequest): Promise<LlmResult>;
+}
+
+export interface LlmConfig {
+    provider: LlmProviderName;
+    apiKey?: string;
+    baseUrl?: string;
+    model?: string;
+}
+
+/**
+ * Reads the provider settings from the environment of the server (or the simulation script).
+ * Without an explicit LLM_PROVIDER we use Gemini when a key is present and the offline mock otherwise.
+ */
+export function readLlmConfig(): LlmConfig {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY || undefined;
+    const configured = process.env.LLM_PROVIDER as LlmProviderName | undefined;
+    return {
+        provider: configured || (apiKey ? 'gemini' : 'mock'),
+        apiKey,
+        baseUrl: process.env.LLM_BASE_URL || undefined,
+        model: process.env.LLM_MODEL || undefined,
+    };
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+    switch (config.provider) {
+        case 'gemini':
+            return createGeminiProvider(config);
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider(config);
+        case 'mock':
+            return createMockProvider();
+        default:
+            throw new Error(`Unknown LLM provider "${config.provider}". Use gemini, openai-compatible or mock.`);
+    }
+}
+
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Returns the provider used by geminiService, creating it from the environment on first use.
+ */
+export function getLlmProvider(): LlmProvider {
+    if (!activeProvider) {
+        activeProvider = createLlmProvider(readLlmConfig());
+    }
+    return activeProvider;
+}
+
+/**
+ * Replaces the active provider, e.g. to run the app or a test against the mock.
+ */
+export function setLlmProvider(provider: LlmProvider): void {
+    activeProvider = provider;
+}
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { LlmFailure } from '../types';
+import { setLlmProvider, type LlmRequest } from './llmProvider';
+import { callLlm, retryDelayMs } from './llmRequest';
+import { LlmRateLimitError, LlmRequestError, LlmTimeoutError, LlmUnavailableError, llmErrorForStatus, parseRetryAfter, toLlmError } from './llmErrors';
+import { createMockProvider } from './providers/mockProvider';
+import { createGeminiProvider } from './providers/geminiProvider';
+
+const request: LlmRequest = { task: 'read-offer', systemInstruction: '', messages: [{ role: 'user', text: 'w=7, q=50' }] };
+
+// A provider that throws the given errors in turn, then answers.
+const failingProvider = (errors: unknown[]) => {
+    let calls = 0;
+    setLlmProvider({
+        name: 'mock',
+        async generate() {
+            const error = errors[calls++];
+            if (error) {
+                throw error;
+            }
+            return { text: 'ok' };
+        },
+    });
+    return () => calls;
+};
+
+afterEach(() => {
+    setLlmProvider(createMockProvider());
+});
+
+describe('toLlmError', () => {
+    it('classifies HTTP statuses', () => {
+        expect(llmErrorForStatus(429, 'slow down')).toBeInstanceOf(LlmRateLimitError);
+        expect(llmErrorForStatus(503, 'down')).toBeInstanceOf(LlmUnavailableError);
+        expect(llmErrorForStatus(401, 'bad key')).toBeInstanceOf(LlmRequestError);
+        expect(toLlmError(Object.assign(new Error('quota'), { status: 429 })).kind).toBe('rate-limit');
+    });
+
+    it('takes errors without a status as the server being unreachable', () => {
+        const error = toLlmError(new TypeError('fetch failed'));
+        expect(error).toBeInstanceOf(LlmUnavailableError);
+        expect(error.retryable).toBe(true);
+        expect(error.message).toBe('fetch failed');
+        expect(toLlmError(new TypeError('Failed to fetch')).kind).toBe('unavailable');
+    });
+
+    it('does not retry programming and setup errors', () => {
+        expect(toLlmError(new TypeError("Cannot read properties of undefined (reading 'text')")).retryable).toBe(false);
+        expect(toLlmError(new ReferenceError('x is not defined')).kind).toBe('rejected');
+    });
+
+    it('reads Retry-After in seconds or as a date', () => {
+        expect(parseRetryAfter('3')).toBe(3000);
+        expect(parseRetryAfter(new Date(10_000).toUTCString(), 4_000)).toBe(6000);
+        expect(parseRetryAfter(null)).toBeUndefined();
+    });
+});
+
+describe('callLlm', () => {
+    it('backs off exponentially unless the server asks for a wait', () => {
+        const unavailable = new LlmUnavailableError('down');
+        expect([1, 2, 3].map(retry => retryDelayMs(unavailable, retry, 1000))).toEqual([1000, 2000, 4000]);
+        expect(retryDelayMs(new LlmRateLimitError('slow down', 5000), 1, 1000)).toBe(5000);
+    });
+
+    it('retries rate limits and server errors, recording each failure', async () => {
+        const calls = failingProvider([llmErrorForStatus(429, 'slow down'), llmErrorForStatus(503, 'down')]);
+        const failures: LlmFailure[] = [];
+        const result = await callLlm(request, { baseDelayMs: 0, onFailure: failure => failures.push(failure) });
+        expect(result.text).toBe('ok');
+        expect(calls()).toBe(3);
+        expect(failures.map(f => [f.kind, f.attempt, f.recovery])).toEqual([['rate-limit', 1, 'retry'], ['unavailable', 2, 'retry']]);
+    });
+
+    it('gives up after the retries, or at once on a refused request', async () => {
+        const down = llmErrorForStatus(503, 'down');
+        failingProvider([down, down, down]);
+        await expect(callLlm(request, { baseDelayMs: 0, maxRetries: 2 })).rejects.toBeInstanceOf(LlmUnavailableError);
+
+        const calls = failingProvider([llmErrorForStatus(400, 'bad request')]);
+        const failures: LlmFailure[] = [];
+        await expect(callLlm(request, { fallback: true, onFailure: failure => failures.push(failure) })).rejects.toBeInstanceOf(LlmRequestError);
+        expect(calls()).toBe(1);
+        expect(failures[0].recovery).toBe('fallback');
+    });
+
+    it('fails at once when the Gemini key is missing', async () => {
+        setLlmProvider(createGeminiProvider({ provider: 'gemini' }));
+        const failures: LlmFailure[] = [];
+        await expect(callLlm(request, { baseDelayMs: 0, onFailure: failure => failures.push(failure) })).rejects.toBeInstanceOf(LlmRequestError);
+        expect(failures.map(f => [f.kind, f.attempt])).toEqual([['rejected', 1]]);
+    });
+
+    it('times out an attempt that takes too long', async () => {
+        setLlmProvider({
+            name: 'mock',
+            generate: ({ signal }) => new Promise((_, reject) => signal!.addEventListener('abort', () => reject(signal!.reason))),
+        });
+        await expect(callLlm(request, { timeoutMs: 10, maxRetries: 1, baseDelayMs: 0 })).rejects.toBeInstanceOf(LlmTimeoutError);
+    });
+
+    it('stops without retrying when the caller aborts', async () => {
+        const controller = new AbortController();
+        setLlmProvider({
+            name: 'mock',
+            async generate() {
+                controller.abort();
+                throw new Error('aborted');
+            },
+        });
+        const failures: LlmFailure[] = [];
+        await expect(callLlm({ ...request, signal: controller.signal }, { onFailure: failure => failures.push(failure) })).rejects.toHaveProperty('name', 'AbortError');
+        expect(failures).toEqual([]);
+    });
+});
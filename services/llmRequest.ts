@@ -0,0 +1,79 @@
+import type { LlmFailure } from '../types';
+import { getLlmProvider, type LlmRequest, type LlmResult } from './llmProvider';
+import { LlmRateLimitError, LlmTimeoutError, toLlmError, type LlmError } from './llmErrors';
+
+/**
+ * Calls to the active provider with a timeout per attempt and exponential backoff on retryable failures.
+ * Every failed attempt is reported, so the session can keep a record of them.
+ */
+
+export interface LlmCallOptions {
+    timeoutMs?: number; // Per attempt, streaming included
+    maxRetries?: number; // Attempts after the first
+    baseDelayMs?: number; // Wait before the first retry; doubles with each further one
+    fallback?: boolean; // The caller falls back to a deterministic answer when the call fails, as recorded with the failure
+    onFailure?: (failure: LlmFailure) => void;
+}
+
+export const LLM_CALL_DEFAULTS = { timeoutMs: 30_000, maxRetries: 3, baseDelayMs: 1_000 };
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * The wait before the given retry: what a rate-limiting server asked for, or exponential backoff.
+ */
+export function retryDelayMs(error: LlmError, retry: number, baseDelayMs: number): number {
+    const asked = error instanceof LlmRateLimitError ? error.retryAfterMs : undefined;
+    return Math.min(MAX_RETRY_DELAY_MS, asked ?? baseDelayMs * 2 ** (retry - 1));
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Generates a reply, retrying timeouts, rate limits and unavailable servers. Rejects with an LlmError once
+ * the retries are used up or the request is refused, and with the abort reason when `request.signal` aborts.
+ */
+export async function callLlm(request: LlmRequest, options: LlmCallOptions = {}): Promise<LlmResult> {
+    const { timeoutMs, maxRetries, baseDelayMs } = { ...LLM_CALL_DEFAULTS, ...options };
+    const provider = getLlmProvider();
+
+    for (let attempt = 1; ; attempt++) {
+        const timeout = new AbortController();
+        const timer = setTimeout(() => timeout.abort(), timeoutMs);
+        const signal = request.signal ? AbortSignal.any([request.signal, timeout.signal]) : timeout.signal;
+        let error: LlmError;
+        try {
+            return await provider.generate({ ...request, signal });
+        } catch (cause) {
+            request.signal?.throwIfAborted();
+            error = timeout.signal.aborted ? new LlmTimeoutError(`The model did not answer within ${timeoutMs / 1000} s.`, { cause }) : toLlmError(cause);
+        } finally {
+            clearTimeout(timer);
+        }
+
+        const retry = error.retryable && attempt <= maxRetries;
+        options.onFailure?.({
+            at: Date.now(),
+            provider: provider.name,
+            task: request.task,
+            kind: error.kind,
+            message: error.message,
+            attempt,
+            recovery: retry ? 'retry' : options.fallback ? 'fallback' : 'none',
+        });
+        if (!retry) {
+            throw error;
+        }
+        await sleep(retryDelayMs(error, attempt, baseDelayMs), request.signal);
+    }
+}
@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+import type { ContractTerms, NegotiationParams, Offer } from '../types';
+import {
+    calculateOfferProfits,
+    calculateProfits,
+    coversUnitCost,
+    disagreementPayoffs,
+    findQForTargetRetailerProfit,
+    findQForTargetSupplierProfit,
+    findWForTargetRetailerProfit,
+    findWForTargetSupplierProfit,
+    leavesRetailerMargin,
+    nashBargainingSolution,
+    realisedProfits,
+    systemOptimalQuantity,
+} from './negotiationService';
+import { demandBounds, demandQuantile, expectedSales } from './demandDistribution';
+import { createRng } from './random';
+import { CONTRACT_PRESETS, DEMAND_PRESETS, INITIAL_PARAMS } from '../constants';
+
+const params = (overrides: Partial<NegotiationParams> = {}): NegotiationParams => ({ ...INITIAL_PARAMS, c: 4, p: 11, ...overrides });
+
+const CONTRACTS = Object.values(CONTRACT_PRESETS).map(preset => preset.terms);
+
+// Seeded draws for the property tests: (c, p) from the session grids' range, any contract and demand preset.
+function* draws(label: string, count = 200) {
+    const rng = createRng('negotiationService', label);
+    const demands = Object.values(DEMAND_PRESETS).map(preset => preset.demand);
+    for (let i = 0; i < count; i++) {
+        const c = 3 + rng() * 2;
+        const p = 10 + rng() * 2;
+        const contract = CONTRACTS[Math.floor(rng() * CONTRACTS.length)];
+        const demand = demands[Math.floor(rng() * demands.length)];
+        yield { params: params({ c, p, contract, demand }), rng };
+    }
+}
+
+describe('calculateProfits', () => {
+    it('matches the closed form of the wholesale contract', () => {
+        const s = params();
+        const sales = expectedSales(s.demand, 60);
+        const profits = calculateProfits(7, 60, s);
+        expect(profits.supplier_profit).toBeCloseTo(7 * sales - 4 * 60, 9);
+        expect(profits.retailer_profit).toBeCloseTo((11 - 7) * sales, 9);
+    });
+
+    it('moves the buyback refund and the revenue share between the sides', () => {
+        const s = params();
+        const sales = expectedSales(s.demand, 60);
+        const buyback = calculateProfits(7, 60, s, { type: 'buyback', b: 2 });
+        expect(buyback.supplier_profit).toBeCloseTo(7 * 60 - 4 * 60 - 2 * (60 - sales), 9);
+        expect(buyback.retailer_profit).toBeCloseTo(11 * sales - 7 * 60 + 2 * (60 - sales), 9);
+        const sharing = calculateProfits(3, 60, s, { type: 'revenue_sharing', phi: 0.7 });
+        expect(sharing.retailer_profit).toBeCloseTo((0.7 * 11 - 3) * sales, 9);
+    });
+
+    it('has the retailer pay for the units it gets back under buyback', () => {
+        const s = params();
+        const terms: ContractTerms = { type: 'buyback', b: 2 };
+        const { max } = demandBounds(s.demand);
+        // Past the largest demand every extra unit goes back at b < w, so ordering more only costs the retailer.
+        expect(calculateProfits(7, max + 10, s, terms).retailer_profit).toBeLessThan(calculateProfits(7, max, s, terms).retailer_profit);
+        expect(calculateProfits(7, max + 10, s, terms).retailer_profit - calculateProfits(7, max, s, terms).retailer_profit).toBeCloseTo(-10 * (7 - 2), 9);
+    });
+
+    it('applies the quantity discount from the threshold on', () => {
+        const s = params();
+        const terms: ContractTerms = { type: 'quantity_discount', threshold: 60, discount: 0.1 };
+        expect(calculateProfits(7, 59, s, terms).retailer_profit).toBeCloseTo((11 - 7) * expectedSales(s.demand, 59), 9);
+        expect(calculateProfits(7, 60, s, terms).retailer_profit).toBeCloseTo((11 - 6.3) * expectedSales(s.demand, 60), 9);
+    });
+
+    it('only moves profit between the sides: the total is the channel profit for every contract', () => {
+        for (const { params: s, rng } of draws('total')) {
+            const q = 1 + Math.floor(rng() * 100);
+            const total = s.p * expectedSales(s.demand, q) - s.c * q;
+            expect(calculateProfits(rng() * s.p, q, s).total_profit).toBeCloseTo(total, 6);
+        }
+    });
+
+    it.each(CONTRACTS.map(terms => [terms.type, terms] as const))('gives the Monte-Carlo mean of realised profits (%s)', (_, terms) => {
+        const s = params({ contract: terms });
+        const offer: Offer = { ...terms, w: 6.5, q: 65 };
+        const rng = createRng('realised', terms.type);
+        const samples = 20000;
+        let supplier = 0;
+        let retailer = 0;
+        for (let i = 0; i < samples; i++) {
+            const realised = realisedProfits(offer, demandQuantile(s.demand, rng()), s);
+            supplier += realised.supplier_profit;
+            retailer += realised.retailer_profit;
+        }
+        const expected = calculateOfferProfits(offer, s);
+        expect(Math.abs(supplier / samples - expected.supplier_profit)).toBeLessThan(3);
+        expect(Math.abs(retailer / samples - expected.retailer_profit)).toBeLessThan(3);
+    });
+});
+
+describe('benchmarks', () => {
+    it('orders the newsvendor critical fractile under uniform demand', () => {
+        // q* = max * (p - c) / p
+        expect(systemOptimalQuantity(params({ c: 3, p: 10 }))).toBe(70);
+        expect(systemOptimalQuantity(params({ c: 5, p: 10 }))).toBe(50);
+    });
+
+    it('splits the channel profit evenly with symmetric bargaining power', () => {
+        const nash = nashBargainingSolution(params());
+        expect(nash.supplier_profit).toBeCloseTo(nash.retailer_profit, 4);
+        expect(nash.total_profit).toBeCloseTo(nash.supplier_profit + nash.retailer_profit, 9);
+    });
+
+    it('gives the stronger side the larger share', () => {
+        const nash = nashBargainingSolution(params({ bargaining: { retailerWeight: 0.7, disagreement: { supplier: 0, retailer: 0 } } }));
+        expect(nash.retailer_profit / nash.total_profit).toBeCloseTo(0.7, 3);
+    });
+
+    it('reads the disagreement payoffs from the bargaining settings', () => {
+        expect(disagreementPayoffs(params())).toEqual({ supplier_profit: 0, retailer_profit: 0, total_profit: 0 });
+        expect(disagreementPayoffs(params({ bargaining: { retailerWeight: 0.5, disagreement: { supplier: 10, retailer: 5 } } })).total_profit).toBe(15);
+    });
+});
+
+describe('price solvers', () => {
+    it('return a w that yields the target retailer profit, or null only when it would not cover the unit cost', () => {
+        for (const { params: s, rng } of draws('w-retailer')) {
+            const q = 1 + Math.floor(rng() * 100);
+            const target = rng() * 150;
+            const w = findWForTargetRetailerProfit(q, target, s);
+            if (w === null) {
+                const atTarget = (calculateProfits(0, q, s).retailer_profit - target)
+                    / (calculateProfits(0, q, s).retailer_profit - calculateProfits(1, q, s).retailer_profit);
+                expect(coversUnitCost(atTarget, q, s, s.contract)).toBe(false);
+            } else {
+                expect(calculateProfits(w, q, s).retailer_profit).toBeCloseTo(target, 6);
+            }
+        }
+    });
+
+    it('return a w that yields the target supplier profit, or null only when it would leave the retailer no margin', () => {
+        for (const { params: s, rng } of draws('w-supplier')) {
+            const q = 1 + Math.floor(rng() * 100);
+            const target = rng() * 150;
+            const w = findWForTargetSupplierProfit(q, target, s);
+            if (w !== null) {
+                expect(calculateProfits(w, q, s).supplier_profit).toBeCloseTo(target, 6);
+                expect(leavesRetailerMargin(w, q, s, s.contract)).toBe(true);
+            }
+        }
+    });
+
+    it('need a positive quantity for a positive target', () => {
+        expect(findWForTargetRetailerProfit(0, 10, params())).toBeNull();
+        expect(findWForTargetSupplierProfit(0, 10, params())).toBeNull();
+    });
+});
+
+describe('quantity solvers', () => {
+    it('round the retailer quantity to the nearest unit of the exact solution', () => {
+        for (const { params: s, rng } of draws('q-retailer')) {
+            const w = s.c + rng() * (s.p - s.c) * 0.8;
+            const target = rng() * 100;
+            const q = findQForTargetRetailerProfit(w, target, s);
+            if (q !== null && q > 0) {
+                const below = calculateProfits(w, q - 0.5, s).retailer_profit;
+                const above = calculateProfits(w, q + 0.5, s).retailer_profit;
+                expect(target).toBeGreaterThanOrEqual(Math.min(below, above) - 1e-3);
+                expect(target).toBeLessThanOrEqual(Math.max(below, above) + 1e-3);
+            }
+        }
+    });
+
+    it('find the retailer quantity under buyback, where retailer profit falls again past its peak', () => {
+        const s = params({ contract: { type: 'buyback', b: 2 } });
+        const q = findQForTargetRetailerProfit(7, 50, s);
+        expect(q).toBe(15);
+        expect(calculateProfits(7, q!, s).retailer_profit).toBeCloseTo(50, 0);
+    });
+
+    it('return null when no quantity in range reaches the target (same signs at both ends)', () => {
+        const s = params();
+        expect(findQForTargetRetailerProfit(6, 1e6, s)).toBeNull();
+        expect(findQForTargetSupplierProfit(6, 1e6, s)).toBeNull();
+    });
+
+    it('cannot give the retailer a positive profit when it pays the retail price', () => {
+        const s = params();
+        expect(findQForTargetRetailerProfit(s.p, 10, s)).toBeNull();
+        expect(findQForTargetRetailerProfit(s.p, 0, s)).toBe(0);
+    });
+
+    it('stay below a quantity discount threshold when the discount drops profit under the target', () => {
+        const s = params({ contract: CONTRACT_PRESETS.quantity_discount.terms });
+        // At w=6.5 the supplier makes 34.37 at q=59 and 5.70 at q=60, where the 10% discount starts.
+        expect(findQForTargetSupplierProfit(6.5, 20, s)).toBe(59);
+        expect(calculateProfits(6.5, 59, s).supplier_profit).toBeGreaterThanOrEqual(20);
+    });
+
+    it('find the supplier quantities on either side of a quantity discount threshold', () => {
+        const rng = createRng('negotiationService', 'q-supplier-threshold');
+        for (let i = 0; i < 100; i++) {
+            const terms: ContractTerms = { type: 'quantity_discount', threshold: 20 + Math.round(rng() * 70), discount: 0.05 + rng() * 0.25 };
+            const s = params({ contract: terms });
+            const w = s.c + 1 + rng() * (s.p - s.c - 1);
+            const target = rng() * 80;
+            // Every whole quantity in the searched range that reaches the target.
+            const meeting = Array.from({ length: 2 * demandBounds(s.demand).max }, (_, k) => k + 1)
+                .filter(q => calculateProfits(w, q, s).supplier_profit >= target);
+            expect(findQForTargetSupplierProfit(w, target, s, terms, false)).toBe(meeting.length > 0 ? meeting[0] : null);
+            expect(findQForTargetSupplierProfit(w, target, s)).toBe(meeting.length > 0 ? meeting[meeting.length - 1] : null);
+        }
+    });
+
+    it('find both supplier quantities, rounded towards the peak so the target is met', () => {
+        for (const { params: s, rng } of draws('q-supplier', 100)) {
+            const w = s.c + 1 + rng() * (s.p - s.c - 1);
+            const target = rng() * 60;
+            const largest = findQForTargetSupplierProfit(w, target, s);
+            const smallest = findQForTargetSupplierProfit(w, target, s, s.contract, false);
+            if (largest === null || smallest === null) {
+                continue;
+            }
+            expect(smallest).toBeLessThanOrEqual(largest);
+            expect(calculateProfits(w, largest, s).supplier_profit).toBeGreaterThanOrEqual(target - 1e-6);
+            expect(calculateProfits(w, smallest, s).supplier_profit).toBeGreaterThanOrEqual(target - 1e-6);
+        }
+    });
+});
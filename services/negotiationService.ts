@@ -1,31 +1,35 @@
-import type { NegotiationParams, NashSolution, ProfitCalcs, Offer } from '../types';
+import type { NegotiationParams, NashSolution, ProfitCalcs, BargainingSettings, ContractTerms, Offer, Role } from '../types';
+import { demandBounds, expectedSales } from './demandDistribution';
+import { effectiveWholesalePrice } from './contracts';
+import { SYMMETRIC_BARGAINING } from '../constants';
 
 /**
- * Calculates E[min(q, D)] where D ~ Uniform[demand_min, demand_max]
+ * Calculates E[min(q, D)] where D follows the session's demand distribution.
  */
 function expectedMinQuantityDemand(q: number, params: NegotiationParams): number {
-    const { demand_min, demand_max } = params;
-    const demand_range = demand_max - demand_min;
-    if (q <= demand_min) {
-        return q;
-    }
-    if (q >= demand_max) {
-        // Corrected formula for U[min, max] is (min+max)/2. If min=0, it's max/2.
-        return (demand_min + demand_max) / 2;
-    }
-    // Integral of min(q,D) over [d_min, d_max]
-    const integral_part1 = (q * q - demand_min * demand_min) / 2;
-    const integral_part2 = q * (demand_max - q);
-    return (integral_part1 + integral_part2) / demand_range;
+    return expectedSales(params.demand, q);
 }
 
 /**
- * Calculates expected profits for supplier and retailer.
+ * Profits when `sales` of the q units are sold. Every contract is linear in sales,
+ * so passing E[min(q, D)] gives the expected profits.
+ * The supplier is paid per unit sold, except under buyback: there the retailer buys all q units up front
+ * and the supplier takes the unsold ones back at b.
  */
-export function calculateProfits(w: number, q: number, params: NegotiationParams): ProfitCalcs {
-    const expected_sales = expectedMinQuantityDemand(q, params);
-    const supplier_profit = w * expected_sales - params.c * q;
-    const retailer_profit = (params.p - w) * expected_sales;
+function profitsForSales(w: number, q: number, sales: number, params: NegotiationParams, terms: ContractTerms): ProfitCalcs {
+    const { p, c } = params;
+    const price = effectiveWholesalePrice(w, q, terms);
+    let supplier_profit = price * sales - c * q;
+    let retailer_profit = (p - price) * sales;
+    if (terms.type === 'buyback') {
+        const unsold = q - sales;
+        supplier_profit = price * q - terms.b * unsold - c * q;
+        retailer_profit = p * sales - price * q + terms.b * unsold;
+    } else if (terms.type === 'revenue_sharing') {
+        // The retailer keeps the share phi of the revenue, the supplier gets the rest.
+        supplier_profit += (1 - terms.phi) * p * sales;
+        retailer_profit -= (1 - terms.phi) * p * sales;
+    }
     return {
         supplier_profit,
         retailer_profit,
@@ -34,24 +38,128 @@ export function calculateProfits(w: number, q: number, params: NegotiationParams
 }
 
 /**
- * Calculates the Nash bargaining solution under full information.
+ * Calculates expected profits for supplier and retailer under the given contract terms (the session's by default).
+ */
+export function calculateProfits(w: number, q: number, params: NegotiationParams, terms: ContractTerms = params.contract): ProfitCalcs {
+    return profitsForSales(w, q, expectedMinQuantityDemand(q, params), params, terms);
+}
+
+/**
+ * Expected profits of an offer under its own contract terms.
+ */
+export function calculateOfferProfits(offer: Offer, params: NegotiationParams): ProfitCalcs {
+    return calculateProfits(offer.w, offer.q, params, offer);
+}
+
+/**
+ * The expected profit the supplier gains (and the retailer loses) per unit increase of w at quantity q.
+ * All contracts transfer profit linearly in w.
+ */
+function transferPerUnitW(q: number, params: NegotiationParams, terms: ContractTerms): number {
+    return calculateProfits(1, q, params, terms).supplier_profit - calculateProfits(0, q, params, terms).supplier_profit;
+}
+
+/**
+ * What the supplier receives for each unit sold: the (discounted) wholesale price plus any revenue share.
+ */
+function supplierUnitRevenue(w: number, q: number, params: NegotiationParams, terms: ContractTerms): number {
+    const revenueShare = terms.type === 'revenue_sharing' ? (1 - terms.phi) * params.p : 0;
+    return effectiveWholesalePrice(w, q, terms) + revenueShare;
+}
+
+/**
+ * Whether the supplier receives at least the production cost for each unit sold.
+ */
+export function coversUnitCost(w: number, q: number, params: NegotiationParams, terms: ContractTerms): boolean {
+    return supplierUnitRevenue(w, q, params, terms) >= params.c;
+}
+
+/**
+ * Whether the retailer keeps a non-negative margin on each unit sold.
+ */
+export function leavesRetailerMargin(w: number, q: number, params: NegotiationParams, terms: ContractTerms): boolean {
+    return supplierUnitRevenue(w, q, params, terms) <= params.p;
+}
+
+/**
+ * The wholesale price at which a side breaks even on each unit sold (before any quantity discount):
+ * the lowest price the supplier can take, or the highest the retailer can pay.
+ */
+export function breakEvenPrice(role: Role, params: NegotiationParams, terms: ContractTerms = params.contract): number {
+    const revenueShare = terms.type === 'revenue_sharing' ? (1 - terms.phi) * params.p : 0;
+    return (role === 'supplier' ? params.c : params.p) - revenueShare;
+}
+
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+/**
+ * Golden-section search for the maximum of a unimodal function on [a, b].
  */
-export function nashBargainingSolution(params: NegotiationParams): NashSolution {
-    const { p, c, demand_max, demand_min } = params;
-    const demand_range = demand_max - demand_min;
+function goldenSectionMax(func: (x: number) => number, a: number, b: number, tol = 1e-6, max_iter = 200): number {
+    let x1 = b - GOLDEN_RATIO * (b - a);
+    let x2 = a + GOLDEN_RATIO * (b - a);
+    let f1 = func(x1);
+    let f2 = func(x2);
+    for (let i = 0; i < max_iter && b - a > tol; i++) {
+        if (f1 < f2) {
+            a = x1;
+            x1 = x2;
+            f1 = f2;
+            x2 = a + GOLDEN_RATIO * (b - a);
+            f2 = func(x2);
+        } else {
+            b = x2;
+            x2 = x1;
+            f2 = f1;
+            x1 = b - GOLDEN_RATIO * (b - a);
+            f1 = func(x1);
+        }
+    }
+    return (a + b) / 2;
+}
 
-    // Simplified q_star assuming demand_min=0. Let's use the full formula.
-    // Full q_star is the root of p*q - p*d_min - c*d_range = 0
-    // Simplified, for d_min=0, it is (p-c)/p * d_max if q <= d_max. 
-    // The logic in the Python seems to be a specific case.
-    // Based on the paper, q* is where E[MR]=MC. For uniform, this is more complex.
-    // The provided python code q_star = self.demand_range * (self.p - self.c) / self.p is a known result for a specific model setup. We'll use it.
-    const q_star_float = demand_range * (p - c) / p;
-    const q_star = Math.round(q_star_float);
+/**
+ * The whole-unit order quantity maximising expected channel profit p*E[min(q,D)] - c*q.
+ */
+export function systemOptimalQuantity(params: NegotiationParams): number {
+    const totalProfit = (q: number) => params.p * expectedMinQuantityDemand(q, params) - params.c * q;
+    const q_float = goldenSectionMax(totalProfit, 0, demandBounds(params.demand).max);
+    // Total profit is concave in q, so the best integer is one of the two neighbours.
+    const lower = Math.floor(q_float);
+    return totalProfit(lower + 1) > totalProfit(lower) ? lower + 1 : lower;
+}
+
+/**
+ * Calculates the (generalised) Nash bargaining solution under full information, for the session's contract terms.
+ * The contract maximises (πS - dS)^(1-β) * (πR - dR)^β, where β is the retailer's bargaining weight and dS, dR
+ * the disagreement payoffs. Since w only transfers profit, the product is maximised at the system-optimal q.
+ */
+export function nashBargainingSolution(params: NegotiationParams, bargaining: BargainingSettings = params.bargaining ?? SYMMETRIC_BARGAINING): NashSolution {
+    const { p } = params;
+    const { retailerWeight, disagreement } = bargaining;
+
+    const q_star = systemOptimalQuantity(params);
+    const transfer = transferPerUnitW(q_star, params, params.contract);
+
+    let w_star = p;
+    if (transfer > 0) {
+        // Outside [w_min, w_max] one side would be better off without a deal.
+        const atZero = calculateProfits(0, q_star, params);
+        const w_min = (disagreement.supplier - atZero.supplier_profit) / transfer;
+        const w_max = (atZero.retailer_profit - disagreement.retailer) / transfer;
+        if (w_min < w_max) {
+            const logNashProduct = (w: number) => {
+                const { supplier_profit, retailer_profit } = calculateProfits(w, q_star, params);
+                return (1 - retailerWeight) * Math.log(supplier_profit - disagreement.supplier)
+                    + retailerWeight * Math.log(retailer_profit - disagreement.retailer);
+            };
+            w_star = goldenSectionMax(logNashProduct, w_min, w_max, 1e-9);
+        } else {
+            // No contract beats both disagreement points; split the shortfall evenly.
+            w_star = (w_min + w_max) / 2;
+        }
+    }
 
-    // The w_star formula from Python is also specific to the model.
-    const w_star = p * (p + 3*c) / (2 * (p + c));
-    
     const profits = calculateProfits(w_star, q_star, params);
 
     return {
@@ -63,6 +171,14 @@ export function nashBargainingSolution(params: NegotiationParams): NashSolution
     };
 }
 
+/**
+ * What each side gets when the negotiation ends without a deal.
+ */
+export function disagreementPayoffs(params: NegotiationParams): ProfitCalcs {
+    const { supplier, retailer } = (params.bargaining ?? SYMMETRIC_BARGAINING).disagreement;
+    return { supplier_profit: supplier, retailer_profit: retailer, total_profit: supplier + retailer };
+}
+
 /**
  * A simple bisection method implementation to find a root of a function.
  */
@@ -95,22 +211,24 @@ function bisection<T,>(func: (x: number, context: T) => number, context: T, a: n
 /**
  * Given wholesale price w, find the quantity q that yields a target retailer profit.
  */
-export function findQForTargetRetailerProfit(w: number, targetProfit: number, params: NegotiationParams): number | null {
-    const { p } = params;
+export function findQForTargetRetailerProfit(w: number, targetProfit: number, params: NegotiationParams, terms: ContractTerms = params.contract): number | null {
+    // We search a bit beyond the largest plausible demand as a safe upper bound.
+    const q_upper = demandBounds(params.demand).max * 2;
+    const profitDifference = (q: number): number => {
+        const { retailer_profit } = calculateProfits(w, q, params, terms);
+        return retailer_profit - targetProfit;
+    };
+
+    // Retailer profit rises with q up to a peak; under buyback, where the retailer pays for every unit ordered,
+    // it falls again after it. The smallest quantity that reaches the target lies below the peak.
+    const q_peak = goldenSectionMax(profitDifference, 0, q_upper);
 
-    // If w >= p, retailer profit is zero or negative, can't hit a positive target.
-    if (w >= p) {
+    // If the retailer loses money on every unit (e.g. w >= p), a positive target is out of reach.
+    if (calculateProfits(w, q_peak, params, terms).retailer_profit <= 0) {
         return targetProfit <= 0 ? 0 : null;
     }
 
-    const profitDifference = (q: number): number => {
-        const { retailer_profit } = calculateProfits(w, q, params);
-        return retailer_profit - targetProfit;
-    };
-    
-    // Search for q in a reasonable range. Since retailer profit is monotonic with q, bisection is fine.
-    // We search a bit beyond demand_max as a safe upper bound.
-    const q_float = bisection(profitDifference, {}, 1e-6, params.demand_max * 2);
+    const q_float = bisection(profitDifference, {}, 1e-6, q_peak);
     if (q_float === null) {
         return null;
     }
@@ -120,8 +238,8 @@ export function findQForTargetRetailerProfit(w: number, targetProfit: number, pa
 /**
  * Given quantity q, find the wholesale price w that yields a target retailer profit.
  */
-export function findWForTargetRetailerProfit(q: number, targetProfit: number, params: NegotiationParams): number | null {
-    const { p, c } = params;
+export function findWForTargetRetailerProfit(q: number, targetProfit: number, params: NegotiationParams, terms: ContractTerms = params.contract): number | null {
+    const { p } = params;
 
     if (targetProfit > 0 && q <= 0) {
         return null;
@@ -130,23 +248,121 @@ export function findWForTargetRetailerProfit(q: number, targetProfit: number, pa
         return p; 
     }
 
-    const expected_sales = expectedMinQuantityDemand(q, params);
+    const transfer = transferPerUnitW(q, params, terms);
 
-    if (expected_sales <= 0) {
+    if (transfer <= 0) {
         return null; 
     }
 
-    // retailer_profit = (p - w) * expected_sales
-    // w = p - (retailer_profit / expected_sales)
-    const w = p - (targetProfit / expected_sales);
+    // retailer_profit = retailer_profit(w=0) - w * transfer
+    // w = (retailer_profit(w=0) - retailer_profit) / transfer
+    const w = (calculateProfits(0, q, params, terms).retailer_profit - targetProfit) / transfer;
 
-    if (w < c) {
+    if (!coversUnitCost(w, q, params, terms)) {
         return null;
     }
 
     return w;
 }
 
+/**
+ * Given quantity q, find the wholesale price w that yields a target supplier profit.
+ */
+export function findWForTargetSupplierProfit(q: number, targetProfit: number, params: NegotiationParams, terms: ContractTerms = params.contract): number | null {
+    if (targetProfit > 0 && q <= 0) {
+        return null;
+    }
+    if (targetProfit <= 0 && q <= 0) {
+        return params.c;
+    }
+
+    const transfer = transferPerUnitW(q, params, terms);
+
+    if (transfer <= 0) {
+        return null;
+    }
+
+    // supplier_profit = supplier_profit(w=0) + w * transfer
+    const w = (targetProfit - calculateProfits(0, q, params, terms).supplier_profit) / transfer;
+
+    if (!leavesRetailerMargin(w, q, params, terms)) {
+        return null;
+    }
+
+    return w;
+}
+
+/**
+ * The quantity ranges over which profits are continuous in q. A quantity discount starts at its threshold,
+ * so profits jump there: the range splits into the quantities below it and those from it on.
+ */
+function continuousQuantityRanges(q_upper: number, terms: ContractTerms): [number, number][] {
+    if (terms.type !== 'quantity_discount') {
+        return [[0, q_upper]];
+    }
+    const first = Math.ceil(terms.threshold); // The first whole quantity with the discount
+    if (first <= 1 || first >= q_upper) {
+        return [[0, q_upper]];
+    }
+    return [[0, first - 1], [first, q_upper]];
+}
+
+/**
+ * Given wholesale price w, find the quantity q that yields a target supplier profit.
+ * Supplier profit rises and then falls with q, so two quantities reach the target: the larger one,
+ * which the retailer prefers, is returned unless `largest` is false. Under a quantity discount this holds
+ * on each side of the threshold, and each side is searched on its own.
+ */
+export function findQForTargetSupplierProfit(w: number, targetProfit: number, params: NegotiationParams, terms: ContractTerms = params.contract, largest = true): number | null {
+    const q_upper = demandBounds(params.demand).max * 2;
+    const profitDifference = (q: number): number => {
+        const { supplier_profit } = calculateProfits(w, q, params, terms);
+        return supplier_profit - targetProfit;
+    };
+
+    const ranges = continuousQuantityRanges(q_upper, terms);
+    // The largest quantity lies in the last range that reaches the target, the smallest in the first.
+    for (const [lo, hi] of largest ? ranges.reverse() : ranges) {
+        const q_peak = goldenSectionMax(profitDifference, lo, hi);
+        if (profitDifference(q_peak) < 0) {
+            continue;
+        }
+        let q_float: number | null;
+        if (largest) {
+            // A range ending at the threshold may still meet the target at its end.
+            q_float = hi < q_upper && profitDifference(hi) >= 0 ? hi : bisection(profitDifference, {}, q_peak, hi);
+        } else {
+            q_float = lo > 0 && profitDifference(lo) >= 0 ? lo : bisection(profitDifference, {}, Math.max(lo, 1e-6), q_peak);
+        }
+        if (q_float === null) {
+            return null;
+        }
+        // Round towards the peak so the target is still met; a root found within the tolerance of
+        // a whole quantity may round just past it, so step once more before giving up.
+        let q = largest ? Math.floor(q_float) : Math.ceil(q_float);
+        if (profitDifference(q) < 0) {
+            q = largest ? q - 1 : q + 1;
+        }
+        return profitDifference(q) >= 0 ? q : null;
+    }
+    return null;
+}
+
+/**
+ * The lowest wholesale price that yields a target supplier profit, with the whole-unit quantity it requires.
+ * The target is either fixed or given per quantity.
+ */
+export function lowestWForTargetSupplierProfit(targetProfit: number | ((q: number) => number), params: NegotiationParams, terms: ContractTerms = params.contract): { w: number; q: number } | null {
+    let best: { w: number; q: number } | null = null;
+    for (let q = 1; q <= Math.round(demandBounds(params.demand).max); q++) {
+        const target = typeof targetProfit === 'number' ? targetProfit : targetProfit(q);
+        const w = findWForTargetSupplierProfit(q, target, params, terms);
+        if (w !== null && (best === null || w < best.w)) {
+            best = { w, q };
+        }
+    }
+    return best;
+}
 
 /**
  * Given quantity q, find optimal w for 50/50 profit split.
@@ -169,10 +385,36 @@ export function optimalQForW(w: number, params: NegotiationParams): number | nul
         const profits = calculateProfits(w, q, params);
         return profits.supplier_profit - profits.retailer_profit;
     };
-    // The bracket for q is [epsilon, demand_max]
-    const q_float = bisection(profitDifference, {}, 1e-6, params.demand_max);
+    // The bracket for q is [epsilon, largest plausible demand]
+    const q_float = bisection(profitDifference, {}, 1e-6, demandBounds(params.demand).max);
     if (q_float === null) {
         return null;
     }
     return Math.round(q_float);
-}
\ No newline at end of file
+}
+
+/**
+ * Realised profits of an offer when demand turns out to be `demand`.
+ */
+export function realisedProfits(offer: Offer, demand: number, params: NegotiationParams): ProfitCalcs {
+    return profitsForSales(offer.w, offer.q, Math.min(demand, offer.q), params, offer);
+}
+
+/**
+ * Realised profits of an offer across demand outcomes, for the profit-vs-demand charts.
+ */
+export function profitVsDemandData(offer: Offer, params: NegotiationParams, points = 20) {
+    const { min, max } = demandBounds(params.demand);
+    const step = (max - min) / points;
+    const data = [];
+    for (let i = 0; i <= points; i++) {
+      const d = Math.round((min + i * step) * 100) / 100;
+      const profits = realisedProfits(offer, d, params);
+      data.push({
+        demand: d,
+        supplierProfit: profits.supplier_profit,
+        retailerProfit: profits.retailer_profit,
+      });
+    }
+    return data;
+}
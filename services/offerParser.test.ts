@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { formatOfferListing, OFFER_CONFIDENCE_THRESHOLD, OFFER_READER_EXAMPLES, parseOfferText } from './offerParser';
+
+describe('the offer reader corpus', () => {
+    it.each(OFFER_READER_EXAMPLES.map(example => [example.message, example.offer] as const))('is read without the LLM: %s', (message, offer) => {
+        const parsed = parseOfferText(message);
+        expect({ w: parsed.w, q: parsed.q }).toEqual({ w: offer.w, q: offer.q });
+        expect(parsed.confidence).toBeGreaterThanOrEqual(OFFER_CONFIDENCE_THRESHOLD);
+        // Each term points back at the number it was read from.
+        for (const span of parsed.spans.filter(span => span.field === 'w' || span.field === 'q')) {
+            expect(message.slice(span.start, span.end)).toBe(span.text);
+            expect(span.value).toBe(parsed[span.field]);
+        }
+    });
+});
+
+describe('parseOfferText', () => {
+    it.each([
+        ['I propose w=7.31 and q=70.', { w: 7.31, q: 70 }],
+        ['How about 6,50€ for 45 units?', { w: 6.5, q: 45 }],
+        ['I can do a price of 8', { w: 8, q: undefined }],
+        ['Let us order 55 units.', { w: undefined, q: 55 }],
+    ])('reads %s', (message, offer) => {
+        const parsed = parseOfferText(message);
+        expect({ w: parsed.w, q: parsed.q }).toEqual(offer);
+        expect(parsed.confidence).toBeGreaterThanOrEqual(OFFER_CONFIDENCE_THRESHOLD);
+    });
+
+    it('reads secondary contract terms', () => {
+        const parsed = parseOfferText('w=6.20, q=70, with a buyback price of 2.50 per unsold unit');
+        expect(parsed.b).toBe(2.5);
+    });
+
+    it('does not take the production cost for the price', () => {
+        const parsed = parseOfferText('My production cost is 4€, so I need a price of 7€ for 50 units.');
+        expect(parsed.w).toBe(7);
+        expect(parsed.q).toBe(50);
+    });
+
+    it('finds nothing in an empty message', () => {
+        expect(parseOfferText('   ')).toEqual({ confidence: 1, spans: [] });
+    });
+});
+
+describe('formatOfferListing', () => {
+    it('writes the [Price in Euros, Quantity] list format of the LLM offer reader', () => {
+        expect(formatOfferListing({ w: 6.5, q: 40 })).toBe('[6.50€, 40]');
+        expect(formatOfferListing({ q: 30 })).toBe('[, 30]');
+        expect(formatOfferListing({ w: 7 })).toBe('[7.00€, ]');
+        expect(formatOfferListing({})).toBe('[,]');
+    });
+});
@@ -0,0 +1,257 @@
+/**
+ * Rule-based extraction of the wholesale price (w) and quantity (q) from a negotiation message, along with the
+ * secondary contract terms (buyback price, revenue share, discount threshold and rate).
+ * It runs before the LLM offer reader and is trusted on its own when its confidence is high enough.
+ */
+
+export type OfferField = 'w' | 'q' | 'b' | 'phi' | 'threshold' | 'discount';
+
+export interface OfferSpan {
+    field: OfferField | 'ignored'; // 'ignored' marks cost / retail price mentions and percentages.
+    value: number;
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface ParsedOffer {
+    w?: number;
+    q?: number;
+    b?: number;
+    phi?: number; // As a fraction, e.g. 0.7 for 70%
+    threshold?: number;
+    discount?: number; // As a fraction
+    confidence: number; // 0..1
+    spans: OfferSpan[];
+}
+
+/** Below this confidence the caller should ask the LLM offer reader instead. */
+export const OFFER_CONFIDENCE_THRESHOLD = 0.75;
+
+/**
+ * The few-shot examples given to the LLM offer reader. They double as the reference corpus for the rule-based parser.
+ */
+export const OFFER_READER_EXAMPLES: { message: string; offer: { w?: number; q?: number } }[] = [
+    {
+        message: "Thanks for sharing your goals, Buyer! Based on our previous conversation, I'm happy to work towards a price agreement below the retail price. I'd like to explore Quantity options first. How about we aim for a Quantity of 40 and revisit Price later?",
+        offer: { q: 40 },
+    },
+    {
+        message: "Interesting, a price below 5.9€ and Quantity of 20 could work for me too. Can you consider a higher price, say around 6.4€, in exchange for a Quantity of 50?",
+        offer: { w: 6.40, q: 50 },
+    },
+    {
+        message: "I would like to agree on a price of 5.83 and a quantity of 30, do we have a deal?",
+        offer: { w: 5.83, q: 30 },
+    },
+    {
+        message: "I understand your concern. As for quantity, a 60 units could be feasible, considering it still meets your expectations.",
+        offer: { q: 60 },
+    },
+    {
+        message: "Considering my production cost, let's first discuss quantity levels.",
+        offer: {},
+    },
+    {
+        message: "Price is 9.43 for 25 quantity.",
+        offer: { w: 9.43, q: 25 },
+    },
+];
+
+/**
+ * Formats an offer in the [Price in Euros, Quantity] list format used by the LLM offer reader, e.g. [6.50€, 40].
+ */
+export function formatOfferListing(offer: { w?: number; q?: number }): string {
+    if (offer.w === undefined && offer.q === undefined) {
+        return '[,]';
+    }
+    const w = offer.w !== undefined ? `${offer.w.toFixed(2)}€` : '';
+    const q = offer.q !== undefined ? offer.q.toFixed(0) : '';
+    return `[${w}, ${q}]`;
+}
+
+const NUM = String.raw`(\d+(?:[.,]\d+)?)`;
+const CURRENCY = String.raw`(?:€|eur(?:os?)?\b)`;
+const HEDGE = String.raw`(?:(?:around|about|approximately|roughly|say|just|only|maybe)[\s,]+)*`;
+const LINK = String.raw`(?:\s+(?:of|is|at|=|:|to)|\s*[=:])?[\s,]*`;
+const CONTEXT_LINK = String.raw`(?:\s+(?:of|is|are|at|=|:)|\s*[=:])?\s*`;
+const RANGE_SEP = String.raw`\s*(?:-|–|to)\s*`;
+
+interface Rule {
+    field: OfferField | 'ignored';
+    score: number;
+    pattern: RegExp;
+    range?: boolean; // The pattern captures two numbers; the midpoint is used.
+    share?: boolean; // The value is a fraction; percentages (and values above 1) are divided by 100.
+}
+
+// Rules are applied in order and the first rule to claim a number wins, so exclusions come
+// first, then ranges, then unambiguous notations, then weaker contextual cues.
+const RULES: Rule[] = [
+    // Production cost and retail price mentions are context, never the negotiated values.
+    { field: 'ignored', score: 1, pattern: new RegExp(String.raw`\b(?:production\s+|unit\s+|manufacturing\s+)?costs?\b(?:\s+me)?${CONTEXT_LINK}${HEDGE}€?\s*${NUM}`, 'gid') },
+    { field: 'ignored', score: 1, pattern: new RegExp(String.raw`\b(?:retail|market|selling|sales)\s+price\b${CONTEXT_LINK}${HEDGE}€?\s*${NUM}`, 'gid') },
+    { field: 'ignored', score: 1, pattern: new RegExp(String.raw`\(?\b[cp]\)?\s*(?:=|:|\bis\b|\bof\b)\s*€?\s*${NUM}`, 'gid') },
+
+    // Secondary contract terms: "b=2", "buyback price of 2€", "2€ per unsold unit", "phi=0.7", "revenue share of 70%",
+    // "10% discount", "discount for orders of at least 60 units".
+    { field: 'b', score: 0.95, pattern: new RegExp(String.raw`\(?\bb\)?\s*(?:=|:|\bof\b|\bis\b)\s*€?\s*${NUM}`, 'gid') },
+    { field: 'b', score: 0.9, pattern: new RegExp(String.raw`\bbuy-?\s?back(?:\s+(?:price|rate|credit))?\b${LINK}${HEDGE}€?\s*${NUM}`, 'gid') },
+    { field: 'b', score: 0.9, pattern: new RegExp(String.raw`€?\s*${NUM}\s*${CURRENCY}?\s*(?:per|for\s+each|for\s+every|on\s+each)\s+(?:unsold|leftover|returned|unused)`, 'gid') },
+    { field: 'phi', score: 0.95, share: true, pattern: new RegExp(String.raw`\(?(?:\bphi|φ)\)?\s*(?:=|:|\bof\b|\bis\b)\s*${NUM}\s*%?`, 'gid') },
+    { field: 'phi', score: 0.9, share: true, pattern: new RegExp(String.raw`\b(?:revenue|sales)[\s-]+shar(?:e|ing)\b${LINK}${HEDGE}${NUM}\s*%?`, 'gid') },
+    { field: 'phi', score: 0.85, share: true, pattern: new RegExp(String.raw`\bretailer\s+keep(?:s|ing)?\s+${HEDGE}${NUM}\s*%`, 'gid') },
+    { field: 'threshold', score: 0.95, pattern: new RegExp(String.raw`\bthreshold\b${LINK}${HEDGE}${NUM}`, 'gid') },
+    { field: 'threshold', score: 0.9, pattern: new RegExp(String.raw`\b(?:orders?|quantit(?:y|ies))\s+(?:of\s+)?(?:at\s+least|over|above|from)\s+${NUM}`, 'gid') },
+    { field: 'threshold', score: 0.85, pattern: new RegExp(String.raw`\bdiscount\b(?:[^.\d]|\d+%?|\.\d){0,40}?\b(?:from|above|over|beyond)\s+${NUM}`, 'gid') },
+    { field: 'threshold', score: 0.85, pattern: new RegExp(String.raw`\b${NUM}\s*(?:units?\s+)?or\s+more\b`, 'gid') },
+    { field: 'discount', score: 0.95, share: true, pattern: new RegExp(String.raw`\bdiscount\b${LINK}${HEDGE}${NUM}\s*%?`, 'gid') },
+    { field: 'discount', score: 0.9, share: true, pattern: new RegExp(String.raw`${NUM}\s*%\s*(?:volume\s+|quantity\s+)?(?:discount|off)\b`, 'gid') },
+
+    // Other percentages are never offer values.
+    { field: 'ignored', score: 1, pattern: new RegExp(String.raw`${NUM}\s*%`, 'gid') },
+
+    // Ranges such as "6-7€", "between 40 and 50 units" or "a price between 6 and 7".
+    { field: 'w', score: 0.6, range: true, pattern: new RegExp(String.raw`\bprice\b${LINK}(?:between\s+€?\s*${NUM}\s*€?\s+and\s+€?\s*${NUM}|€?\s*${NUM}\s*€?${RANGE_SEP}€?\s*${NUM})`, 'gid') },
+    { field: 'w', score: 0.6, range: true, pattern: new RegExp(String.raw`(?:between\s+€?\s*${NUM}\s*€?\s+and\s+€?\s*${NUM}|€?\s*${NUM}\s*€?${RANGE_SEP}€?\s*${NUM})\s*${CURRENCY}`, 'gid') },
+    { field: 'w', score: 0.6, range: true, pattern: new RegExp(String.raw`€\s*${NUM}${RANGE_SEP}€?\s*${NUM}`, 'gid') },
+    { field: 'q', score: 0.6, range: true, pattern: new RegExp(String.raw`\b(?:quantity|qty)\b${LINK}(?:between\s+${NUM}\s+and\s+${NUM}|${NUM}${RANGE_SEP}${NUM})`, 'gid') },
+    { field: 'q', score: 0.6, range: true, pattern: new RegExp(String.raw`(?:between\s+${NUM}\s+and\s+${NUM}|${NUM}${RANGE_SEP}${NUM})\s*(?:units?|pieces|pcs|items)\b`, 'gid') },
+
+    // Explicit notation: "w=6.5", "(q) of 40", "€6.50", "6,50 EUR", "40 units".
+    { field: 'w', score: 0.95, pattern: new RegExp(String.raw`\(?\bw\)?\s*(?:=|:|\bof\b|\bis\b|\bat\b)\s*€?\s*${NUM}`, 'gid') },
+    { field: 'q', score: 0.95, pattern: new RegExp(String.raw`\(?\bq\)?\s*(?:=|:|\bof\b|\bis\b|\bat\b)\s*${NUM}`, 'gid') },
+    { field: 'w', score: 0.9, pattern: new RegExp(String.raw`€\s*${NUM}|${NUM}\s*${CURRENCY}`, 'gid') },
+    { field: 'q', score: 0.9, pattern: new RegExp(String.raw`${NUM}\s*(?:units?|pieces|pcs|items|quantity)\b`, 'gid') },
+    { field: 'w', score: 0.85, pattern: new RegExp(String.raw`\bprice\b${LINK}${HEDGE}${NUM}`, 'gid') },
+    { field: 'q', score: 0.85, pattern: new RegExp(String.raw`\b(?:quantity|qty|order)\b${LINK}${HEDGE}${NUM}`, 'gid') },
+
+    // Contextual cues: "price of 7 for 30", "40 units at 6.5".
+    { field: 'q', score: 0.75, pattern: new RegExp(String.raw`\bfor\s+${NUM}\b(?!\s*${CURRENCY})`, 'gid') },
+    { field: 'w', score: 0.7, pattern: new RegExp(String.raw`\bat\s+€?\s*${NUM}`, 'gid') },
+];
+
+// A value introduced by one of these is a bound the speaker mentions, not what they propose.
+const BOUND_QUALIFIER = /(?:below|under|above|over|more than|less than|at least|at most|no more than|no less than|higher than|lower than)\s*€?\s*$/i;
+const BOUND_SCORE = 0.5;
+
+// Penalty applied when the chosen value competes with another plausible one.
+const AMBIGUITY_PENALTY = 0.1;
+
+function toNumber(raw: string): number {
+    // "1,000" is a thousands separator, "6,50" a decimal comma.
+    if (/^\d{1,3},\d{3}$/.test(raw)) {
+        return parseFloat(raw.replace(',', ''));
+    }
+    return parseFloat(raw.replace(',', '.'));
+}
+
+interface Candidate extends OfferSpan {
+    score: number;
+}
+
+function collectCandidates(text: string): Candidate[] {
+    const claimed = new Set<number>();
+    const candidates: Candidate[] = [];
+
+    for (const rule of RULES) {
+        rule.pattern.lastIndex = 0;
+        for (const match of text.matchAll(rule.pattern)) {
+            const groups: [number, number][] = [];
+            for (let i = 1; i < match.length; i++) {
+                if (match[i] !== undefined && match.indices?.[i]) {
+                    groups.push(match.indices[i]);
+                }
+            }
+            if (groups.length === 0 || groups.some(([start]) => claimed.has(start))) {
+                continue;
+            }
+            groups.forEach(([start]) => claimed.add(start));
+
+            const values = groups.map(([start, end]) => toNumber(text.substring(start, end)));
+            let value = rule.range ? (values[0] + values[values.length - 1]) / 2 : values[0];
+            if (rule.share && (match[0].trimEnd().endsWith('%') || value > 1)) {
+                value /= 100;
+            }
+            const start = groups[0][0];
+            const end = groups[groups.length - 1][1];
+
+            let score = rule.score;
+            // A threshold is a bound by nature.
+            if (rule.field !== 'ignored' && rule.field !== 'threshold' && BOUND_QUALIFIER.test(text.substring(Math.max(0, start - 25), start))) {
+                score = Math.min(score, BOUND_SCORE);
+            }
+            candidates.push({ field: rule.field, value, start, end, text: text.substring(start, end), score });
+        }
+    }
+
+    // Any number no rule could place makes the whole reading less certain.
+    for (const match of text.matchAll(/\d+(?:[.,]\d+)?/g)) {
+        if (!candidates.some(c => match.index! >= c.start && match.index! < c.end)) {
+            candidates.push({ field: 'ignored', value: toNumber(match[0]), start: match.index!, end: match.index! + match[0].length, text: match[0], score: 0 });
+        }
+    }
+
+    return candidates.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Picks the strongest candidate for a field, preferring the last mention on ties
+ * since negotiators usually end a message with their actual proposal.
+ */
+function pickField(candidates: Candidate[], field: OfferField): { candidate: Candidate; confidence: number } | null {
+    const ofField = candidates.filter(c => c.field === field);
+    if (ofField.length === 0) {
+        return null;
+    }
+    const best = ofField.reduce((a, b) => (b.score >= a.score ? b : a));
+    const competing = ofField.some(c => c !== best && c.value !== best.value && c.score >= OFFER_CONFIDENCE_THRESHOLD - AMBIGUITY_PENALTY);
+    return { candidate: best, confidence: competing ? best.score - AMBIGUITY_PENALTY : best.score };
+}
+
+// How each field is rounded: prices to cents, quantities to whole units, shares to a tenth of a percent.
+const FIELD_ROUNDING: Record<OfferField, (value: number) => number> = {
+    w: value => Math.round(value * 100) / 100,
+    q: Math.round,
+    b: value => Math.round(value * 100) / 100,
+    phi: value => Math.round(value * 1000) / 1000,
+    threshold: Math.round,
+    discount: value => Math.round(value * 1000) / 1000,
+};
+
+/**
+ * Extracts w, q and any secondary contract terms from free text with a confidence score and the spans that were matched.
+ */
+export function parseOfferText(text: string): ParsedOffer {
+    if (!text || !text.trim()) {
+        return { confidence: 1, spans: [] };
+    }
+
+    const candidates = collectCandidates(text);
+    const hasUnplacedNumbers = candidates.some(c => c.field === 'ignored' && c.score === 0);
+
+    const result: ParsedOffer = { confidence: 1, spans: [] };
+    const fieldConfidences: number[] = [];
+    const chosen: Candidate[] = [];
+    for (const field of Object.keys(FIELD_ROUNDING) as OfferField[]) {
+        const picked = pickField(candidates, field);
+        if (picked) {
+            result[field] = FIELD_ROUNDING[field](picked.candidate.value);
+            fieldConfidences.push(picked.confidence);
+            chosen.push(picked.candidate);
+        }
+    }
+
+    if (fieldConfidences.length > 0) {
+        result.confidence = Math.min(...fieldConfidences, hasUnplacedNumbers ? 0.5 : 1);
+    } else {
+        // Nothing offered: certain if every number was explained, doubtful otherwise.
+        result.confidence = hasUnplacedNumbers ? 0.3 : 1;
+    }
+
+    result.spans = candidates
+        .filter(c => c.field === 'ignored' || chosen.includes(c))
+        .map(({ field, value, start, end, text }) => ({ field, value, start, end, text }));
+
+    return result;
+}
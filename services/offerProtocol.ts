@@ -0,0 +1,41 @@
+import type { AiAction, Message, OfferStatus } from '../types';
+
+/**
+ * The binding-offer protocol. Every offer attached to a message is binding: the other side can accept it
+ * exactly as it stands, which concludes the negotiation. An offer stays open ('proposed') until the other
+ * side answers it, or until a newer offer replaces it ('countered').
+ */
+
+type Sender = Message['sender'];
+
+/**
+ * What the AI's reply does to the user's open offer.
+ */
+export const OFFER_STATUS_FOR_ACTION: Record<AiAction, OfferStatus | null> = {
+    'accept': 'accepted',
+    'counter': 'countered',
+    'reject': 'rejected',
+    'walk-away': 'rejected',
+    'ask': null, // Asking for a proposal leaves their offer open
+};
+
+/**
+ * The latest offer of `sender` that is still open.
+ */
+export function openOffer(messages: Message[], sender: Sender): Message | undefined {
+    return messages.slice().reverse().find(m => m.sender === sender && m.offer && m.offerStatus === 'proposed');
+}
+
+/**
+ * Answers the open offers when `responder` replies: the other side's open offers get `status`, and the
+ * responder's own open offers are countered if the reply carries a new offer.
+ */
+export function answerOpenOffers(messages: Message[], responder: Sender, status: OfferStatus | null, makesOffer: boolean): Message[] {
+    return messages.map(m => {
+        if (!m.offer || m.offerStatus !== 'proposed') {
+            return m;
+        }
+        const next = m.sender === responder ? (makesOffer ? 'countered' : null) : status;
+        return next ? { ...m, offerStatus: next } : m;
+    });
+}
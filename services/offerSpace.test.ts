@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { Message, NegotiationParams } from '../types';
+import { isoProfitContour, offerSpaceGrid, offerTrajectory, paretoFrontier } from './offerSpace';
+import { calculateProfits, nashBargainingSolution } from './negotiationService';
+import { INITIAL_PARAMS } from '../constants';
+
+const params: NegotiationParams = { ...INITIAL_PARAMS, c: 4, p: 11 };
+
+describe('offer space', () => {
+    it('covers prices up to p and the demand range in equal cells', () => {
+        const cells = offerSpaceGrid(params, 10);
+        expect(cells).toHaveLength(100);
+        expect(Math.max(...cells.map(cell => cell.w1))).toBeCloseTo(11, 9);
+        expect(Math.max(...cells.map(cell => cell.q1))).toBeCloseTo(100, 9);
+    });
+
+    it.each(['supplier', 'retailer'] as const)('traces offers with the same %s profit', role => {
+        const contour = isoProfitContour(role, 80, params);
+        expect(contour.length).toBeGreaterThan(0);
+        for (const { w, q } of contour) {
+            const profits = calculateProfits(w, q, params);
+            expect(role === 'supplier' ? profits.supplier_profit : profits.retailer_profit).toBeCloseTo(80, 6);
+        }
+    });
+
+    it('puts the Pareto frontier at the total profit of the Nash solution', () => {
+        const nash = nashBargainingSolution(params);
+        const frontier = paretoFrontier(params);
+        expect(frontier.length).toBeGreaterThan(1);
+        for (const point of frontier) {
+            expect(point.total_profit).toBeCloseTo(nash.total_profit, 6);
+            expect(Math.min(point.supplier_profit, point.retailer_profit)).toBeGreaterThanOrEqual(0);
+        }
+    });
+
+    it('takes the full offers of the chat as the trajectory', () => {
+        const messages: Message[] = [
+            { id: 1, sender: 'user', text: 'w=8, q=50', parsedOffer: { w: 8, q: 50 } },
+            { id: 2, sender: 'ai', text: 'Counter', offer: { type: 'wholesale', w: 6, q: 60 } },
+            { id: 3, sender: 'user', text: '40 units?', parsedOffer: { q: 40 } },
+        ];
+        const trajectory = offerTrajectory(messages, params);
+        expect(trajectory.map(point => [point.sender, point.step, point.w, point.q])).toEqual([['user', 1, 8, 50], ['ai', 2, 6, 60]]);
+        expect(trajectory[1].supplier_profit).toBeCloseTo(calculateProfits(6, 60, params).supplier_profit, 9);
+    });
+});
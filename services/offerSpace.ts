@@ -0,0 +1,117 @@
+import type { Message, NegotiationParams, Offer, ProfitCalcs, Role } from '../types';
+import { demandBounds } from './demandDistribution';
+import { calculateOfferProfits, calculateProfits, disagreementPayoffs, findWForTargetRetailerProfit, findWForTargetSupplierProfit, systemOptimalQuantity } from './negotiationService';
+import { mergeContractTerms } from './contracts';
+import { messageOffer } from './sessionLog';
+
+/**
+ * Data for the offer-space charts: expected profits over (w, q) under the session's contract,
+ * iso-profit contours, the Pareto frontier in profit space and the offers made in the chat.
+ */
+
+// Cells per axis of the heat map.
+export const OFFER_SPACE_STEPS = 20;
+
+export interface OfferPoint extends ProfitCalcs {
+    w: number;
+    q: number;
+}
+
+// A heat map cell, spanning [w0, w1] x [q0, q1] around its centre (w, q).
+export interface HeatCell extends OfferPoint {
+    w0: number;
+    w1: number;
+    q0: number;
+    q1: number;
+}
+
+export interface TrajectoryPoint extends OfferPoint {
+    sender: Message['sender'];
+    step: number; // 1-based position among the offers of the chat
+    at?: number; // The message's timestamp
+    offer: Offer;
+}
+
+/**
+ * The (w, q) region the charts cover: prices up to the retail price and quantities across the demand range.
+ */
+export function offerSpaceBounds(params: NegotiationParams): { wMax: number; qMax: number } {
+    return { wMax: params.p, qMax: Math.ceil(demandBounds(params.demand).max) };
+}
+
+/**
+ * The offer at (w, q) under the session's contract, rounded to what the offer inputs take.
+ */
+export function offerAt(w: number, q: number, params: NegotiationParams): Offer {
+    return { ...params.contract, w: Math.round(w * 100) / 100, q: Math.max(1, Math.round(q)) };
+}
+
+/**
+ * Expected profits on a steps x steps grid of the offer space.
+ */
+export function offerSpaceGrid(params: NegotiationParams, steps = OFFER_SPACE_STEPS): HeatCell[] {
+    const { wMax, qMax } = offerSpaceBounds(params);
+    const dw = wMax / steps;
+    const dq = qMax / steps;
+    const cells: HeatCell[] = [];
+    for (let i = 0; i < steps; i++) {
+        for (let j = 0; j < steps; j++) {
+            const w = (i + 0.5) * dw;
+            const q = (j + 0.5) * dq;
+            cells.push({ w, q, w0: i * dw, w1: (i + 1) * dw, q0: j * dq, q1: (j + 1) * dq, ...calculateProfits(w, q, params) });
+        }
+    }
+    return cells;
+}
+
+/**
+ * The offers giving one side a fixed expected profit, as w over q. Every contract transfers profit
+ * linearly in w, so each quantity has at most one such price; quantities without one are left out.
+ */
+export function isoProfitContour(role: Role, level: number, params: NegotiationParams, points = 50): { w: number; q: number }[] {
+    const { wMax, qMax } = offerSpaceBounds(params);
+    const solve = role === 'supplier' ? findWForTargetSupplierProfit : findWForTargetRetailerProfit;
+    const contour = [];
+    for (let k = 1; k <= points; k++) {
+        const q = (k * qMax) / points;
+        const w = solve(q, level, params);
+        if (w !== null && w >= 0 && w <= wMax) {
+            contour.push({ w, q });
+        }
+    }
+    return contour;
+}
+
+/**
+ * The Pareto frontier of the offers both sides prefer to disagreement. Since w only transfers profit,
+ * it is the line of offers at the system-optimal quantity, traced here by stepping w.
+ */
+export function paretoFrontier(params: NegotiationParams, points = 20): OfferPoint[] {
+    const q = systemOptimalQuantity(params);
+    const disagreement = disagreementPayoffs(params);
+    const frontier: OfferPoint[] = [];
+    for (let k = 0; k <= points; k++) {
+        const w = (k * params.p) / points;
+        const profits = calculateProfits(w, q, params);
+        if (profits.supplier_profit >= disagreement.supplier_profit && profits.retailer_profit >= disagreement.retailer_profit) {
+            frontier.push({ w, q, ...profits });
+        }
+    }
+    return frontier;
+}
+
+/**
+ * Every offer of the chat with both a price and a quantity, in order: attached offers and those read from the user's text.
+ */
+export function offerTrajectory(messages: Message[], params: NegotiationParams): TrajectoryPoint[] {
+    const points: TrajectoryPoint[] = [];
+    for (const message of messages) {
+        const found = messageOffer(message);
+        if (found?.w === undefined || found.q === undefined) {
+            continue;
+        }
+        const offer: Offer = { ...mergeContractTerms(params.contract, found), w: found.w, q: found.q };
+        points.push({ w: offer.w, q: offer.q, sender: message.sender, step: points.length + 1, at: message.timestamp, offer, ...calculateOfferProfits(offer, params) });
+    }
+    return points;
+}
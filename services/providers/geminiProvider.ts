@@ -0,0 +1,79 @@
+import { GoogleGenAI, HarmCategory, HarmBlockThreshold, type GenerateContentParameters, type GenerateContentResponse } from "@google/genai";
+import type { LlmConfig, LlmProvider, LlmRequest, LlmResult } from '../llmProvider';
+import { LlmRequestError } from '../llmErrors';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const SAFETY_SETTINGS = [
+    {
+        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+    {
+        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+    {
+        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+    {
+        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+];
+
+export function createGeminiProvider(config: LlmConfig): LlmProvider {
+    let ai: GoogleGenAI | null = null;
+
+    // The client is created on first use so a missing key only fails the call, not the app.
+    const getClient = (): GoogleGenAI => {
+        if (!config.apiKey) {
+            // A setup error: retrying cannot help, so it is not reported as the model being unavailable.
+            throw new LlmRequestError('GEMINI_API_KEY is not set. Set it, or choose another LLM_PROVIDER.');
+        }
+        if (!ai) {
+            ai = new GoogleGenAI({ apiKey: config.apiKey });
+        }
+        return ai;
+    };
+
+    return {
+        name: 'gemini',
+        async generate(request: LlmRequest): Promise<LlmResult> {
+            const params: GenerateContentParameters = {
+                model: request.model || config.model || DEFAULT_MODEL,
+                contents: request.messages.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] })),
+                config: {
+                    systemInstruction: request.systemInstruction,
+                    temperature: request.temperature,
+                    topP: request.topP,
+                    maxOutputTokens: request.maxOutputTokens,
+                    thinkingConfig: request.thinkingBudget !== undefined ? { thinkingBudget: request.thinkingBudget } : undefined,
+                    safetySettings: request.task === 'negotiate' ? SAFETY_SETTINGS : undefined,
+                    responseMimeType: request.responseSchema ? 'application/json' : undefined,
+                    responseJsonSchema: request.responseSchema,
+                    abortSignal: request.signal,
+                },
+            };
+
+            if (request.onText) {
+                let text = '';
+                let last: GenerateContentResponse | undefined;
+                for await (const chunk of await getClient().models.generateContentStream(params)) {
+                    text += chunk.text ?? '';
+                    last = chunk;
+                    request.onText(text);
+                }
+                return { text: text.trim(), finishReason: last?.candidates?.[0]?.finishReason, raw: last };
+            }
+
+            const response = await getClient().models.generateContent(params);
+            return {
+                text: response?.text?.trim() ?? '',
+                finishReason: response?.candidates?.[0]?.finishReason,
+                raw: response,
+            };
+        },
+    };
+}
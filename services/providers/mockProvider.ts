@@ -0,0 +1,133 @@
+import type { AiAction, ContractType, Offer, Role } from '../../types';
+import { CONTRACT_PRESETS } from '../../constants';
+import { mergeContractTerms } from '../contracts';
+import type { LlmMessage, LlmProvider, LlmRequest, LlmResult } from '../llmProvider';
+import { parseOfferText, formatOfferListing } from '../offerParser';
+import { defaultMoveText, type AgentMoveKind } from '../agentPolicy';
+
+const MOVE_MARKER = '[YOUR MOVE]';
+
+// Pause between the words of a streamed reply, so streaming shows in the chat as with a real model.
+const DEFAULT_CHUNK_DELAY_MS = 20;
+
+interface ScriptedTurn {
+    scenario: number;
+    action: AiAction;
+    log: string;
+    offer?: Offer;
+    text: string;
+}
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+
+/**
+ * Finds "w=7.31" style mentions, as written in the move block.
+ */
+function findValue(text: string, symbol: 'w' | 'q' | 'b' | 'phi' | 'threshold' | 'discount'): number | undefined {
+    const match = text.match(new RegExp(`\\b${symbol}\\s*=\\s*${NUMBER}`));
+    return match ? parseFloat(match[1]) : undefined;
+}
+
+/**
+ * Phrases the move that getAiResponse put in the [YOUR MOVE] block of the system instruction.
+ */
+function scriptNegotiationTurn(systemInstruction: string): ScriptedTurn {
+    const moveIndex = systemInstruction.lastIndexOf(MOVE_MARKER);
+    if (moveIndex === -1) {
+        return {
+            scenario: 4, action: 'ask',
+            log: 'No move to phrase.',
+            text: "I'm ready when you are. Please send me a proposal with a wholesale price (w) and a quantity (q).",
+        };
+    }
+
+    const block = systemInstruction.substring(moveIndex);
+    const field = (name: string) => block.match(new RegExp(`^- ${name}: (.*)$`, 'm'))?.[1]?.trim() ?? '';
+
+    const kind = field('Move') as AgentMoveKind;
+    const role: Role = field('Role') === 'supplier' ? 'supplier' : 'retailer';
+    const contract = CONTRACT_PRESETS[field('Contract') as ContractType] ?? CONTRACT_PRESETS.wholesale;
+    const offerLine = field('Offer');
+    const w = findValue(offerLine, 'w');
+    const q = findValue(offerLine, 'q');
+    const terms = mergeContractTerms(contract.terms, {
+        b: findValue(offerLine, 'b'),
+        phi: findValue(offerLine, 'phi'),
+        threshold: findValue(offerLine, 'threshold'),
+        discount: findValue(offerLine, 'discount'),
+    });
+    const offer: Offer | undefined = w !== undefined && q !== undefined ? { ...terms, w, q } : undefined;
+
+    return {
+        scenario: parseInt(field('Scenario'), 10) || 4,
+        action: (field('Action') || 'ask') as AiAction,
+        log: `Phrasing move "${kind}".`,
+        offer,
+        text: defaultMoveText({ role, kind, offer }),
+    };
+}
+
+/**
+ * Renders a scripted turn either as the JSON object of the response schema or in the
+ * [INTERNAL ANALYSIS LOG] / [FINAL RESPONSE] text structure.
+ */
+function renderTurn(turn: ScriptedTurn, asJson: boolean): string {
+    const analysis = `Scripted local model. ${turn.log}`;
+    if (asJson) {
+        return JSON.stringify({
+            analysis,
+            scenario: turn.scenario,
+            action: turn.action,
+            offer: turn.offer && { w: turn.offer.w, q: turn.offer.q },
+            text: turn.text,
+        });
+    }
+    return `[INTERNAL ANALYSIS LOG]
+- Scenario Detected: ${turn.scenario}
+- Analysis: ${analysis}
+- Action: ${turn.action}
+
+[FINAL RESPONSE]
+${turn.text}`;
+}
+
+/**
+ * Answers offer-reading requests in the [Price in Euros, Quantity] list format.
+ */
+function scriptOfferReading(messages: LlmMessage[]): string {
+    return formatOfferListing(parseOfferText(messages[messages.length - 1]?.text ?? ''));
+}
+
+/**
+ * Streams a reply word by word, stopping when the request is aborted.
+ */
+async function streamText(text: string, request: LlmRequest, chunkDelayMs: number): Promise<void> {
+    let sent = '';
+    for (const word of text.split(/(?<=\s)/)) {
+        await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+        request.signal?.throwIfAborted();
+        sent += word;
+        request.onText!(sent);
+    }
+}
+
+/**
+ * Deterministic, offline stand-in for a real model. Negotiation turns phrase the move that
+ * getAiResponse appends to the system instruction, in the same structure the real model is asked for.
+ */
+export function createMockProvider(options: { chunkDelayMs?: number } = {}): LlmProvider {
+    const chunkDelayMs = options.chunkDelayMs ?? DEFAULT_CHUNK_DELAY_MS;
+    return {
+        name: 'mock',
+        async generate(request: LlmRequest): Promise<LlmResult> {
+            request.signal?.throwIfAborted();
+            const text = request.task === 'read-offer'
+                ? scriptOfferReading(request.messages)
+                : renderTurn(scriptNegotiationTurn(request.systemInstruction), request.responseSchema !== undefined);
+            if (request.onText) {
+                await streamText(text, request, chunkDelayMs);
+            }
+            return { text, finishReason: 'STOP' };
+        },
+    };
+}
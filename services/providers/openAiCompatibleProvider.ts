@@ -0,0 +1,94 @@
+import type { LlmConfig, LlmProvider, LlmRequest, LlmResult } from '../llmProvider';
+import { llmErrorForStatus, parseRetryAfter } from '../llmErrors';
+
+const DEFAULT_BASE_URL = 'http://localhost:8080/v1';
+const DEFAULT_MODEL = 'local-model';
+
+/**
+ * Reads a streamed chat completion (server-sent events of `choices[0].delta.content`), reporting the text so far.
+ */
+async function readStream(response: Response, onText: (textSoFar: string) => void): Promise<LlmResult> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let finishReason: string | undefined;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            const data = line.trim().replace(/^data:\s*/, '');
+            if (!line.trim().startsWith('data:') || data === '[DONE]') {
+                continue;
+            }
+            const choice = JSON.parse(data)?.choices?.[0];
+            if (choice?.delta?.content) {
+                text += choice.delta.content;
+                onText(text);
+            }
+            finishReason = choice?.finish_reason ?? finishReason;
+        }
+    }
+    return { text: text.trim(), finishReason };
+}
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API (llama.cpp server, Ollama, vLLM, ...).
+ */
+export function createOpenAiCompatibleProvider(config: LlmConfig): LlmProvider {
+    const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+    return {
+        name: 'openai-compatible',
+        async generate(request: LlmRequest): Promise<LlmResult> {
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (config.apiKey) {
+                headers['Authorization'] = `Bearer ${config.apiKey}`;
+            }
+
+            const response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    model: request.model || config.model || DEFAULT_MODEL,
+                    messages: [
+                        { role: 'system', content: request.systemInstruction },
+                        ...request.messages.map(msg => ({
+                            role: msg.role === 'model' ? 'assistant' : 'user',
+                            content: msg.text,
+                        })),
+                    ],
+                    temperature: request.temperature,
+                    top_p: request.topP,
+                    max_tokens: request.maxOutputTokens,
+                    response_format: request.responseSchema
+                        ? { type: 'json_schema', json_schema: { name: `${request.task.replace('-', '_')}_reply`, schema: request.responseSchema } }
+                        : undefined,
+                    stream: request.onText ? true : undefined,
+                }),
+                signal: request.signal,
+            });
+
+            if (!response.ok) {
+                throw llmErrorForStatus(response.status, `LLM server at ${baseUrl} responded with ${response.status} ${response.statusText}`, parseRetryAfter(response.headers.get('retry-after')));
+            }
+
+            if (request.onText) {
+                return readStream(response, request.onText);
+            }
+
+            const data = await response.json();
+            const choice = data?.choices?.[0];
+            return {
+                text: (choice?.message?.content ?? '').trim(),
+                finishReason: choice?.finish_reason,
+                raw: data,
+            };
+        },
+    };
+}
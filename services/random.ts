@@ -0,0 +1,41 @@
+/**
+ * Seeded pseudo-random numbers, so that experiment schedules and draws can be reproduced.
+ */
+
+export type Rng = () => number; // Uniform on [0, 1)
+
+// FNV-1a, to turn string seeds into 32-bit integers.
+function hashSeed(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * A mulberry32 generator. Seeds given as several parts (e.g. experiment seed and participant id) are combined.
+ */
+export function createRng(...seedParts: (string | number)[]): Rng {
+    let state = hashSeed(seedParts.join('|'));
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A shuffled copy (Fisher-Yates).
+ */
+export function shuffled<T>(items: T[], rng: Rng): T[] {
+    const result = items.slice();
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
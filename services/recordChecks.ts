@@ -0,0 +1,175 @@
+import type { ContractTerms, DemandDistribution, Message, NashSolution, NegotiationParams, Offer, OfferStatus, PartialOffer, ProfitCalcs } from '../types';
+import { contractTermsProblem, contractTermValues, mergeContractTerms } from './contracts';
+import { demandDistributionProblem } from './demandDistribution';
+import { MAX_GUILT } from './inequityAversion';
+import { STRATEGY_LABELS } from '../constants';
+
+/**
+ * Readers for records that come from outside the app's own state: the API's request bodies and imported
+ * transcripts. Each checks a value field by field and returns a typed copy of it, or throws an
+ * InvalidRecordError naming the field.
+ */
+
+export class InvalidRecordError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'InvalidRecordError';
+    }
+}
+
+// More than any grid of parameter values needs.
+const MAX_GRID_VALUES = 100;
+
+const OFFER_FIELDS = ['w', 'q', 'b', 'phi', 'threshold', 'discount'] as const;
+const OFFER_STATUSES: OfferStatus[] = ['proposed', 'countered', 'accepted', 'rejected'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isValueList = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.length > 0 && value.length <= MAX_GRID_VALUES && value.every(isNumber);
+
+export function invalid(field: string, detail?: string): never {
+    throw new InvalidRecordError(detail ? `Invalid ${field}: ${detail}` : `Invalid ${field}.`);
+}
+
+export function readPartialOffer(value: unknown, field: string): PartialOffer {
+    if (!isObject(value)) {
+        invalid(field);
+    }
+    const offer: PartialOffer = {};
+    for (const term of OFFER_FIELDS) {
+        if (value[term] !== undefined) {
+            offer[term] = isNumber(value[term]) ? value[term] : invalid(`${field}.${term}`);
+        }
+    }
+    return offer;
+}
+
+function readContract(value: unknown, field: string): ContractTerms {
+    const problem = contractTermsProblem(value);
+    if (problem) {
+        invalid(field, problem);
+    }
+    const terms = value as ContractTerms;
+    return terms.type === 'wholesale' ? { type: 'wholesale' } : mergeContractTerms(terms, contractTermValues(terms));
+}
+
+export function readOffer(value: unknown, field: string): Offer {
+    if (!isObject(value) || !isNumber(value.w) || !isNumber(value.q)) {
+        invalid(field, 'an offer needs numeric "w" and "q".');
+    }
+    return { ...readContract(value, field), w: value.w, q: value.q };
+}
+
+export function readParams(value: unknown, field: string): NegotiationParams {
+    if (!isObject(value)) {
+        invalid(field);
+    }
+    const { c, p, demand, contract, aiRole, information, bargaining, persona, strategy, inequityAversion, limits, grid } = value;
+    if (!isNumber(c) || !isNumber(p) || c <= 0 || c >= p) {
+        invalid(field, 'needs a positive production cost "c" below the retail price "p".');
+    }
+    const demandProblem = demandDistributionProblem(demand);
+    if (demandProblem) {
+        invalid(`${field}.demand`, demandProblem);
+    }
+    if (aiRole !== 'supplier' && aiRole !== 'retailer') {
+        invalid(`${field}.aiRole`);
+    }
+    if (information !== 'full' && information !== 'private') {
+        invalid(`${field}.information`);
+    }
+    const params: NegotiationParams = { c, p, demand: demand as DemandDistribution, contract: readContract(contract, `${field}.contract`), aiRole, information };
+    if (bargaining !== undefined) {
+        if (!isObject(bargaining) || !isNumber(bargaining.retailerWeight) || bargaining.retailerWeight < 0 || bargaining.retailerWeight > 1
+            || !isObject(bargaining.disagreement) || !isNumber(bargaining.disagreement.supplier) || !isNumber(bargaining.disagreement.retailer)) {
+            invalid(`${field}.bargaining`);
+        }
+        params.bargaining = {
+            retailerWeight: bargaining.retailerWeight,
+            disagreement: { supplier: bargaining.disagreement.supplier, retailer: bargaining.disagreement.retailer },
+        };
+    }
+    if (persona !== undefined) {
+        params.persona = typeof persona === 'string' ? persona : invalid(`${field}.persona`);
+    }
+    if (strategy !== undefined) {
+        params.strategy = typeof strategy === 'string' && Object.hasOwn(STRATEGY_LABELS, strategy)
+            ? strategy as keyof typeof STRATEGY_LABELS
+            : invalid(`${field}.strategy`);
+    }
+    if (inequityAversion !== undefined) {
+        if (!isObject(inequityAversion) || !isNumber(inequityAversion.envy) || inequityAversion.envy < 0
+            || !isNumber(inequityAversion.guilt) || inequityAversion.guilt < 0 || inequityAversion.guilt >= MAX_GUILT) {
+            invalid(`${field}.inequityAversion`);
+        }
+        params.inequityAversion = { envy: inequityAversion.envy, guilt: inequityAversion.guilt };
+    }
+    if (limits !== undefined) {
+        if (!isObject(limits)) {
+            invalid(`${field}.limits`);
+        }
+        params.limits = {};
+        for (const limit of ['timeLimitSeconds', 'maxOffers', 'aiWalkAwayAfter'] as const) {
+            if (limits[limit] !== undefined) {
+                params.limits[limit] = isCount(limits[limit]) && limits[limit] > 0 ? limits[limit] : invalid(`${field}.limits.${limit}`);
+            }
+        }
+    }
+    if (grid !== undefined) {
+        if (!isObject(grid) || !isValueList(grid.costValues) || !isValueList(grid.priceValues)) {
+            invalid(`${field}.grid`);
+        }
+        params.grid = { costValues: [...grid.costValues], priceValues: [...grid.priceValues] };
+    }
+    return params;
+}
+
+export function readNash(value: unknown, field: string): NashSolution {
+    if (!isObject(value)) {
+        invalid(field);
+    }
+    const { order_quantity, wholesale_price, retailer_profit, supplier_profit, total_profit } = value;
+    if (!isNumber(order_quantity) || !isNumber(wholesale_price) || !isNumber(retailer_profit) || !isNumber(supplier_profit) || !isNumber(total_profit)) {
+        invalid(field, 'the Nash benchmark needs its quantity, price and profits.');
+    }
+    return { order_quantity, wholesale_price, retailer_profit, supplier_profit, total_profit };
+}
+
+export function readProfits(value: unknown, field: string): ProfitCalcs {
+    if (!isObject(value)) {
+        invalid(field);
+    }
+    const { supplier_profit, retailer_profit, total_profit } = value;
+    if (!isNumber(supplier_profit) || !isNumber(retailer_profit) || !isNumber(total_profit)) {
+        invalid(field, 'needs both profits and their total.');
+    }
+    return { supplier_profit, retailer_profit, total_profit };
+}
+
+export function readMessage(value: unknown, field: string): Message {
+    if (!isObject(value) || !isNumber(value.id) || (value.sender !== 'user' && value.sender !== 'ai') || typeof value.text !== 'string') {
+        invalid(field, 'a message needs an id, a sender and its text.');
+    }
+    const message: Message = { id: value.id, sender: value.sender, text: value.text };
+    if (value.timestamp !== undefined) {
+        message.timestamp = isNumber(value.timestamp) ? value.timestamp : invalid(`${field}.timestamp`);
+    }
+    if (value.offer !== undefined) {
+        message.offer = readOffer(value.offer, `${field}.offer`);
+    }
+    if (value.offerStatus !== undefined) {
+        message.offerStatus = OFFER_STATUSES.includes(value.offerStatus as OfferStatus) ? value.offerStatus as OfferStatus : invalid(`${field}.offerStatus`);
+    }
+    if (value.parsedOffer !== undefined) {
+        message.parsedOffer = readPartialOffer(value.parsedOffer, `${field}.parsedOffer`);
+    }
+    if (value.debugPrompt !== undefined) {
+        message.debugPrompt = typeof value.debugPrompt === 'string' ? value.debugPrompt : invalid(`${field}.debugPrompt`);
+    }
+    return message;
+}
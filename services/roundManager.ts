@@ -0,0 +1,100 @@
+import type { EndReason, Message, NegotiationParams, Offer, PartialOffer, ProfitCalcs, Role, SessionOutcome, Settlement } from '../types';
+import { messageOffer } from './sessionLog';
+import { formatOfferTerms } from './contracts';
+import { disagreementPayoffs } from './negotiationService';
+import { PRIVATE_PARAMETER, otherRole } from '../constants';
+
+/**
+ * Results of the rounds a participant plays in sequence: their cumulative earnings, and the
+ * summary of their past behaviour the AI can be given when it remembers earlier rounds.
+ */
+
+export interface RoundResult {
+    round: number; // 1-based
+    params: NegotiationParams;
+    outcome: SessionOutcome;
+    endReason?: EndReason;
+    finalOffer?: Offer;
+    profits?: ProfitCalcs;
+    settlement?: Settlement;
+    userProfit: number; // The participant's earnings in the round: realised once settled, expected before; their disagreement payoff without a deal
+    firstUserOffer?: PartialOffer;
+    userOfferCount: number;
+    messageCount: number;
+}
+
+export const roleProfit = (profits: ProfitCalcs, role: Role) => (role === 'supplier' ? profits.supplier_profit : profits.retailer_profit);
+
+/**
+ * How a round ended, as far as it has.
+ */
+export interface RoundEnd {
+    reason: EndReason | null; // null while the round is running
+    finalOffer?: Offer;
+    profits?: ProfitCalcs;
+    settlement?: Settlement;
+}
+
+export function roundResult(round: number, params: NegotiationParams, messages: Message[], end: RoundEnd): RoundResult {
+    const userOffers = messages.filter(m => m.sender === 'user').map(messageOffer).filter(o => o !== undefined);
+    const { finalOffer, profits, settlement } = end;
+    const userRole = otherRole(params.aiRole);
+    const agreed = end.reason === 'accepted' && finalOffer !== undefined && profits !== undefined;
+    return {
+        round,
+        params,
+        outcome: agreed ? 'agreement' : end.reason ? 'disagreement' : 'open',
+        endReason: end.reason ?? undefined,
+        finalOffer: agreed ? finalOffer : undefined,
+        profits: agreed ? profits : undefined,
+        settlement: agreed ? settlement : undefined,
+        userProfit: agreed
+            ? settlement?.participantProfit ?? roleProfit(profits, userRole)
+            : end.reason ? roleProfit(disagreementPayoffs(params), userRole) : 0,
+        firstUserOffer: userOffers[0],
+        userOfferCount: userOffers.length,
+        messageCount: messages.length,
+    };
+}
+
+export const cumulativeEarnings = (results: RoundResult[]) => results.reduce((sum, result) => sum + result.userProfit, 0);
+
+// The euros owed for the settled rounds.
+export const totalPayment = (results: RoundResult[]) => results.reduce((sum, result) => sum + (result.settlement?.payment ?? 0), 0);
+
+const describePartialOffer = (offer: PartialOffer) =>
+    [offer.w !== undefined ? `w=${offer.w.toFixed(2)}` : '', offer.q !== undefined ? `q=${offer.q.toFixed(0)}` : ''].filter(Boolean).join(', ');
+
+const describeEnd = (result: RoundResult) => {
+    if (result.finalOffer) {
+        return `you agreed on ${formatOfferTerms(result.finalOffer)}`;
+    }
+    switch (result.endReason) {
+        case 'walked-away':
+            return 'they walked away without a deal';
+        case 'ai-walked-away':
+            return 'you walked away after their unacceptable offers';
+        case 'time-limit':
+            return 'time ran out without a deal';
+        default:
+            return 'no deal was reached';
+    }
+};
+
+/**
+ * The participant's behaviour in earlier rounds, for the AI's instructions. Only the AI's own parameter
+ * of each round is mentioned when the round was played with private information.
+ */
+export function describePastRounds(results: RoundResult[]): string {
+    return results.map(result => {
+        const { params } = result;
+        const ownParameter = PRIVATE_PARAMETER[params.aiRole];
+        const setting = params.information === 'private'
+            ? `${ownParameter}=${params[ownParameter]}`
+            : `c=${params.c}, p=${params.p}`;
+        const offers = result.firstUserOffer
+            ? `they opened with ${describePartialOffer(result.firstUserOffer)} and made ${result.userOfferCount} offer(s) in total`
+            : 'they made no offer';
+        return `- Round ${result.round} (${setting}): ${offers}; ${describeEnd(result)}.`;
+    }).join('\n');
+}
@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NegotiationParams, SessionRecord } from '../types';
+import { buildSessionRecord, deleteSession, loadSessions, saveSession, SessionLogError } from './sessionLog';
+import { nashBargainingSolution } from './negotiationService';
+import { INITIAL_PARAMS } from '../constants';
+
+const params: NegotiationParams = { ...INITIAL_PARAMS, c: 4, p: 11 };
+
+const record = (sessionId: string, text = 'Hello'): SessionRecord => buildSessionRecord({
+    sessionId, participantId: 'p1', startedAt: 0, params, nash: nashBargainingSolution(params),
+    messages: [{ id: 1, sender: 'user', text, timestamp: 1000 }],
+});
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('the session log', () => {
+    it('keeps each session under a key of its own', () => {
+        saveSession(record('a'));
+        saveSession(record('b'));
+        saveSession(record('a', 'Hello again'));
+        expect(loadSessions().map(session => [session.sessionId, session.messages[0].text])).toEqual([['a', 'Hello again'], ['b', 'Hello']]);
+
+        const sizeOfB = localStorage.getItem('negotiation-session:b')!.length;
+        saveSession(record('a', 'A much longer message than before'));
+        expect(localStorage.getItem('negotiation-session:b')!.length).toBe(sizeOfB);
+
+        deleteSession('a');
+        expect(loadSessions().map(session => session.sessionId)).toEqual(['b']);
+    });
+
+    it('moves a log kept in one array to per-session keys', () => {
+        localStorage.setItem('negotiation-session-log', JSON.stringify([record('old')]));
+        saveSession(record('new'));
+        expect(localStorage.getItem('negotiation-session-log')).toBeNull();
+        expect(loadSessions().map(session => session.sessionId)).toEqual(['old', 'new']);
+    });
+
+    it('throws when storage is full, so the app can say that recording stopped', () => {
+        vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+            throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        });
+        expect(() => saveSession(record('a'))).toThrow(SessionLogError);
+    });
+});
@@ -0,0 +1,285 @@
+import type { EndReason, ExperimentAssignment, LlmFailure, Message, NashSolution, NegotiationParams, Offer, PartialOffer, ProfitCalcs, SessionRecord, Settlement } from '../types';
+import { contractTermValues } from './contracts';
+import { demandMean } from './demandDistribution';
+import { disagreementPayoffs } from './negotiationService';
+import { DEFAULT_STRATEGY } from './concessionStrategy';
+import { otherRole } from '../constants';
+
+/**
+ * The session log: every negotiation is kept in localStorage as a SessionRecord and can be
+ * exported as JSON (the records as stored) or as CSV, one row per session or per message.
+ * The CSV columns are documented in the README.
+ */
+
+// Each session is stored under a key of its own, so recording a message rewrites only its session.
+const SESSION_INDEX_KEY = 'negotiation-session-index';
+const SESSION_KEY_PREFIX = 'negotiation-session:';
+// Earlier versions kept every session in one array under this key; it is moved over on first use.
+const LEGACY_SESSIONS_KEY = 'negotiation-session-log';
+const PARTICIPANT_KEY = 'negotiation-participant-id';
+
+const sessionKey = (sessionId: string) => `${SESSION_KEY_PREFIX}${sessionId}`;
+
+/**
+ * A session that could not be written, typically because the browser's storage quota is used up.
+ */
+export class SessionLogError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'SessionLogError';
+    }
+}
+
+// localStorage is missing outside the browser (e.g. in scripts); the log then stays empty.
+export const storage = (): Storage | null => (typeof localStorage === 'undefined' ? null : localStorage);
+
+function readJson(store: Storage, key: string): unknown {
+    const raw = store.getItem(key);
+    if (!raw) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(raw);
+    } catch (error) {
+        console.error(`Could not read ${key} from the session log:`, error);
+        return undefined;
+    }
+}
+
+function loadIndex(store: Storage): string[] {
+    const ids = readJson(store, SESSION_INDEX_KEY);
+    return Array.isArray(ids) ? ids.filter(id => typeof id === 'string') : [];
+}
+
+function loadLegacySessions(store: Storage): SessionRecord[] {
+    const sessions = readJson(store, LEGACY_SESSIONS_KEY);
+    return Array.isArray(sessions) ? sessions : [];
+}
+
+/**
+ * Writes the record and adds it to the index. Throws a SessionLogError when storage refuses the write.
+ */
+function storeSession(store: Storage, record: SessionRecord, ids: string[]): string[] {
+    try {
+        store.setItem(sessionKey(record.sessionId), JSON.stringify(record));
+        if (ids.includes(record.sessionId)) {
+            return ids;
+        }
+        const updated = [...ids, record.sessionId];
+        store.setItem(SESSION_INDEX_KEY, JSON.stringify(updated));
+        return updated;
+    } catch (error) {
+        throw new SessionLogError('The session could not be recorded: the browser storage is full. Export the recorded sessions and delete old ones to make room.', { cause: error });
+    }
+}
+
+function migrateLegacyLog(store: Storage): void {
+    const legacy = readJson(store, LEGACY_SESSIONS_KEY);
+    if (!Array.isArray(legacy)) {
+        return;
+    }
+    try {
+        (legacy as SessionRecord[]).reduce((ids, record) => storeSession(store, record, ids), loadIndex(store));
+        store.removeItem(LEGACY_SESSIONS_KEY);
+    } catch (error) {
+        // The old log stays where it is and is still read; moving it is tried again next time.
+        console.error('Could not move the session log to per-session keys:', error);
+    }
+}
+
+export function loadSessions(): SessionRecord[] {
+    const store = storage();
+    if (!store) {
+        return [];
+    }
+    migrateLegacyLog(store);
+    const sessions = loadIndex(store)
+        .map(id => readJson(store, sessionKey(id)))
+        .filter((record): record is SessionRecord => typeof record === 'object' && record !== null);
+    const stored = new Set(sessions.map(session => session.sessionId));
+    return [...loadLegacySessions(store).filter(session => !stored.has(session.sessionId)), ...sessions];
+}
+
+/**
+ * Adds the record, or replaces the stored one with the same session id.
+ * Throws a SessionLogError when it cannot be written, so the caller can tell the user that recording stopped.
+ */
+export function saveSession(record: SessionRecord): void {
+    const store = storage();
+    if (!store) {
+        return;
+    }
+    migrateLegacyLog(store);
+    storeSession(store, record, loadIndex(store));
+}
+
+export function deleteSession(sessionId: string): void {
+    const store = storage();
+    if (!store) {
+        return;
+    }
+    migrateLegacyLog(store);
+    store.removeItem(sessionKey(sessionId));
+    store.setItem(SESSION_INDEX_KEY, JSON.stringify(loadIndex(store).filter(id => id !== sessionId)));
+}
+
+export function clearSessions(): void {
+    const store = storage();
+    if (!store) {
+        return;
+    }
+    loadIndex(store).forEach(id => store.removeItem(sessionKey(id)));
+    store.removeItem(SESSION_INDEX_KEY);
+    store.removeItem(LEGACY_SESSIONS_KEY);
+}
+
+export function loadParticipantId(): string {
+    return storage()?.getItem(PARTICIPANT_KEY) ?? '';
+}
+
+export function saveParticipantId(participantId: string): void {
+    storage()?.setItem(PARTICIPANT_KEY, participantId);
+}
+
+export const newSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The record of a session from its messages. The session counts as agreed once the participant accepted an
+ * offer, and as a disagreement once it ended any other way. It ends at its last message unless `endedAt` is given
+ * (e.g. when time ran out).
+ */
+export function buildSessionRecord(session: {
+    sessionId: string;
+    participantId: string;
+    startedAt: number;
+    params: NegotiationParams;
+    nash: NashSolution;
+    messages: Message[];
+    endReason?: EndReason;
+    acceptedBy?: Message['sender'];
+    endedAt?: number;
+    finalOffer?: Offer;
+    finalProfits?: ProfitCalcs;
+    experiment?: ExperimentAssignment;
+    settlement?: Settlement;
+    llmFailures?: LlmFailure[];
+}): SessionRecord {
+    const { endReason, acceptedBy, finalOffer, finalProfits, settlement, ...rest } = session;
+    const endedAt = session.endedAt ?? session.messages.reduce((latest, message) => Math.max(latest, message.timestamp ?? 0), session.startedAt);
+    const agreed = endReason === 'accepted' && finalOffer !== undefined && finalProfits !== undefined;
+    const record: SessionRecord = { schemaVersion: 1, ...rest, endedAt, outcome: agreed ? 'agreement' : endReason ? 'disagreement' : 'open' };
+    if (endReason) {
+        record.endReason = endReason;
+    }
+    if (agreed) {
+        record.finalOffer = finalOffer;
+        record.finalProfits = finalProfits;
+        record.acceptedBy = acceptedBy;
+        record.timeToAgreementMs = endedAt - session.startedAt;
+        if (settlement) {
+            record.settlement = settlement;
+        }
+    }
+    return record;
+}
+
+export function sessionsToJson(sessions: SessionRecord[]): string {
+    return JSON.stringify({ schemaVersion: 1, exportedAt: new Date().toISOString(), sessions }, null, 2);
+}
+
+export type CsvValue = string | number | undefined;
+
+const csvField = (value: CsvValue): string => {
+    if (value === undefined) {
+        return '';
+    }
+    const text = typeof value === 'number' ? (Number.isInteger(value) ? String(value) : value.toFixed(4)) : value;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]) =>
+    [header.join(','), ...rows.map(row => row.map(csvField).join(','))].join('\n');
+
+const isoTime = (ms: number | undefined) => (ms === undefined ? undefined : new Date(ms).toISOString());
+
+// The offer a message carries: the attached one, or else what was read from a user's text.
+export const messageOffer = (message: Message): PartialOffer | undefined => {
+    if (message.offer) {
+        return { w: message.offer.w, q: message.offer.q, ...contractTermValues(message.offer) };
+    }
+    if (message.parsedOffer && (message.parsedOffer.w !== undefined || message.parsedOffer.q !== undefined)) {
+        return message.parsedOffer;
+    }
+    return undefined;
+};
+
+export const SESSION_CSV_COLUMNS = [
+    'session_id', 'participant_id', 'experiment_id', 'treatment_id', 'participant_number', 'round',
+    'started_at', 'ended_at', 'human_role', 'ai_role', 'information',
+    'contract_type', 'c', 'p', 'demand_type', 'demand_mean', 'retailer_weight',
+    'ai_strategy', 'ai_persona', 'ai_envy', 'ai_guilt',
+    'time_limit_s', 'max_offers', 'ai_walk_away_after',
+    'nash_w', 'nash_q', 'nash_supplier_profit', 'nash_retailer_profit',
+    'outcome', 'end_reason', 'accepted_by', 'n_messages', 'n_human_offers', 'n_ai_offers', 'first_human_w', 'first_human_q',
+    'final_w', 'final_q', 'final_b', 'final_phi', 'final_threshold', 'final_discount',
+    'supplier_profit', 'retailer_profit', 'total_profit', 'efficiency', 'time_to_agreement_s',
+    'settlement_seed', 'realised_demand', 'realised_sales', 'leftovers', 'realised_supplier_profit', 'realised_retailer_profit',
+    'conversion_rate', 'payment_eur', 'n_llm_failures',
+];
+
+/**
+ * One row per session, with the outcome measured against the Nash benchmark. Sessions that ended without
+ * a deal report the disagreement payoffs as their profits.
+ */
+export function sessionsToCsv(sessions: SessionRecord[]): string {
+    const rows = sessions.map(session => {
+        const { params, nash, finalOffer, finalProfits, settlement } = session;
+        const humanOffers = session.messages.filter(m => m.sender === 'user').map(messageOffer).filter(o => o !== undefined);
+        const aiOffers = session.messages.filter(m => m.sender === 'ai' && m.offer);
+        const terms = finalOffer ? contractTermValues(finalOffer) : {};
+        const payoffs = finalProfits ?? (session.outcome === 'disagreement' ? disagreementPayoffs(params) : undefined);
+        return [
+            session.sessionId, session.participantId,
+            session.experiment?.experimentId, session.experiment?.treatmentId, session.experiment?.participantNumber, session.experiment?.round,
+            isoTime(session.startedAt), isoTime(session.endedAt),
+            otherRole(params.aiRole), params.aiRole, params.information,
+            params.contract.type, params.c, params.p, params.demand.type, demandMean(params.demand), params.bargaining?.retailerWeight,
+            params.strategy ?? DEFAULT_STRATEGY, params.persona, params.inequityAversion?.envy, params.inequityAversion?.guilt,
+            params.limits?.timeLimitSeconds, params.limits?.maxOffers, params.limits?.aiWalkAwayAfter,
+            nash.wholesale_price, nash.order_quantity, nash.supplier_profit, nash.retailer_profit,
+            session.outcome, session.endReason, session.acceptedBy, session.messages.length, humanOffers.length, aiOffers.length, humanOffers[0]?.w, humanOffers[0]?.q,
+            finalOffer?.w, finalOffer?.q, terms.b, terms.phi, terms.threshold, terms.discount,
+            payoffs?.supplier_profit, payoffs?.retailer_profit, payoffs?.total_profit,
+            payoffs && nash.total_profit > 0 ? payoffs.total_profit / nash.total_profit : undefined,
+            session.timeToAgreementMs === undefined ? undefined : session.timeToAgreementMs / 1000,
+            settlement?.seed, settlement?.demand, settlement?.sales, settlement?.leftovers,
+            settlement?.supplier_profit, settlement?.retailer_profit, settlement?.conversionRate, settlement?.payment,
+            session.llmFailures?.length ?? 0,
+        ];
+    });
+    return toCsv(SESSION_CSV_COLUMNS, rows);
+}
+
+export const MESSAGE_CSV_COLUMNS = [
+    'session_id', 'participant_id', 'seq', 'timestamp', 'elapsed_s', 'sender', 'sender_role', 'text',
+    'offer_w', 'offer_q', 'offer_b', 'offer_phi', 'offer_threshold', 'offer_discount', 'offer_source', 'offer_status',
+];
+
+/**
+ * One row per chat message, with the offer it carries.
+ */
+export function messagesToCsv(sessions: SessionRecord[]): string {
+    const rows = sessions.flatMap(session => session.messages.map((message, seq) => {
+        const offer = messageOffer(message);
+        const role = message.sender === 'ai' ? session.params.aiRole : otherRole(session.params.aiRole);
+        return [
+            session.sessionId, session.participantId, seq, isoTime(message.timestamp),
+            message.timestamp === undefined ? undefined : (message.timestamp - session.startedAt) / 1000,
+            message.sender, role, message.text,
+            offer?.w, offer?.q, offer?.b, offer?.phi, offer?.threshold, offer?.discount,
+            offer ? (message.offer ? 'attached' : 'parsed') : undefined,
+            message.offerStatus,
+        ];
+    }));
+    return toCsv(MESSAGE_CSV_COLUMNS, rows);
+}
@@ -0,0 +1,44 @@
+import type { DemandDistribution, NegotiationParams, Offer, Settlement } from '../types';
+import { demandQuantile } from './demandDistribution';
+import { realisedProfits } from './negotiationService';
+import { createRng, type Rng } from './random';
+import { roleProfit } from './roundManager';
+import { otherRole } from '../constants';
+
+/**
+ * Settlement of an agreed deal: demand is drawn from the session's distribution and the deal is paid
+ * on the realised sales instead of the expected ones. The draw is seeded, so it can be reproduced from the record.
+ */
+
+/**
+ * A demand draw in whole units, by inverting the distribution at a uniform draw.
+ */
+export function drawDemand(dist: DemandDistribution, rng: Rng): number {
+    return Math.max(0, Math.round(demandQuantile(dist, rng())));
+}
+
+/**
+ * The seed of a session's draw. Under an experiment it follows from the experiment seed, the participant and
+ * the round, so a replication of the experiment draws the same demand; otherwise from the session id.
+ */
+export function settlementSeed(sessionId: string, experiment?: { seed: string; participantId: string; round: number }): string {
+    return experiment ? [experiment.seed, experiment.participantId, 'round', experiment.round].join(':') : sessionId;
+}
+
+export function settleDeal(offer: Offer, params: NegotiationParams, seed: string, conversionRate: number): Settlement {
+    const demand = drawDemand(params.demand, createRng(seed, 'demand'));
+    const sales = Math.min(demand, offer.q);
+    const profits = realisedProfits(offer, demand, params);
+    const participantProfit = roleProfit(profits, otherRole(params.aiRole));
+    return {
+        seed,
+        demand,
+        sales,
+        leftovers: offer.q - sales,
+        supplier_profit: profits.supplier_profit,
+        retailer_profit: profits.retailer_profit,
+        participantProfit,
+        conversionRate,
+        payment: participantProfit * conversionRate,
+    };
+}
@@ -0,0 +1,260 @@
+import type { EndReason, Message, NashSolution, NegotiationParams, Offer, PartialOffer, ProfitCalcs, Treatment } from '../types';
+import { getAiResponse, parseOffer } from './geminiService';
+import { decideAgentMove, nashTargetProfit } from './agentPolicy';
+import { DEFAULT_STRATEGY, scheduledTargetProfit, targetRange } from './concessionStrategy';
+import { calculateOfferProfits, disagreementPayoffs, nashBargainingSolution } from './negotiationService';
+import { answerOpenOffers, OFFER_STATUS_FOR_ACTION } from './offerProtocol';
+import { contractTermValues, describeOfferTerms } from './contracts';
+import { demandBounds } from './demandDistribution';
+import { treatmentParams } from './experiment';
+import { messageOffer, toCsv } from './sessionLog';
+import { roleProfit } from './roundManager';
+import { createRng, type Rng } from './random';
+import { priorBelief, updateBelief } from './beliefs';
+import { ROLE_LABELS, otherRole } from '../constants';
+
+/**
+ * Headless negotiations between the AI (the same getAiResponse the app calls) and scripted counterpart
+ * bots, over many parameter draws, to compare strategies without participants.
+ */
+
+export type BotKind = 'random' | 'greedy' | 'nash-seeking' | 'conceder' | 'llm';
+
+export const BOT_KINDS: BotKind[] = ['random', 'greedy', 'nash-seeking', 'conceder', 'llm'];
+
+export interface SimulationConfig {
+    seed: string; // Drives the parameter draws and the random bot
+    runs: number; // Parameter draws; every bot plays the same draws
+    bots: BotKind[];
+    maxTurns: number; // Offers a bot may make before it must accept or walk away
+    treatment: Treatment; // The AI's side of the setup: role, contract, demand, strategy, parameter grids
+}
+
+/**
+ * What a bot does on its turn: accept the AI's open offer, walk away, or send a message with an optional offer.
+ */
+type BotTurn =
+    | { action: 'accept' }
+    | { action: 'walk-away' }
+    | { action: 'message'; text: string; offer?: Offer };
+
+interface BotState {
+    params: NegotiationParams; // Seen from the bot's side: aiRole is the bot's role
+    nash: NashSolution;
+    messages: Message[];
+    aiOffer: Offer | null; // The AI's open offer
+    turn: number; // Offers the bot has made so far
+    maxTurns: number;
+    rng: Rng;
+}
+
+type Bot = (state: BotState) => Promise<BotTurn>;
+
+// The random bot accepts a profitable AI offer this often, and otherwise offers random terms.
+const RANDOM_ACCEPT_PROBABILITY = 1 / 3;
+
+const offerTerms = (offer: Offer | null): PartialOffer => (offer ? { w: offer.w, q: offer.q, ...contractTermValues(offer) } : {});
+
+/**
+ * A bot that answers with the agent policy from its own side, aiming for the target profit it is given.
+ */
+const policyBot = (targetProfit: (state: BotState) => number): Bot => async state => {
+    const move = decideAgentMove(offerTerms(state.aiOffer), 'ask-offer', state.params, state.nash, targetProfit(state));
+    if (move.action === 'accept' && state.aiOffer) {
+        return { action: 'accept' };
+    }
+    if (!move.offer) {
+        return { action: 'walk-away' };
+    }
+    return { action: 'message', text: `I propose ${describeOfferTerms(move.offer)}.`, offer: move.offer };
+};
+
+const randomBot: Bot = async ({ params, aiOffer, rng }) => {
+    if (aiOffer && roleProfit(calculateOfferProfits(aiOffer, params), params.aiRole) > 0 && rng() < RANDOM_ACCEPT_PROBABILITY) {
+        return { action: 'accept' };
+    }
+    const w = Math.round((params.c + rng() * (params.p - params.c)) * 100) / 100;
+    const q = 1 + Math.floor(rng() * Math.round(demandBounds(params.demand).max));
+    const offer: Offer = { ...params.contract, w, q };
+    return { action: 'message', text: `How about ${describeOfferTerms(offer)}?`, offer };
+};
+
+/**
+ * The AI itself playing the bot's side, through the active LLM provider: the chat is mirrored so the
+ * bot's counterpart is its 'user'.
+ */
+const llmBot: Bot = async ({ params, nash, messages, aiOffer }) => {
+    const mirrored = messages.map((m): Message => ({ ...m, sender: m.sender === 'ai' ? 'user' : 'ai' }));
+    const response = await getAiResponse(mirrored, params, nash, offerTerms(aiOffer), { fallbackOnFailure: true });
+    if (response.action === 'accept' && aiOffer) {
+        return { action: 'accept' };
+    }
+    if (response.action === 'walk-away') {
+        return { action: 'walk-away' };
+    }
+    return { action: 'message', text: response.text, offer: response.offer };
+};
+
+const BOTS: Record<BotKind, Bot> = {
+    'random': randomBot,
+    'greedy': policyBot(({ params, nash }) => targetRange(params, nash).aspiration),
+    'nash-seeking': policyBot(({ params, nash }) => nashTargetProfit(params.aiRole, nash)),
+    'conceder': policyBot(({ params, nash, turn, maxTurns }) => scheduledTargetProfit('linear', params, nash, turn / maxTurns)),
+    'llm': llmBot,
+};
+
+export interface SimulationRun {
+    bot: BotKind;
+    run: number; // 0-based parameter draw
+    params: NegotiationParams;
+    nash: NashSolution;
+    endReason: EndReason;
+    acceptedBy?: Message['sender'];
+    finalOffer?: Offer;
+    profits: ProfitCalcs; // Of the deal, or the disagreement payoffs without one
+    botOffers: number;
+    messages: Message[];
+}
+
+/**
+ * One negotiation: the bot opens, the AI answers each of its messages, until a side accepts or walks away.
+ */
+export async function simulateNegotiation(bot: BotKind, run: number, params: NegotiationParams, config: SimulationConfig): Promise<SimulationRun> {
+    const nash = nashBargainingSolution(params);
+    const botParams: NegotiationParams = { ...params, aiRole: otherRole(params.aiRole), strategy: undefined, inequityAversion: undefined, persona: undefined };
+    const rng = createRng(config.seed, 'bot', bot, run);
+    let messages: Message[] = [];
+    const add = (sender: Message['sender'], text: string, offer?: Offer) => {
+        messages = [...messages, { id: messages.length, sender, text, offer, offerStatus: offer ? 'proposed' : undefined, timestamp: Date.now() }];
+    };
+    const end = (endReason: EndReason, acceptedBy?: Message['sender'], finalOffer?: Offer): SimulationRun => ({
+        bot, run, params, nash, endReason, acceptedBy, finalOffer,
+        profits: finalOffer ? calculateOfferProfits(finalOffer, params) : disagreementPayoffs(params),
+        botOffers: messages.filter(m => m.sender === 'user' && m.offer).length,
+        messages,
+    });
+
+    add('ai', `Hello, I'm the ${ROLE_LABELS[params.aiRole].toLowerCase()}. Please send me your proposal with a wholesale price (w) and a quantity (q).`);
+    let aiOffer: Offer | null = null;
+    let unacceptableStreak = 0;
+    let belief = params.information === 'private' ? priorBelief(params) : undefined;
+    for (let turn = 0; ; turn++) {
+        let botTurn = await BOTS[bot]({ params: botParams, nash, messages, aiOffer, turn, maxTurns: config.maxTurns, rng });
+        if (botTurn.action === 'message' && turn >= config.maxTurns) {
+            botTurn = { action: 'walk-away' };
+        }
+        if (botTurn.action === 'accept') {
+            messages = answerOpenOffers(messages, 'user', 'accepted', false);
+            return end('accepted', 'user', aiOffer!);
+        }
+        if (botTurn.action === 'walk-away') {
+            messages = answerOpenOffers(messages, 'user', 'rejected', false);
+            return end('walked-away');
+        }
+        messages = answerOpenOffers(messages, 'user', botTurn.offer ? 'countered' : null, botTurn.offer !== undefined);
+        add('user', botTurn.text, botTurn.offer);
+
+        // The same reading of the bot's message as for a participant's.
+        const lastUserMessage = messages[messages.length - 1];
+        const lastUserOffer = messageOffer(lastUserMessage) ?? await parseOffer(lastUserMessage.text);
+        messages = messages.map(m => (m === lastUserMessage && !m.offer ? { ...m, parsedOffer: lastUserOffer } : m));
+        belief = belief && updateBelief(belief, lastUserOffer, params);
+        const response = await getAiResponse(messages, params, nash, lastUserOffer, { belief, unacceptableStreak, fallbackOnFailure: true });
+        if (response.unacceptable !== undefined) {
+            unacceptableStreak = response.unacceptable ? unacceptableStreak + 1 : 0;
+        }
+        const newOffer = response.action === 'accept' ? undefined : response.offer;
+        messages = answerOpenOffers(messages, 'ai', response.action ? OFFER_STATUS_FOR_ACTION[response.action] : null, newOffer !== undefined);
+        add('ai', response.text, newOffer);
+        if (response.action === 'accept' && lastUserMessage.offer) {
+            return end('accepted', 'ai', lastUserMessage.offer);
+        }
+        if (response.action === 'walk-away') {
+            return end('ai-walked-away');
+        }
+        aiOffer = newOffer ?? aiOffer;
+    }
+}
+
+/**
+ * Plays every bot on the same seeded parameter draws from the treatment's grids.
+ */
+export async function runSimulation(config: SimulationConfig, onRun?: (run: SimulationRun) => void): Promise<SimulationRun[]> {
+    const { treatment } = config;
+    const runs: SimulationRun[] = [];
+    for (let run = 0; run < config.runs; run++) {
+        const rng = createRng(config.seed, 'draw', run);
+        const c = treatment.costValues[Math.floor(rng() * treatment.costValues.length)];
+        const p = treatment.priceValues[Math.floor(rng() * treatment.priceValues.length)];
+        const params: NegotiationParams = { ...treatmentParams(treatment, c, p), limits: { ...treatment.limits, maxOffers: config.maxTurns } };
+        for (const bot of config.bots) {
+            const result = await simulateNegotiation(bot, run, params, config);
+            onRun?.(result);
+            runs.push(result);
+        }
+    }
+    return runs;
+}
+
+const efficiency = (run: SimulationRun) => (run.nash.total_profit > 0 ? run.profits.total_profit / run.nash.total_profit : undefined);
+const aiShare = (run: SimulationRun) => (run.finalOffer && run.profits.total_profit > 0
+    ? roleProfit(run.profits, run.params.aiRole) / run.profits.total_profit
+    : undefined);
+
+const mean = (values: (number | undefined)[]) => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length > 0 ? defined.reduce((sum, v) => sum + v, 0) / defined.length : undefined;
+};
+
+export interface BotSummary {
+    bot: BotKind;
+    runs: number;
+    agreementRate: number;
+    meanEfficiency?: number; // Total profit over the Nash total, disagreements included at their payoffs
+    meanAiShare?: number; // The AI's share of the total profit in agreements
+    meanAiProfit?: number;
+    meanBotProfit?: number;
+    meanTurnsToAgreement?: number; // Bot offers up to the agreement
+}
+
+export function summariseRuns(runs: SimulationRun[]): BotSummary[] {
+    const bots = BOT_KINDS.filter(bot => runs.some(run => run.bot === bot));
+    return bots.map(bot => {
+        const own = runs.filter(run => run.bot === bot);
+        const agreed = own.filter(run => run.finalOffer);
+        return {
+            bot,
+            runs: own.length,
+            agreementRate: agreed.length / own.length,
+            meanEfficiency: mean(own.map(efficiency)),
+            meanAiShare: mean(agreed.map(aiShare)),
+            meanAiProfit: mean(own.map(run => roleProfit(run.profits, run.params.aiRole))),
+            meanBotProfit: mean(own.map(run => roleProfit(run.profits, otherRole(run.params.aiRole)))),
+            meanTurnsToAgreement: mean(agreed.map(run => run.botOffers)),
+        };
+    });
+}
+
+export const SIMULATION_CSV_COLUMNS = [
+    'bot', 'run', 'ai_role', 'c', 'p', 'contract_type', 'ai_strategy',
+    'outcome', 'end_reason', 'accepted_by', 'bot_offers', 'n_messages',
+    'final_w', 'final_q', 'supplier_profit', 'retailer_profit', 'total_profit',
+    'nash_total_profit', 'efficiency', 'ai_share',
+];
+
+export function runsToCsv(runs: SimulationRun[]): string {
+    return toCsv(SIMULATION_CSV_COLUMNS, runs.map(run => [
+        run.bot, run.run, run.params.aiRole, run.params.c, run.params.p, run.params.contract.type, run.params.strategy ?? DEFAULT_STRATEGY,
+        run.finalOffer ? 'agreement' : 'disagreement', run.endReason, run.acceptedBy, run.botOffers, run.messages.length,
+        run.finalOffer?.w, run.finalOffer?.q, run.profits.supplier_profit, run.profits.retailer_profit, run.profits.total_profit,
+        run.nash.total_profit, efficiency(run), aiShare(run),
+    ]));
+}
+
+export function runsToJson(config: SimulationConfig, runs: SimulationRun[]): string {
+    return JSON.stringify({
+        config,
+        summary: summariseRuns(runs),
+        runs: runs.map(({ messages, ...run }) => ({ ...run, messageCount: messages.length })),
+    }, null, 2);
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { NegotiationParams } from '../types';
+import { parseTranscripts, transcriptToJson } from './transcript';
+import { buildSessionRecord } from './sessionLog';
+import { calculateOfferProfits, nashBargainingSolution } from './negotiationService';
+import { INITIAL_PARAMS } from '../constants';
+
+const params: NegotiationParams = { ...INITIAL_PARAMS, c: 4, p: 11 };
+
+const session = buildSessionRecord({
+    sessionId: 's1', participantId: 'p1', startedAt: 0, params, nash: nashBargainingSolution(params),
+    messages: [{ id: 1, sender: 'user', text: 'Hello', timestamp: 1000 }],
+});
+
+// The transcript with its session's parameters changed.
+const withParams = (changes: Record<string, unknown>) =>
+    JSON.stringify({ format: 'negotiation-transcript', schemaVersion: 1, session: { ...session, params: { ...session.params, ...changes } } });
+
+describe('parseTranscripts', () => {
+    it('reads back a written transcript', () => {
+        expect(parseTranscripts(transcriptToJson(session))).toEqual([session]);
+    });
+
+    it('reads back an agreed session with its offers, profits and failures', () => {
+        const offer = { type: 'wholesale' as const, w: 7, q: 60 };
+        const agreed = buildSessionRecord({
+            sessionId: 's2', participantId: 'p1', startedAt: 0, params, nash: nashBargainingSolution(params),
+            messages: [
+                { id: 1, sender: 'user', text: 'w=7, q=60', timestamp: 1000, offer, offerStatus: 'accepted' },
+                { id: 2, sender: 'ai', text: 'Deal.', timestamp: 2000, debugPrompt: 'prompt' },
+            ],
+            endReason: 'accepted', acceptedBy: 'ai', finalOffer: offer, finalProfits: calculateOfferProfits(offer, params),
+            llmFailures: [{ at: 1500, provider: 'mock', task: 'negotiate', kind: 'timeout', message: 'slow', attempt: 1, recovery: 'retry' }],
+        });
+        expect(parseTranscripts(transcriptToJson(agreed))).toEqual([agreed]);
+    });
+
+    it('rejects a session whose fields have the wrong type', () => {
+        const json = (changes: Record<string, unknown>) => JSON.stringify({ format: 'negotiation-transcript', schemaVersion: 1, session: { ...session, ...changes } });
+        expect(() => parseTranscripts(json({ nash: { ...session.nash, order_quantity: '64' } }))).toThrow(/Invalid nash/);
+        expect(() => parseTranscripts(json({ outcome: 'won' }))).toThrow(/Invalid outcome/);
+        expect(() => parseTranscripts(json({ messages: [{ ...session.messages[0], offer: { type: 'wholesale', w: 'seven', q: 60 } }] }))).toThrow(/messages\[0\]\.offer/);
+    });
+
+    it.each([
+        ['no demand distribution', { demand: undefined }, /demand distribution/],
+        ['a uniform demand with min >= max', { demand: { type: 'uniform', min: 50, max: 10 } }, /demand distribution/],
+        ['no contract', { contract: undefined }, /contract/],
+        ['an invalid contract term', { contract: { type: 'buyback', b: -1 } }, /contract term "b"/],
+        ['no AI role', { aiRole: 'buyer' }, /side the AI played/],
+    ])('rejects a session with %s, which the replay could not show', (_, changes, message) => {
+        expect(() => parseTranscripts(withParams(changes))).toThrow(message);
+    });
+
+    it('rejects files that are neither transcripts nor exports', () => {
+        expect(() => parseTranscripts('[1, 2]')).toThrow(/neither a transcript/);
+        expect(() => parseTranscripts('{')).toThrow(/not valid JSON/);
+    });
+});
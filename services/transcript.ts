@@ -0,0 +1,172 @@
+import type { EndReason, ExperimentAssignment, LlmErrorKind, LlmFailure, SessionOutcome, SessionRecord, Settlement } from '../types';
+import { negotiationAnalytics } from './analytics';
+import { contractTermsProblem } from './contracts';
+import { demandDistributionProblem } from './demandDistribution';
+import { InvalidRecordError, invalid, readMessage, readNash, readOffer, readParams, readProfits } from './recordChecks';
+
+/**
+ * Transcript files: a single recorded session, written out at the end of a negotiation and
+ * read back for replay. Import also accepts the JSON export of the session log.
+ * The analytics of the session are written alongside it; they are recomputed from the session, so import ignores them.
+ */
+
+export const TRANSCRIPT_FORMAT = 'negotiation-transcript';
+
+export function transcriptToJson(session: SessionRecord): string {
+    return JSON.stringify({ format: TRANSCRIPT_FORMAT, schemaVersion: 1, session, analytics: negotiationAnalytics(session) }, null, 2);
+}
+
+export const transcriptFileName = (session: SessionRecord) => `transcript-${session.sessionId}.json`;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const OUTCOMES: SessionOutcome[] = ['agreement', 'disagreement', 'open'];
+const END_REASONS: EndReason[] = ['accepted', 'walked-away', 'ai-walked-away', 'time-limit'];
+const LLM_ERROR_KINDS: LlmErrorKind[] = ['timeout', 'rate-limit', 'unavailable', 'rejected'];
+const RECOVERIES: LlmFailure['recovery'][] = ['retry', 'fallback', 'none'];
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+function readAssignment(value: unknown, field: string): ExperimentAssignment {
+    if (!isObject(value)) {
+        invalid(field);
+    }
+    const { experimentId, treatmentId, participantNumber, round, totalRounds } = value;
+    if (typeof experimentId !== 'string' || typeof treatmentId !== 'string' || !isNumber(participantNumber) || !isNumber(round) || !isNumber(totalRounds)) {
+        invalid(field);
+    }
+    return { experimentId, treatmentId, participantNumber, round, totalRounds };
+}
+
+function readSettlement(value: unknown, field: string): Settlement {
+    if (!isObject(value)) {
+        invalid(field);
+    }
+    const { seed, demand, sales, leftovers, supplier_profit, retailer_profit, participantProfit, conversionRate, payment } = value;
+    if (typeof seed !== 'string' || !isNumber(demand) || !isNumber(sales) || !isNumber(leftovers) || !isNumber(supplier_profit)
+        || !isNumber(retailer_profit) || !isNumber(participantProfit) || !isNumber(conversionRate) || !isNumber(payment)) {
+        invalid(field);
+    }
+    return { seed, demand, sales, leftovers, supplier_profit, retailer_profit, participantProfit, conversionRate, payment };
+}
+
+function readLlmFailure(value: unknown, field: string): LlmFailure {
+    if (!isObject(value)) {
+        invalid(field);
+    }
+    const { at, provider, task, kind, message, attempt, recovery } = value;
+    if (!isNumber(at) || typeof provider !== 'string' || typeof task !== 'string' || !isOneOf(LLM_ERROR_KINDS, kind)
+        || typeof message !== 'string' || !isNumber(attempt) || !isOneOf(RECOVERIES, recovery)) {
+        invalid(field);
+    }
+    return { at, provider, task, kind, message, attempt, recovery };
+}
+
+// The session with each field read into a typed copy.
+function readSession(value: Record<string, unknown>): SessionRecord {
+    const { sessionId, participantId, startedAt, endedAt, params, nash, messages, outcome, endReason, acceptedBy,
+        finalOffer, finalProfits, timeToAgreementMs, experiment, settlement, llmFailures } = value;
+    if (typeof sessionId !== 'string' || typeof participantId !== 'string' || !isNumber(startedAt) || !Array.isArray(messages)) {
+        invalid('session');
+    }
+    const session: SessionRecord = {
+        schemaVersion: 1,
+        sessionId,
+        participantId,
+        startedAt,
+        params: readParams(params, 'params'),
+        nash: readNash(nash, 'nash'),
+        messages: messages.map((message, i) => readMessage(message, `messages[${i}]`)),
+        outcome: isOneOf(OUTCOMES, outcome) ? outcome : invalid('outcome'),
+    };
+    if (endedAt !== undefined) {
+        session.endedAt = isNumber(endedAt) ? endedAt : invalid('endedAt');
+    }
+    if (endReason !== undefined) {
+        session.endReason = isOneOf(END_REASONS, endReason) ? endReason : invalid('endReason');
+    }
+    if (acceptedBy !== undefined) {
+        session.acceptedBy = acceptedBy === 'user' || acceptedBy === 'ai' ? acceptedBy : invalid('acceptedBy');
+    }
+    if (finalOffer !== undefined) {
+        session.finalOffer = readOffer(finalOffer, 'finalOffer');
+    }
+    if (finalProfits !== undefined) {
+        session.finalProfits = readProfits(finalProfits, 'finalProfits');
+    }
+    if (timeToAgreementMs !== undefined) {
+        session.timeToAgreementMs = isNumber(timeToAgreementMs) ? timeToAgreementMs : invalid('timeToAgreementMs');
+    }
+    if (experiment !== undefined) {
+        session.experiment = readAssignment(experiment, 'experiment');
+    }
+    if (settlement !== undefined) {
+        session.settlement = readSettlement(settlement, 'settlement');
+    }
+    if (llmFailures !== undefined) {
+        session.llmFailures = Array.isArray(llmFailures)
+            ? llmFailures.map((failure, i) => readLlmFailure(failure, `llmFailures[${i}]`))
+            : invalid('llmFailures');
+    }
+    return session;
+}
+
+function checkSession(value: unknown, where: string): SessionRecord {
+    if (!isObject(value)) {
+        throw new Error(`${where} is not a session record.`);
+    }
+    const { schemaVersion, sessionId, startedAt, params, nash, messages } = value;
+    if (schemaVersion !== 1) {
+        throw new Error(`${where} has unsupported schema version ${String(schemaVersion)}.`);
+    }
+    if (typeof sessionId !== 'string' || typeof startedAt !== 'number') {
+        throw new Error(`${where} has no session id or start time.`);
+    }
+    if (!isObject(params) || typeof params.c !== 'number' || typeof params.p !== 'number' || !isObject(nash)) {
+        throw new Error(`${where} has no negotiation parameters or Nash benchmark.`);
+    }
+    // The replay computes profits and charts from these, so a session without them cannot be shown.
+    const demandProblem = demandDistributionProblem(params.demand);
+    if (demandProblem) {
+        throw new Error(`${where} has an invalid demand distribution: ${demandProblem}`);
+    }
+    const contractProblem = contractTermsProblem(params.contract);
+    if (contractProblem) {
+        throw new Error(`${where} has an invalid contract: ${contractProblem}`);
+    }
+    if (params.aiRole !== 'supplier' && params.aiRole !== 'retailer') {
+        throw new Error(`${where} does not say which side the AI played.`);
+    }
+    if (!Array.isArray(messages) || messages.some(m => !isObject(m) || typeof m.text !== 'string' || (m.sender !== 'user' && m.sender !== 'ai'))) {
+        throw new Error(`${where} has malformed messages.`);
+    }
+    try {
+        return readSession(value);
+    } catch (error) {
+        if (error instanceof InvalidRecordError) {
+            throw new Error(`${where} is malformed. ${error.message}`, { cause: error });
+        }
+        throw error;
+    }
+}
+
+/**
+ * Reads the sessions in a transcript file or a session-log JSON export. Throws an Error describing what is wrong otherwise.
+ */
+export function parseTranscripts(text: string): SessionRecord[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (isObject(data) && data.format === TRANSCRIPT_FORMAT) {
+        return [checkSession(data.session, 'The transcript')];
+    }
+    if (isObject(data) && Array.isArray(data.sessions)) {
+        return data.sessions.map((session: unknown, i: number) => checkSession(session, `Session ${i + 1}`));
+    }
+    throw new Error('The file is neither a transcript nor a session log export.');
+}
@@ -2,19 +2,101 @@ export interface Message {
   id: number;
   sender: 'user' | 'ai';
   text: string;
-  offer?: Offer;
+  offer?: Offer; // A binding offer: the other side can accept it as it stands
+  offerStatus?: OfferStatus; // Set with the offer
+  timestamp?: number; // ms since epoch
+  parsedOffer?: PartialOffer; // What the offer reader took from a user message
+  debugPrompt?: string; // The prompt behind an AI message
 }
 
-export interface Offer {
+// Where a binding offer stands: open, replaced by a newer offer, accepted or rejected by the other side.
+export type OfferStatus = 'proposed' | 'countered' | 'accepted' | 'rejected';
+
+export type Role = 'supplier' | 'retailer';
+
+// 'full': both sides see c and p. 'private': each side only sees its own parameter.
+export type InformationMode = 'full' | 'private';
+
+// How the AI's target profit moves during a negotiation (see services/concessionStrategy.ts).
+export type ConcessionStrategy = 'nash-anchored' | 'boulware' | 'linear' | 'tit-for-tat' | 'fairness';
+
+export type ContractType = 'wholesale' | 'buyback' | 'revenue_sharing' | 'quantity_discount';
+
+// The terms of a contract other than w and q.
+export type ContractTerms =
+  | { type: 'wholesale' }
+  | { type: 'buyback'; b: number } // retailer buys all q units at w, supplier pays back b per unsold unit
+  | { type: 'revenue_sharing'; phi: number } // retailer keeps share phi (0..1) of sales revenue
+  | { type: 'quantity_discount'; threshold: number; discount: number }; // w drops by fraction `discount` when q >= threshold
+
+export type Offer = ContractTerms & {
   w: number; // wholesale price
   q: number; // quantity
+};
+
+// An offer as read from a message: any subset of the terms.
+export interface PartialOffer {
+  w?: number;
+  q?: number;
+  b?: number;
+  phi?: number;
+  threshold?: number;
+  discount?: number;
+}
+
+export type DemandDistribution =
+  | { type: 'uniform'; min: number; max: number }
+  | { type: 'normal'; mean: number; sd: number; min?: number; max?: number } // truncated when min/max are set
+  | { type: 'triangular'; min: number; mode: number; max: number }
+  | { type: 'empirical'; values: number[]; probabilities?: number[] } // equally likely values unless probabilities are given
+  | { type: 'exponential'; mean: number };
+
+export interface BargainingSettings {
+  retailerWeight: number; // Retailer's bargaining power in the generalised Nash product, 0..1 (0.5 = symmetric)
+  disagreement: { supplier: number; retailer: number }; // Expected profits if no deal is reached
 }
 
 export interface NegotiationParams {
   c: number; // production_cost
   p: number; // retail_price
-  demand_min: number;
-  demand_max: number;
+  demand: DemandDistribution;
+  bargaining?: BargainingSettings; // Symmetric with zero disagreement payoffs when omitted
+  contract: ContractTerms; // Contract type of the session, with its default secondary terms
+  aiRole: Role; // The side the AI negotiates for; the user plays the other
+  information: InformationMode;
+  persona?: string; // Tone instruction for how the AI phrases its moves
+  strategy?: ConcessionStrategy; // 'nash-anchored' when omitted
+  inequityAversion?: InequityAversion; // The AI's fairness preferences; purely self-interested when omitted
+  limits?: NegotiationLimits; // No limits when omitted
+  grid?: ParameterGrid; // The values c and p were drawn from; COST_VALUES and PRICE_VALUES when omitted
+}
+
+// The values a session draws c and p from. In the private-information mode they are also what the AI's belief ranges over.
+export interface ParameterGrid {
+  costValues: number[];
+  priceValues: number[];
+}
+
+// Fehr-Schmidt inequity aversion: the AI's utility is its profit less `envy` times what the other side earns
+// beyond it and `guilt` times what it earns beyond the other side.
+export interface InequityAversion {
+  envy: number; // alpha >= 0
+  guilt: number; // 0 <= beta < 0.5
+}
+
+// Ways a negotiation can end without the participant accepting: a deadline, a cap on their offers,
+// and the AI walking away after repeated unacceptable offers.
+export interface NegotiationLimits {
+  timeLimitSeconds?: number;
+  maxOffers?: number; // Offers the participant may make, counting offers read from their messages
+  aiWalkAwayAfter?: number; // Unacceptable offers in a row after which the AI ends the negotiation
+}
+
+// The AI's belief over the counterpart's private parameter, as probabilities over candidate values.
+export interface Belief {
+  parameter: 'c' | 'p';
+  values: number[];
+  probabilities: number[];
 }
 
 export interface ProfitCalcs {
@@ -31,8 +113,102 @@ export interface NashSolution {
     total_profit: number;
 }
 
+export type AiAction = 'accept' | 'counter' | 'reject' | 'ask' | 'walk-away';
+
 export interface AiResponse {
   text: string;
   offer?: Offer;
   debugPrompt?: string;
-}
\ No newline at end of file
+  scenario?: number; // Response scenario (1-4) the agent followed
+  action?: AiAction;
+  validated?: boolean; // false when the agent's output never passed validation and a fallback was used
+  unacceptable?: boolean; // Set for replies to an offer: whether the AI found it unacceptable
+}
+
+// Why a call to the model failed: no answer in time, rate limited, server or network down, or the request refused.
+export type LlmErrorKind = 'timeout' | 'rate-limit' | 'unavailable' | 'rejected';
+
+// A failed call to the model, kept with the session.
+export interface LlmFailure {
+  at: number; // ms since epoch
+  provider: string;
+  task: string; // What the call was for: 'negotiate' or 'read-offer'
+  kind: LlmErrorKind;
+  message: string;
+  attempt: number; // 1-based attempt of the call
+  recovery: 'retry' | 'fallback' | 'none'; // What followed: another attempt, the deterministic fallback, or an error shown to the user
+}
+
+export type SessionOutcome = 'agreement' | 'disagreement' | 'open'; // 'open': abandoned (or still running)
+
+// How a negotiation ended. Every reason but 'accepted' leaves both sides with their disagreement payoffs.
+export type EndReason = 'accepted' | 'walked-away' | 'ai-walked-away' | 'time-limit';
+
+// One negotiation as stored in the session log and exported for analysis.
+export interface SessionRecord {
+  schemaVersion: 1;
+  sessionId: string;
+  participantId: string;
+  startedAt: number; // ms since epoch
+  endedAt?: number;
+  params: NegotiationParams;
+  nash: NashSolution;
+  messages: Message[];
+  outcome: SessionOutcome;
+  endReason?: EndReason;
+  acceptedBy?: Message['sender']; // Who accepted the other side's offer, for agreements
+  finalOffer?: Offer;
+  finalProfits?: ProfitCalcs;
+  timeToAgreementMs?: number;
+  experiment?: ExperimentAssignment; // Set for sessions run under an experiment configuration
+  settlement?: Settlement; // Set once demand has been drawn for the agreed deal
+  llmFailures?: LlmFailure[]; // Failed calls to the model during the session
+}
+
+// An agreed deal settled on a realised demand draw, as used to pay participants.
+export interface Settlement {
+  seed: string; // Reproduces the draw
+  demand: number;
+  sales: number;
+  leftovers: number;
+  supplier_profit: number;
+  retailer_profit: number;
+  participantProfit: number; // In experimental currency
+  conversionRate: number; // Euros per unit of experimental currency
+  payment: number; // participantProfit converted to euros
+}
+
+// One experimental condition. Each participant plays `rounds` negotiations, with c and p drawn from the grids.
+export interface Treatment {
+  id: string;
+  label?: string;
+  aiRole: Role;
+  information: InformationMode;
+  contract: ContractTerms;
+  demand: DemandDistribution;
+  retailerWeight: number;
+  costValues: number[];
+  priceValues: number[];
+  rounds: number;
+  persona?: string;
+  strategy?: ConcessionStrategy;
+  inequityAversion?: InequityAversion;
+  limits?: NegotiationLimits;
+  rememberPastRounds?: boolean; // The AI is told how the participant behaved in their earlier rounds
+}
+
+export interface ExperimentConfig {
+  id: string;
+  seed: string; // Drives treatment assignment, the round sequences and the demand draws
+  conversionRate?: number; // Euros per unit of experimental currency
+  treatments: Treatment[];
+}
+
+// Where a session sits in an experiment.
+export interface ExperimentAssignment {
+  experimentId: string;
+  treatmentId: string;
+  participantNumber: number; // Order of enrolment, starting at 0
+  round: number; // 1-based
+  totalRounds: number;
+}
@@ -6,9 +6,11 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The model and its key live behind the API server (npm run server); nothing of them goes into the bundle.
+      server: {
+        proxy: {
+          '/api': env.API_SERVER_URL || 'http://localhost:8787',
+        }
       },
       resolve: {
         alias: {